@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { User } from "@supabase/supabase-js";
+
+/**
+ * What a service key may call:
+ * - chat: /api/chat, /api/prompts, /api/me
+ * - conversations: /api/conversations, /api/feedback
+ * - trips: /api/trips
+ * - data: /api/cities, /api/estimate, /api/route
+ * - admin: /api/admin/*
+ */
+export const API_KEY_SCOPES = ["chat", "conversations", "trips", "data", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Tells a key from a Supabase JWT in the Authorization header
+export const API_KEY_PREFIX = "gk_";
+// The role service users get (see roleOf)
+export const SERVICE_ROLE = "service";
+
+export interface ApiKey {
+	name: string; // Which service, e.g. "whatsapp-bot"
+	hash: string; // SHA-256 of the key, as hex; the key itself is never stored
+	scopes: ApiKeyScope[];
+	plan?: string; // Quota plan (see defaultPlans); "free" if not set
+}
+
+/**
+ * Thrown when the API key file is broken. `issues` has one readable line per problem.
+ */
+export class ApiKeyConfigError extends Error {
+	issues: string[];
+
+	constructor(message: string, issues: string[]) {
+		super(`${message}\n  - ${issues.join("\n  - ")}`);
+		this.name = "ApiKeyConfigError";
+		this.issues = issues;
+	}
+}
+
+export interface ApiKeyRegistry {
+	/** The key's entry, or null if it isn't one of ours. */
+	find(key: string): ApiKey | null;
+}
+
+export const hashApiKey = (key: string): string =>
+	crypto.createHash("sha256").update(key, "utf8").digest("hex");
+
+/** A new random key; only its hash goes in the key file. */
+export const generateApiKey = (): string =>
+	`${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+// One entry of the key file as read from disk, before it's checked
+interface ApiKeyRow {
+	name?: unknown;
+	hash?: unknown;
+	scopes?: unknown;
+	plan?: unknown;
+}
+
+/**
+ * Checks the key file's contents: { keys: [{ name, hash, scopes, plan? }] }.
+ * @throws ApiKeyConfigError listing every problem
+ */
+export function parseApiKeys(data: unknown): ApiKey[] {
+	const keys = (data as { keys?: unknown } | null)?.keys;
+	if (!Array.isArray(keys)) {
+		throw new ApiKeyConfigError("Invalid API key file", ["keys: must be an array"]);
+	}
+	const issues: string[] = [];
+	const names = new Set<string>();
+	keys.forEach((key: ApiKeyRow | null, i: number) => {
+		const where = `keys[${i}]`;
+		if (typeof key?.name !== "string" || !key.name) issues.push(`${where}.name: required`);
+		else if (names.has(key.name)) issues.push(`${where}.name: '${key.name}' is used twice`);
+		else names.add(key.name);
+		if (typeof key?.hash !== "string" || !/^[0-9a-f]{64}$/.test(key.hash)) {
+			issues.push(`${where}.hash: must be the SHA-256 of the key, as 64 hex characters`);
+		}
+		if (
+			!Array.isArray(key?.scopes) ||
+			!key.scopes.length ||
+			key.scopes.some((s: unknown) => !API_KEY_SCOPES.includes(s as ApiKeyScope))
+		) {
+			issues.push(`${where}.scopes: must be a list of ${API_KEY_SCOPES.join(", ")}`);
+		}
+		if (key?.plan !== undefined && typeof key.plan !== "string") {
+			issues.push(`${where}.plan: must be a string`);
+		}
+	});
+	if (issues.length) throw new ApiKeyConfigError("Invalid API key file", issues);
+	return keys.map(({ name, hash, scopes, plan }: ApiKey) => ({
+		name,
+		hash,
+		scopes,
+		...(plan && { plan }),
+	}));
+}
+
+/**
+ * Loads the API key file, or returns no keys if the file doesn't exist.
+ * @throws ApiKeyConfigError if it exists but is broken
+ */
+export function loadApiKeys(filePath: string): ApiKey[] {
+	const resolved = path.resolve(filePath);
+	if (!fs.existsSync(resolved)) return [];
+	let data: unknown;
+	try {
+		data = JSON.parse(fs.readFileSync(resolved, "utf8"));
+	} catch (err: any) {
+		throw new ApiKeyConfigError("Invalid API key file", [`${filePath}: ${err.message}`]);
+	}
+	return parseApiKeys(data);
+}
+
+/**
+ * Factory function to create the API key registry.
+ * @param keys The configured keys (see loadApiKeys)
+ */
+export const createApiKeyRegistry = (keys: ApiKey[]): ApiKeyRegistry => {
+	const byHash = new Map(keys.map((k) => [k.hash, k]));
+	return {
+		find(key) {
+			if (!key.startsWith(API_KEY_PREFIX)) return null;
+			// Looking up the hash, so there is no secret to compare (and no timing to leak)
+			return byHash.get(hashApiKey(key)) || null;
+		},
+	};
+};
+
+/**
+ * The user a service acts as: the same id for every call with its key, so
+ * rate limits, quotas and conversations work as for people.
+ * The id is a UUID (the user_id columns are uuid), derived from the key's name.
+ */
+export const serviceUser = (key: ApiKey): User => {
+	const hex = hashApiKey(`service:${key.name}`);
+	const id = [
+		hex.slice(0, 8),
+		hex.slice(8, 12),
+		`5${hex.slice(13, 16)}`, // Version 5, name based
+		`${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+		hex.slice(20, 32),
+	].join("-");
+	return {
+		id,
+		aud: SERVICE_ROLE,
+		app_metadata: {
+			role: SERVICE_ROLE,
+			service: key.name,
+			scopes: key.scopes,
+			...(key.plan && { plan: key.plan }),
+		},
+		user_metadata: {},
+		created_at: "",
+	};
+};
@@ -0,0 +1,31 @@
+import { API_KEY_SCOPES, ApiKey, generateApiKey, hashApiKey, parseApiKeys } from "./apiKeys.js";
+
+// --- USAGE ---
+// npm run apikey -- <name> <scope,scope...> [plan]
+// e.g. npm run apikey -- whatsapp-bot chat,data pro
+const [name, scopes, plan] = process.argv.slice(2);
+
+if (!name || !scopes) {
+	console.error("Usage: npm run apikey -- <name> <scopes> [plan]");
+	console.error(`Scopes: ${API_KEY_SCOPES.join(", ")}`);
+	process.exit(1);
+}
+
+const key = generateApiKey();
+const entry: ApiKey = {
+	name,
+	hash: hashApiKey(key),
+	scopes: scopes.split(",").map((s) => s.trim()) as ApiKey["scopes"],
+	...(plan && { plan }),
+};
+
+try {
+	parseApiKeys({ keys: [entry] }); // Same checks as the server
+} catch (err: any) {
+	console.error(err.message);
+	process.exit(1);
+}
+
+console.log(`API key for ${name} (shown once, give it to the service):\n\n  ${key}\n`);
+console.log("Add this to the \"keys\" list in apiKeys.json (API_KEYS_PATH):\n");
+console.log(JSON.stringify(entry, null, 2));
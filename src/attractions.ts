@@ -0,0 +1,306 @@
+import fs from "fs";
+import path from "path";
+import {
+	Attraction,
+	AttractionFilters,
+	AttractionType,
+	City,
+	OpeningHours,
+} from "./types/index.js";
+import { splitPlan, stripDecoration } from "./planSplitter.js";
+
+export const ATTRACTION_TYPES: AttractionType[] = [
+	"fort",
+	"palace",
+	"religious",
+	"museum",
+	"market",
+	"food",
+	"nature",
+	"monument",
+	"experience",
+	"other",
+];
+
+export const WEEKDAYS = [
+	"sunday",
+	"monday",
+	"tuesday",
+	"wednesday",
+	"thursday",
+	"friday",
+	"saturday",
+];
+
+// First match wins, so the more specific kinds come first ("Raj Mandir Cinema" is not a temple)
+const TYPE_KEYWORDS: [AttractionType, RegExp][] = [
+	["food", /\b(food|lunch|dinner|breakfast|caf[eé]s?|restaurant|lassi\w*|chaat|bhandar|sweets?|kebabs?|biryani|dhaba|thali|paranthe|misthan|kulfi|chai|bakery|malai\w*)\b/i],
+	["experience", /\b(cinema|show|ceremony|walk|ride|cruise|boating|boat ride)\b/i],
+	["fort", /\b(fort|qila|garh)\b/i],
+	["palace", /\b(palace|mahal)\b/i],
+	["religious", /\b(temple|mandir|masjid|mosque|gurudwara|sahib|church|dargah|imambara|ghats?|aarti|darshan|math|ashram)\b/i],
+	["museum", /\b(museum|gallery|observatory|mantar|planetarium)\b/i],
+	["market", /\b(bazaar|market|mall|shopping|shops?)\b/i],
+	["nature", /\b(lake|beach|garden|bagh|park|hills?|dam|falls|waterfalls?|river|sunset|sunrise|forest|valley)\b/i],
+	["monument", /\b(gates?|minar|tombs?|statue|memorial|darwaza|charminar|bhavan|bhawan|house|monument|stupa)\b/i],
+];
+
+// "Morning – Humayun's Tomb": the part before the dash says when, not what
+const TIME_OF_DAY_PREFIX =
+	/^(?:early |late )?(?:morning|afternoon|evening|night|lunch|dinner|breakfast|lunch\/dinner|sunset|sunrise)\b[^–—]*\s[–—-]\s+/i;
+
+// Field labels, after the emoji is stripped
+const TIMINGS_FIELD = /^[\w ]{0,20}?\b(?:timings?|hours)\b(?: for \w+)?\s*:\s*(.*)$/i;
+const FEE_FIELD = /^entry(?: fee)?\s*:\s*(.*)$/i;
+const LOCATION_FIELD = /^(?:location|start point)\s*:\s*(.*)$/i;
+const TIPS_FIELD = /^(?:pro |travel )?tips?\s*:\s*(.*)$/i;
+const LABEL = /^[\w ]{1,25}:/;
+
+const isField = (line: string) =>
+	[TIMINGS_FIELD, FEE_FIELD, LOCATION_FIELD, TIPS_FIELD].some((f) => f.test(line));
+
+const slug = (text: string) =>
+	text
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+
+/**
+ * "9:00 AM" / "12 PM" / "5:15" to "HH:MM". A time without AM/PM borrows `meridiem`.
+ */
+function toClock(hours: string, minutes: string | undefined, meridiem: string | undefined): string | null {
+	let h = Number(hours);
+	const m = Number(minutes || 0);
+	if (h > 24 || m > 59) return null;
+	if (meridiem) {
+		if (h < 1 || h > 12) return null;
+		const pm = meridiem.toUpperCase() === "PM";
+		if (h === 12) h = pm ? 12 : 0;
+		else if (pm) h += 12;
+	}
+	return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+const TIME_RANGE =
+	/(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*(?:–|—|-|to)\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)/gi;
+
+/**
+ * Opening hours and closing days from a Timings value.
+ * "5:00 AM – 12:00 PM & 4:00 PM – 9:00 PM" gives two ranges; "Open 24 hours" one
+ * that covers the day. Asides in brackets ("best time: 4–6 AM") are not hours.
+ */
+export function parseTimings(text: string): { hours: OpeningHours[]; closedOn: string[] } {
+	const closedOn = WEEKDAYS.filter((day) =>
+		new RegExp(`closed on[^)]*\\b${day}s?\\b`, "i").test(text)
+	);
+	if (/\b24\s*(hours|hrs|×\s*7|x\s*7|\/\s*7)\b|24×7/i.test(text)) {
+		return { hours: [{ open: "00:00", close: "24:00" }], closedOn };
+	}
+	const hours: OpeningHours[] = [];
+	for (const m of text.replace(/\([^)]*\)/g, "").matchAll(TIME_RANGE)) {
+		const open = toClock(m[1], m[2], m[3] || m[6]);
+		const close = toClock(m[4], m[5], m[6]);
+		if (open && close) hours.push({ open, close: close === "00:00" ? "24:00" : close });
+	}
+	return { hours, closedOn };
+}
+
+/**
+ * Indian and foreigner fees from an Entry Fee value, in INR.
+ * "₹50 (Indians), ₹200 (Foreigners)", "₹30 per person", "Free (Special Darshan ₹300)".
+ * An amount without a label (or "General") applies to everyone.
+ */
+export function parseFee(text: string): { feeIndian?: number; feeForeign?: number } {
+	if (/^free\b/i.test(text.trim())) return { feeIndian: 0, feeForeign: 0 };
+	let indian: number | undefined;
+	let foreign: number | undefined;
+	let general: number | undefined;
+	for (const m of text.matchAll(/(?:₹|rs\.?\s*|inr\s*)(\d[\d,]*)\s*(?:\(([^)]*)\))?/gi)) {
+		const amount = Number(m[1].replace(/,/g, ""));
+		const label = (m[2] || "").toLowerCase();
+		if (/foreign/.test(label)) foreign ??= amount;
+		else if (/indian|citizen/.test(label)) indian ??= amount;
+		else general ??= amount;
+	}
+	indian ??= general;
+	foreign ??= general ?? indian;
+	return {
+		...(indian !== undefined && { feeIndian: indian }),
+		...(foreign !== undefined && { feeForeign: foreign }),
+	};
+}
+
+/** What kind of place this is, from its name, or failing that its description. */
+export function classifyAttraction(name: string, description = ""): AttractionType {
+	for (const text of [name, description]) {
+		const found = TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text));
+		if (found) return found[0];
+	}
+	return "other";
+}
+
+/**
+ * Parses the attraction blocks out of one plan.
+ * A section counts as an attraction if it has Timings, an Entry Fee or a Location;
+ * "Final Vibe" and "Itinerary at a Glance" sections don't.
+ * @param text The plan as plain text (see loadKnowledgeFile)
+ * @param city The City the plan is about (City.city)
+ * @param source The plan's file name
+ */
+export function extractAttractions(text: string, city: string, source: string): Attraction[] {
+	const attractions = new Map<string, Attraction>();
+
+	// Whole sections: the size limit only matters for embedding
+	for (const section of splitPlan(text, { maxChunkSize: Infinity })) {
+		const heading = section.metadata.attraction || section.metadata.section;
+		if (!heading) continue;
+
+		// Skip the Day / heading prefix: it's not part of this attraction's text
+		const body = section.content.slice(section.content.indexOf("\n\n") + 2);
+		const lines = body.split("\n").map((l) => l.trim());
+		let timings: string | undefined;
+		let entryFee: string | undefined;
+		let location: string | undefined;
+		const tips: string[] = [];
+		const description: string[] = [];
+		let inTips = false;
+
+		for (let i = 0; i < lines.length; i++) {
+			const raw = lines[i];
+			const line = stripDecoration(raw);
+			if (!line) continue;
+
+			let m: RegExpMatchArray | null;
+			if ((m = line.match(TIPS_FIELD))) {
+				inTips = true;
+				if (m[1]) tips.push(m[1]);
+			} else if ((m = line.match(TIMINGS_FIELD))) {
+				inTips = false;
+				// "🕰️ Timings:" with "Summer: 5:15 PM" / "Winter: 4:15 PM" on the lines below
+				const parts = m[1] ? [m[1]] : [];
+				while (!m[1] && parts.length < 4 && i + 1 < lines.length) {
+					const next = stripDecoration(lines[i + 1]);
+					if (next && (!/\d/.test(next) || isField(next) || next.length > 80)) break;
+					i++;
+					if (next) parts.push(next);
+				}
+				timings ??= parts.join("; ") || undefined;
+			} else if ((m = line.match(FEE_FIELD))) {
+				inTips = false;
+				entryFee ??= m[1] || undefined;
+			} else if ((m = line.match(LOCATION_FIELD))) {
+				inTips = false;
+				location ??= m[1] || undefined;
+			} else if (raw.startsWith("📍") && !LABEL.test(line)) {
+				// "📍 Near Godowlia"
+				inTips = false;
+				location ??= line;
+			} else if (inTips) {
+				tips.push(line);
+			} else if (!timings && !entryFee && !location) {
+				description.push(line);
+			}
+		}
+		if (!timings && !entryFee && !location) continue;
+
+		const name = heading.replace(TIME_OF_DAY_PREFIX, "").trim() || heading;
+		const id = `${slug(city)}/${slug(name)}`;
+		if (attractions.has(id)) continue; // Visited again on another day
+
+		attractions.set(id, {
+			id,
+			city,
+			name,
+			type: classifyAttraction(name, description.join(" ")),
+			source,
+			...(section.metadata.day !== undefined && { day: section.metadata.day }),
+			...(timings && { timings }),
+			...(timings ? parseTimings(timings) : { hours: [], closedOn: [] }),
+			...(entryFee && { entryFee, ...parseFee(entryFee) }),
+			...(location && { location }),
+			tips,
+		});
+	}
+	return [...attractions.values()];
+}
+
+const minutes = (clock: string) => {
+	const [h, m] = clock.split(":").map(Number);
+	return h * 60 + m;
+};
+
+/**
+ * True if the attraction is open at `clock` ("HH:MM") on `weekday`.
+ * Unknown hours count as closed: we only promise what the plan says.
+ */
+export function isOpenAt(attraction: Attraction, clock: string, weekday?: string): boolean {
+	if (weekday && attraction.closedOn.includes(weekday.toLowerCase())) return false;
+	const t = minutes(clock);
+	return attraction.hours.some(({ open, close }) => {
+		const from = minutes(open);
+		const to = minutes(close);
+		return from <= to ? t >= from && t < to : t >= from || t < to; // Past midnight
+	});
+}
+
+/** Applies the /api/cities/:city/attractions filters. */
+export function filterAttractions(attractions: Attraction[], filters: AttractionFilters): Attraction[] {
+	return attractions.filter((a) => {
+		if (filters.types?.length && !filters.types.includes(a.type)) return false;
+		if (filters.day !== undefined && a.day !== filters.day) return false;
+		if (filters.maxFee !== undefined) {
+			const fee = filters.visitor === "foreign" ? a.feeForeign : a.feeIndian;
+			if (fee === undefined || fee > filters.maxFee) return false;
+		}
+		if (filters.openAt && !isOpenAt(a, filters.openAt, filters.on)) return false;
+		return true;
+	});
+}
+
+/**
+ * Attractions as lines for the "Structured Data" part of the chat context.
+ * Exact values, so fee and timing questions don't depend on what RAG happens to find.
+ */
+export function formatAttractions(city: string, attractions: Attraction[]): string {
+	const lines = attractions.map((a) => {
+		const facts = [
+			a.timings && `TIMINGS:${a.timings}`,
+			a.entryFee && `ENTRY FEE:${a.entryFee}`,
+			a.location && `LOCATION:${a.location}`,
+		].filter(Boolean);
+		return `- ${a.name} (${a.type}${a.day ? `, day ${a.day}` : ""}): ${facts.join("; ")}`;
+	});
+	return `ATTRACTIONS IN ${city} (exact timings and fees):\n${lines.join("\n")}`;
+}
+
+/**
+ * Loads attractions.json, as written by `npm run attractions` (or `npm run ingest`).
+ * A missing file just means no attraction data yet.
+ */
+export function loadAttractions(filePath: string): Attraction[] {
+	const resolved = path.resolve(filePath);
+	if (!fs.existsSync(resolved)) return [];
+	let data: any;
+	try {
+		data = JSON.parse(fs.readFileSync(resolved, "utf8"));
+	} catch (error: any) {
+		throw new Error(`Failed to parse ${filePath}: ${error.message}`);
+	}
+	if (!Array.isArray(data?.attractions)) {
+		throw new Error(`${filePath}: expected { "attractions": [...] }`);
+	}
+	return data.attractions;
+}
+
+/**
+ * The City a plan is about: the front matter's city, or the file name, matched
+ * against the city names and aliases ("hydrabad_plan.txt" is Hyderabad).
+ */
+export function linkCity(name: string, cities: City[]): City | undefined {
+	const wanted = name.trim().toLowerCase();
+	return cities.find((c) =>
+		[c.city, ...(c.aliases || [])].some((n) => n.toLowerCase() === wanted)
+	);
+}
@@ -1,40 +1,106 @@
 import { Request, Response, NextFunction } from "express";
-import { SupabaseClient, User } from "@supabase/supabase-js";
+import { User } from "@supabase/supabase-js";
+import { log } from "./logger.js";
+import { AppMetrics } from "./metrics.js";
+import { InvalidTokenError, TokenVerifier } from "./tokenVerifier.js";
+import {
+	API_KEY_PREFIX,
+	ApiKeyRegistry,
+	ApiKeyScope,
+	SERVICE_ROLE,
+	serviceUser,
+} from "./apiKeys.js";
+
+// Users without a role claim
+export const DEFAULT_ROLE = "user";
+
+/**
+ * The user's role, from the `role` claim in their Supabase app_metadata.
+ * app_metadata can only be set with the service key, so users can't grant themselves a role.
+ */
+export const roleOf = (user: User): string => {
+	const role = user.app_metadata?.role;
+	return typeof role === "string" && role ? role : DEFAULT_ROLE;
+};
+
+// "Admin access required."
+const forbidden = (roles: string[]) => {
+	const names = roles.join(" or ");
+	return { error: `${names[0].toUpperCase()}${names.slice(1)} access required.` };
+};
+
+export interface AuthOptions {
+	metrics?: AppMetrics; // Times the token check as the "auth" stage
+	roles?: string[]; // Only users with one of these roles get through (403 otherwise)
+	apiKeys?: ApiKeyRegistry; // Lets services in with a key instead of a user token
+	scope?: ApiKeyScope; // The scope a key needs here; keys can't be used where there is none
+}
 
 /**
  * Factory function to create the authentication middleware.
- * We pass in the Supabase client to avoid circular dependencies.
- * @param supabase The initialized Supabase client.
+ * Takes a user token (`Authorization: Bearer <jwt>`) or a service key
+ * (`X-API-Key: gk_...`, or `Authorization: Bearer gk_...`).
+ * @param verify Checks user tokens (see createJwtVerifier, createSupabaseTokenVerifier)
+ * @param options Metrics, required roles and API keys
  * @returns The Express middleware function.
  */
-export const createAuthMiddleware = (supabase: SupabaseClient) => {
+export const createAuthMiddleware = (verify: TokenVerifier, options: AuthOptions = {}) => {
+	const { metrics, roles, apiKeys, scope } = options;
+
 	return async (req: Request, res: Response, next: NextFunction) => {
-		// 1. Get the token from the Authorization header
+		// 1. Get the token from the X-API-Key or Authorization header
 		const authHeader = req.headers.authorization;
-		if (!authHeader) {
+		const keyHeader = req.header("x-api-key");
+		if (!authHeader && !keyHeader) {
 			return res.status(401).json({ error: "No authorization header." });
 		}
 
-		const token = authHeader.split(" ")[1]; // "Bearer <token>"
+		const token = keyHeader || authHeader!.split(" ")[1]; // "Bearer <token>"
 		if (!token) {
 			return res.status(401).json({ error: "Malformed authorization header." });
 		}
 
+		// 2. Service keys: the scope decides, roles are for people
+		if (keyHeader || token.startsWith(API_KEY_PREFIX)) {
+			const key = apiKeys?.find(token);
+			if (!key) {
+				log.warn("Auth error", { error: "Unknown API key" });
+				return res.status(401).json({ error: "Invalid API key." });
+			}
+			if (!scope || !key.scopes.includes(scope)) {
+				log.warn("Forbidden: API key scope", { service: key.name, required: scope });
+				return res.status(403).json({
+					error: scope ? `API key lacks the '${scope}' scope.` : "API keys can't be used here.",
+				});
+			}
+			req.user = serviceUser(key);
+			req.role = SERVICE_ROLE;
+			return next();
+		}
+
+		const done = metrics?.stageDuration.startTimer({ stage: "auth" });
 		try {
-			// 2. Verify the token with Supabase
-			const { data, error } = await supabase.auth.getUser(token);
+			// 3. Verify the token (locally, or with Supabase)
+			const user = await verify(token).finally(() => done?.());
 
-			if (error || !data.user) {
-				console.error("Auth error:", error?.message);
-				return res.status(401).json({ error: "Invalid token." });
-			}
+			// 4. Attach user and role to the request
+			req.user = user;
+			req.role = roleOf(user);
 
-			// 3. Attach user to request and continue
-			req.user = data.user;
+			// 5. Check the role, if this route needs one
+			if (roles && !roles.includes(req.role)) {
+				log.warn("Forbidden: missing role", { role: req.role, required: roles });
+				return res.status(403).json(forbidden(roles));
+			}
 			next();
 		} catch (error: any) {
-			console.error("Critical auth error:", error.message);
+			if (error instanceof InvalidTokenError) {
+				log.warn("Auth error", { error: error.message });
+				return res.status(401).json({ error: "Invalid token." });
+			}
+			metrics?.errors.inc({ stage: "auth" });
+			log.error("Critical auth error", { error: error.message });
 			res.status(500).json({ error: "Internal authentication error." });
 		}
 	};
-};
\ No newline at end of file
+};
@@ -0,0 +1,68 @@
+// Words too common to say anything about which chunk is relevant.
+// A mix of English and the Hinglish our users type.
+const STOPWORDS = new Set([
+	"a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "for", "from",
+	"give", "how", "i", "in", "is", "it", "me", "my", "of", "on", "or", "the",
+	"to", "what", "when", "where", "which", "with", "you", "your",
+	"aur", "hai", "hain", "ka", "ke", "ki", "ko", "kya", "mein", "se", "toh",
+]);
+
+/**
+ * Lowercases and splits text into word tokens (any script), minus stopwords.
+ */
+export function tokenize(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+		(t) => !STOPWORDS.has(t)
+	);
+}
+
+export interface Bm25Index {
+	/** Scores every document that shares at least one term with the query. */
+	score(query: string): Map<string, number>;
+}
+
+/**
+ * Builds an in-memory Okapi BM25 index.
+ * @param docs Documents to index, by id
+ * @param k1 Term-frequency saturation
+ * @param b Length normalisation
+ */
+export function buildBm25Index(
+	docs: { id: string; text: string }[],
+	k1 = 1.2,
+	b = 0.75
+): Bm25Index {
+	const termFreqs = new Map<string, Map<string, number>>(); // term -> doc id -> count
+	const lengths = new Map<string, number>();
+
+	for (const doc of docs) {
+		const tokens = tokenize(doc.text);
+		lengths.set(doc.id, tokens.length);
+		for (const token of tokens) {
+			let postings = termFreqs.get(token);
+			if (!postings) termFreqs.set(token, (postings = new Map()));
+			postings.set(doc.id, (postings.get(doc.id) || 0) + 1);
+		}
+	}
+
+	const n = docs.length;
+	const avgLength =
+		n === 0 ? 0 : [...lengths.values()].reduce((sum, l) => sum + l, 0) / n;
+
+	return {
+		score(query) {
+			const scores = new Map<string, number>();
+			for (const term of new Set(tokenize(query))) {
+				const postings = termFreqs.get(term);
+				if (!postings) continue;
+				const idf = Math.log(1 + (n - postings.size + 0.5) / (postings.size + 0.5));
+				for (const [id, tf] of postings) {
+					const norm = 1 - b + (b * lengths.get(id)!) / (avgLength || 1);
+					const s = idf * ((tf * (k1 + 1)) / (tf + k1 * norm));
+					scores.set(id, (scores.get(id) || 0) + s);
+				}
+			}
+			return scores;
+		},
+	};
+}
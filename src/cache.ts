@@ -0,0 +1,221 @@
+import { Embedder } from "./llmProvider.js";
+import { cosineSimilarity } from "./vectorStore.js";
+import { ChatStreamEvents } from "./types/index.js";
+import { log } from "./logger.js";
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	size: number;
+}
+
+export interface LruCache<K, V> {
+	get(key: K): V | undefined;
+	/** Like get, but doesn't count as a hit or a use. */
+	peek(key: K): V | undefined;
+	set(key: K, value: V): void;
+	delete(key: K): void;
+	clear(): void;
+	stats(): CacheStats;
+}
+
+/**
+ * Factory function to create a small LRU cache with a TTL.
+ * A Map keeps insertion order, so re-inserting on read moves a key to the
+ * "recently used" end and the first key is always the one to evict.
+ * @param maxEntries Entries kept before the least recently used is dropped
+ * @param ttlMs How long an entry lives
+ */
+export const createLruCache = <K, V>(maxEntries: number, ttlMs: number): LruCache<K, V> => {
+	const entries = new Map<K, { value: V; expiresAt: number }>();
+	let hits = 0;
+	let misses = 0;
+
+	return {
+		get(key) {
+			const entry = entries.get(key);
+			if (!entry || entry.expiresAt <= Date.now()) {
+				if (entry) entries.delete(key);
+				misses++;
+				return undefined;
+			}
+			entries.delete(key);
+			entries.set(key, entry);
+			hits++;
+			return entry.value;
+		},
+
+		peek(key) {
+			const entry = entries.get(key);
+			return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+		},
+
+		set(key, value) {
+			entries.delete(key);
+			entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+			while (entries.size > maxEntries) {
+				entries.delete(entries.keys().next().value as K);
+			}
+		},
+
+		delete(key) {
+			entries.delete(key);
+		},
+
+		clear() {
+			entries.clear();
+		},
+
+		stats() {
+			return { hits, misses, size: entries.size };
+		},
+	};
+};
+
+export interface CacheOptions {
+	/** Query embeddings kept in memory. */
+	embeddingCacheSize: number;
+	embeddingTtlMs: number;
+	/** Cached answers kept in memory (0 turns the answer cache off). */
+	answerCacheSize: number;
+	answerTtlMs: number;
+	/** How close (cosine) a new query must be to a cached one to reuse its answer. */
+	answerSimilarity: number;
+}
+
+export const defaultCacheOptions: CacheOptions = {
+	embeddingCacheSize: 1000,
+	embeddingTtlMs: 24 * 60 * 60 * 1000, // Embeddings don't change; this just bounds memory
+	answerCacheSize: 500,
+	answerTtlMs: 60 * 60 * 1000,
+	answerSimilarity: 0.95,
+};
+
+export interface CachedEmbedder extends Embedder {
+	stats(): CacheStats;
+	clear(): void;
+}
+
+/**
+ * Wraps an embedder so repeated queries skip the embedding API.
+ * Documents are not cached: ingestion embeds each chunk once anyway.
+ */
+export const createCachedEmbedder = (
+	embedder: Embedder,
+	maxEntries: number,
+	ttlMs: number
+): CachedEmbedder => {
+	const cache = createLruCache<string, number[]>(maxEntries, ttlMs);
+	return {
+		async embedQuery(text) {
+			const key = text.replace(/\s+/g, " ").trim().toLowerCase();
+			const cached = cache.get(key);
+			if (cached) return cached;
+			const vector = await embedder.embedQuery(text);
+			cache.set(key, vector);
+			return vector;
+		},
+		embedDocuments: (texts) => embedder.embedDocuments(texts),
+		stats: () => cache.stats(),
+		clear: () => cache.clear(),
+	};
+};
+
+export interface CachedAnswer {
+	query: string;
+	answer: string;
+	sources: ChatStreamEvents["sources"];
+}
+
+export interface AnswerCache {
+	/**
+	 * Finds an answer to a near-identical question about the same cities.
+	 * @param vector The embedded question
+	 * @param scope What else must match exactly, e.g. the cities (see chat handler)
+	 * @param corpusVersion Answers built on an older knowledge base are dropped
+	 */
+	lookup(vector: number[], scope: string, corpusVersion: string): CachedAnswer | null;
+	store(vector: number[], scope: string, corpusVersion: string, answer: CachedAnswer): void;
+	clear(): void;
+	stats(): CacheStats;
+}
+
+/**
+ * Factory function to create the semantic answer cache.
+ * Lookups are a linear scan over one scope's entries, which is fine at a few hundred answers.
+ */
+export const createAnswerCache = (
+	maxEntries: number,
+	ttlMs: number,
+	minSimilarity: number
+): AnswerCache => {
+	interface Entry {
+		vector: number[];
+		scope: string;
+		answer: CachedAnswer;
+	}
+	const cache = createLruCache<number, Entry>(maxEntries, ttlMs);
+	const byScope = new Map<string, Set<number>>();
+	let version = "";
+	let nextId = 0;
+	let hits = 0;
+	let misses = 0;
+
+	const clear = () => {
+		cache.clear();
+		byScope.clear();
+	};
+
+	// Ingestion changed the chunks: every cached answer may cite stale text
+	const checkVersion = (corpusVersion: string) => {
+		if (corpusVersion !== version) {
+			if (version) log.info("Knowledge base changed, clearing the answer cache");
+			clear();
+			version = corpusVersion;
+		}
+	};
+
+	return {
+		lookup(vector, scope, corpusVersion) {
+			checkVersion(corpusVersion);
+			let best: { id: number; similarity: number } | null = null;
+			for (const id of byScope.get(scope) || []) {
+				const entry = cache.peek(id);
+				if (!entry) {
+					byScope.get(scope)!.delete(id); // Expired or evicted
+					continue;
+				}
+				const similarity = cosineSimilarity(vector, entry.vector);
+				if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+					best = { id, similarity };
+				}
+			}
+			if (!best) {
+				misses++;
+				return null;
+			}
+			hits++;
+			return cache.get(best.id)!.answer; // Counts as a use for the LRU
+		},
+
+		store(vector, scope, corpusVersion, answer) {
+			if (maxEntries <= 0) return;
+			checkVersion(corpusVersion);
+			const id = nextId++;
+			cache.set(id, { vector, scope, answer });
+			if (!byScope.has(scope)) byScope.set(scope, new Set());
+			byScope.get(scope)!.add(id);
+			// Forget ids the LRU has dropped, so the index can't outgrow the cache
+			for (const [key, ids] of byScope) {
+				for (const old of ids) if (!cache.peek(old)) ids.delete(old);
+				if (!ids.size) byScope.delete(key);
+			}
+		},
+
+		clear,
+
+		stats() {
+			return { hits, misses, size: cache.stats().size };
+		},
+	};
+};
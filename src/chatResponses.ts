@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import {
+	ChatRequest,
+	ChatResult,
+	ChatStreamEvent,
+	Conversation,
+	PromptSelection,
+} from "./types/index.js";
+import { ChatStream } from "./sse.js";
+
+/**
+ * How one chat request is answered: an SSE stream, a JSON body, or OpenAI's format.
+ * The pipeline only ever writes events; the responder decides what the client sees.
+ */
+export interface ChatResponder {
+	/** Starts the answer. Called once, after the request has been checked. */
+	open(): ChatStream;
+	/** Answers with an error instead; only before `open`. */
+	fail(status: number, body: ChatFailure["body"]): void;
+}
+
+/** A request that passed the checks, with its prompt and (existing) conversation settled. */
+export interface CheckedChat {
+	input: ChatRequest;
+	prompt: PromptSelection;
+	conversation: Conversation | null; // Null: start one (unless stateless)
+}
+
+/** Why a request can't be answered: what `ChatResponder.fail` sends. */
+export interface ChatFailure {
+	status: number;
+	body: { error?: string; issues?: string[]; reply?: string };
+}
+
+/**
+ * Checks a chat request without calling the model: the prompt selection and the
+ * conversation it continues. Runs before the quota, so a bad request costs nothing.
+ */
+export type ChatChecker = (req: Request, input: ChatRequest) => Promise<CheckedChat | ChatFailure>;
+
+/** Runs the chat pipeline (guardrails, cache, RAG, model, tools) for one checked request. */
+export type ChatRunner = (req: Request, chat: CheckedChat, responder: ChatResponder) => Promise<void>;
+
+export const isChatFailure = (result: CheckedChat | ChatFailure): result is ChatFailure =>
+	"status" in result;
+
+/**
+ * A ChatStream that writes nothing until the answer is complete,
+ * then hands the gathered events to `onEnd`.
+ * The signal aborts if the client hangs up first, which stops the generation.
+ * @param res The response to watch for a disconnect
+ * @param onEnd Writes the response from the result
+ */
+export const collectChatEvents = (res: Response, onEnd: (result: ChatResult) => void): ChatStream => {
+	const controller = new AbortController();
+	const result: ChatResult = { answer: "", toolCalls: [] };
+	let finished = false;
+	res.on("close", () => {
+		if (!finished) controller.abort();
+	});
+
+	return {
+		signal: controller.signal,
+		send(event, data) {
+			if (finished) return;
+			const e = { event, data } as ChatStreamEvent;
+			switch (e.event) {
+				case "meta":
+					result.meta = e.data;
+					break;
+				case "sources":
+					result.sources = e.data;
+					break;
+				case "delta":
+					result.answer += e.data.text;
+					break;
+				case "tool_call":
+					result.toolCalls.push({ name: e.data.name, args: e.data.args });
+					break;
+				case "tool_result": {
+					const { name, result: toolResult } = e.data;
+					const call = result.toolCalls.find((c) => c.name === name && !c.result);
+					if (call) call.result = toolResult;
+					break;
+				}
+				case "usage":
+					result.usage = e.data;
+					break;
+				case "error":
+					result.error = e.data.error;
+					break;
+			}
+		},
+		end() {
+			if (finished) return;
+			finished = true;
+			if (!res.destroyed) onEnd(result);
+		},
+	};
+};
+
+/**
+ * The /api/chat `stream: false` body: what the SSE events would have said, in one object.
+ * A failure after the answer started is a 500 that still names the conversation.
+ */
+export function sendChatResult(res: Response, result: ChatResult) {
+	const { meta, sources, answer, toolCalls, usage, error } = result;
+	if (error) {
+		return res.status(500).json({
+			error,
+			conversationId: meta?.conversationId,
+			requestId: meta?.requestId,
+		});
+	}
+	res.json({ ...meta, answer, sources, toolCalls, usage });
+}
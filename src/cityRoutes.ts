@@ -0,0 +1,157 @@
+import { Router, Request, Response } from "express";
+import { Attraction, AttractionFilters, AttractionType, City } from "./types/index.js";
+import { CityExistsError, TravelDataStore } from "./travelDataStore.js";
+import { TravelDataError } from "./travelDataSchema.js";
+import { ATTRACTION_TYPES, WEEKDAYS, filterAttractions } from "./attractions.js";
+import { log } from "./logger.js";
+
+const CLOCK = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Reads the attraction filters from the query string.
+ * ?openAt=HH:MM&on=monday&maxFee=100&visitor=foreign&type=fort,palace&day=1
+ */
+function parseAttractionFilters(query: Request["query"]): {
+	filters: AttractionFilters;
+	issues: string[];
+} {
+	const filters: AttractionFilters = {};
+	const issues: string[] = [];
+	const param = (name: string) =>
+		typeof query[name] === "string" && query[name] !== "" ? (query[name] as string) : undefined;
+
+	const openAt = param("openAt");
+	if (openAt !== undefined) {
+		const m = openAt.match(CLOCK);
+		if (!m) issues.push("openAt: must be a time as HH:MM, e.g. 16:30");
+		else filters.openAt = `${m[1].padStart(2, "0")}:${m[2]}`;
+	}
+	const on = param("on")?.toLowerCase();
+	if (on !== undefined) {
+		if (!WEEKDAYS.includes(on)) issues.push(`on: must be one of ${WEEKDAYS.join(", ")}`);
+		else filters.on = on;
+	}
+	const maxFee = param("maxFee");
+	if (maxFee !== undefined) {
+		if (!/^\d+(\.\d+)?$/.test(maxFee)) issues.push("maxFee: must be a number >= 0");
+		else filters.maxFee = Number(maxFee);
+	}
+	const visitor = param("visitor");
+	if (visitor !== undefined) {
+		if (visitor !== "indian" && visitor !== "foreign") {
+			issues.push("visitor: must be one of indian, foreign");
+		} else filters.visitor = visitor;
+	}
+	const type = param("type");
+	if (type !== undefined) {
+		const types = type.split(",").map((t) => t.trim().toLowerCase());
+		const unknown = types.filter((t) => !ATTRACTION_TYPES.includes(t as AttractionType));
+		if (unknown.length) {
+			issues.push(`type: unknown ${unknown.join(", ")}; use ${ATTRACTION_TYPES.join(", ")}`);
+		} else filters.types = types as AttractionType[];
+	}
+	const day = param("day");
+	if (day !== undefined) {
+		if (!/^[1-9]\d*$/.test(day)) issues.push("day: must be a whole number >= 1");
+		else filters.day = Number(day);
+	}
+	return { filters, issues };
+}
+
+/**
+ * Factory function to create the read-only city routes.
+ * @param cities The live cities array
+ * @param attractions Attractions extracted from the plans (see extractAttractions)
+ * @returns An Express router for /api/cities.
+ */
+export const createCityRouter = (cities: City[], attractions: Attraction[] = []): Router => {
+	const router = Router();
+
+	router.get("/", (req: Request, res: Response) => {
+		res.json({ cities });
+	});
+
+	router.get("/:city", (req: Request, res: Response) => {
+		const name = req.params.city.toLowerCase();
+		const city = cities.find((c) => c.city.toLowerCase() === name);
+		if (!city) {
+			return res.status(404).json({ error: "City not found." });
+		}
+		res.json({ city });
+	});
+
+	// GET /api/cities/jaipur/attractions?openAt=16:30&maxFee=100&type=fort
+	router.get("/:city/attractions", (req: Request, res: Response) => {
+		const name = req.params.city.toLowerCase();
+		const city = cities.find((c) => c.city.toLowerCase() === name);
+		if (!city) {
+			return res.status(404).json({ error: "City not found." });
+		}
+		const { filters, issues } = parseAttractionFilters(req.query);
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid filters.", issues });
+		}
+		const inCity = attractions.filter((a) => a.city === city.city);
+		res.json({ city: city.city, attractions: filterAttractions(inCity, filters) });
+	});
+
+	return router;
+};
+
+/**
+ * Factory function to create the admin city routes.
+ * Must be mounted behind the auth and admin middlewares.
+ * Writes go to travelData.json and are live immediately, on this instance only
+ * (see TravelDataStore).
+ * @param store The travel data store
+ * @returns An Express router for /api/admin/cities.
+ */
+export const createAdminCityRouter = (store: TravelDataStore): Router => {
+	const router = Router();
+
+	const fail = (res: Response, err: any, action: string) => {
+		if (err instanceof TravelDataError) {
+			return res.status(400).json({ error: err.message.split("\n")[0], issues: err.issues });
+		}
+		if (err instanceof CityExistsError) {
+			return res.status(409).json({ error: err.message });
+		}
+		log.error(`ERROR while trying to ${action}`, { error: err.message });
+		res.status(500).json({ error: `Failed to ${action}.` });
+	};
+
+	router.post("/", async (req: Request, res: Response) => {
+		try {
+			const city = await store.create(req.body);
+			res.status(201).json({ city });
+		} catch (err: any) {
+			fail(res, err, "create city");
+		}
+	});
+
+	router.put("/:city", async (req: Request, res: Response) => {
+		try {
+			const city = await store.update(req.params.city, req.body);
+			if (!city) {
+				return res.status(404).json({ error: "City not found." });
+			}
+			res.json({ city });
+		} catch (err: any) {
+			fail(res, err, "update city");
+		}
+	});
+
+	router.delete("/:city", async (req: Request, res: Response) => {
+		try {
+			const deleted = await store.remove(req.params.city);
+			if (!deleted) {
+				return res.status(404).json({ error: "City not found." });
+			}
+			res.status(204).end();
+		} catch (err: any) {
+			fail(res, err, "delete city");
+		}
+	});
+
+	return router;
+};
@@ -0,0 +1,99 @@
+import { Router, Request, Response } from "express";
+import { ConversationStore } from "./conversationStore.js";
+import { log } from "./logger.js";
+
+const MAX_TITLE_LENGTH = 100;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// A whole number from a query string, `fallback` if it isn't there, NaN if it isn't one
+const queryInt = (value: unknown, fallback: number) =>
+	value === undefined ? fallback : typeof value === "string" && /^\d+$/.test(value) ? Number(value) : NaN;
+
+/**
+ * Factory function to create the conversation routes.
+ * Must be mounted behind the auth middleware, since every route reads req.user.
+ * @param store The conversation store to read from and write to.
+ * @returns An Express router for /api/conversations.
+ */
+export const createConversationRouter = (store: ConversationStore): Router => {
+	const router = Router();
+
+	// List the user's conversations, newest first: ?limit=20&offset=0
+	// nextOffset is where the next page starts, or null on the last page
+	router.get("/", async (req: Request, res: Response) => {
+		const limit = queryInt(req.query.limit, DEFAULT_PAGE_SIZE);
+		const offset = queryInt(req.query.offset, 0);
+		const issues: string[] = [];
+		if (!(limit >= 1 && limit <= MAX_PAGE_SIZE)) {
+			issues.push(`limit: must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+		}
+		if (!(offset >= 0)) issues.push("offset: must be a whole number >= 0");
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid page.", issues });
+		}
+
+		try {
+			// One extra row tells us whether there's another page
+			const rows = await store.list(req.user!.id, { limit: limit + 1, offset });
+			const conversations = rows.slice(0, limit);
+			res.json({ conversations, nextOffset: rows.length > limit ? offset + limit : null });
+		} catch (err: any) {
+			log.error("ERROR in GET /api/conversations", { error: err.message });
+			res.status(500).json({ error: "Failed to list conversations." });
+		}
+	});
+
+	// Fetch one conversation with all of its messages
+	router.get("/:id", async (req: Request, res: Response) => {
+		try {
+			const conversation = await store.get(req.user!.id, req.params.id);
+			if (!conversation) {
+				return res.status(404).json({ error: "Conversation not found." });
+			}
+			res.json({ conversation });
+		} catch (err: any) {
+			log.error("ERROR in GET /api/conversations/:id", { error: err.message });
+			res.status(500).json({ error: "Failed to fetch conversation." });
+		}
+	});
+
+	// Rename a conversation
+	router.patch("/:id", async (req: Request, res: Response) => {
+		const { title } = (req.body || {}) as { title?: unknown };
+		if (typeof title !== "string" || !title.trim()) {
+			return res.status(400).json({ error: "A non-empty title is required." });
+		}
+
+		try {
+			const conversation = await store.rename(
+				req.user!.id,
+				req.params.id,
+				title.trim().slice(0, MAX_TITLE_LENGTH)
+			);
+			if (!conversation) {
+				return res.status(404).json({ error: "Conversation not found." });
+			}
+			res.json({ conversation });
+		} catch (err: any) {
+			log.error("ERROR in PATCH /api/conversations/:id", { error: err.message });
+			res.status(500).json({ error: "Failed to rename conversation." });
+		}
+	});
+
+	// Delete a conversation
+	router.delete("/:id", async (req: Request, res: Response) => {
+		try {
+			const deleted = await store.remove(req.user!.id, req.params.id);
+			if (!deleted) {
+				return res.status(404).json({ error: "Conversation not found." });
+			}
+			res.status(204).end();
+		} catch (err: any) {
+			log.error("ERROR in DELETE /api/conversations/:id", { error: err.message });
+			res.status(500).json({ error: "Failed to delete conversation." });
+		}
+	});
+
+	return router;
+};
@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+	ChatMessage,
+	Conversation,
+	ConversationSummary,
+} from "./types/index.js";
+import { isUuid } from "./utils.js";
+
+/** Which slice of a user's conversations to list, newest first. */
+export interface ConversationPage {
+	limit: number;
+	offset: number;
+}
+
+/**
+ * Storage for per-user chat conversations.
+ * Every method is scoped by userId, so one user can never see another user's chats.
+ */
+export interface ConversationStore {
+	/** Summaries only: listing never loads the messages. */
+	list(userId: string, page: ConversationPage): Promise<ConversationSummary[]>;
+	get(userId: string, id: string): Promise<Conversation | null>;
+	create(userId: string, title: string): Promise<Conversation>;
+	appendMessages(
+		userId: string,
+		id: string,
+		messages: ChatMessage[]
+	): Promise<Conversation | null>;
+	rename(userId: string, id: string, title: string): Promise<Conversation | null>;
+	remove(userId: string, id: string): Promise<boolean>;
+	/** Cheap reachability check for /readyz. Throws if the store can't be used. */
+	ping(): Promise<void>;
+}
+
+const toSummary = (c: Conversation): ConversationSummary => ({
+	id: c.id,
+	title: c.title,
+	messageCount: c.messages.length,
+	createdAt: c.createdAt,
+	updatedAt: c.updatedAt,
+});
+
+/**
+ * In-memory store. Used for local dev and tests; everything is lost on restart.
+ */
+export const createInMemoryConversationStore = (): ConversationStore => {
+	const conversations = new Map<string, Conversation>();
+
+	const find = (userId: string, id: string) => {
+		const c = conversations.get(id);
+		return c && c.userId === userId ? c : null;
+	};
+
+	return {
+		async list(userId, { limit, offset }) {
+			return [...conversations.values()]
+				.filter((c) => c.userId === userId)
+				.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+				.slice(offset, offset + limit)
+				.map(toSummary);
+		},
+
+		async get(userId, id) {
+			return find(userId, id);
+		},
+
+		async create(userId, title) {
+			const now = new Date().toISOString();
+			const conversation: Conversation = {
+				id: randomUUID(),
+				userId,
+				title,
+				messages: [],
+				createdAt: now,
+				updatedAt: now,
+			};
+			conversations.set(conversation.id, conversation);
+			return conversation;
+		},
+
+		async appendMessages(userId, id, messages) {
+			const c = find(userId, id);
+			if (!c) return null;
+			c.messages.push(...messages);
+			c.updatedAt = new Date().toISOString();
+			return c;
+		},
+
+		async rename(userId, id, title) {
+			const c = find(userId, id);
+			if (!c) return null;
+			c.title = title;
+			c.updatedAt = new Date().toISOString();
+			return c;
+		},
+
+		async remove(userId, id) {
+			if (!find(userId, id)) return false;
+			return conversations.delete(id);
+		},
+
+		async ping() {},
+	};
+};
+
+/**
+ * Supabase-backed store.
+ * Expects a `conversations` table with columns:
+ * id (uuid, default gen_random_uuid()), user_id (uuid), title (text),
+ * messages (jsonb), message_count (int, default 0), created_at (timestamptz),
+ * updated_at (timestamptz), and an index on (user_id, updated_at desc).
+ * Appending goes through a SQL function, so two requests on one conversation
+ * can't overwrite each other's messages. It also keeps message_count, which
+ * lets the list skip the messages:
+ *
+ *   create function append_conversation_messages(p_user_id uuid, p_id uuid, p_messages jsonb)
+ *   returns setof conversations language sql as $$
+ *     update conversations
+ *     set messages = messages || p_messages,
+ *         message_count = message_count + jsonb_array_length(p_messages),
+ *         updated_at = now()
+ *     where id = p_id and user_id = p_user_id
+ *     returning *;
+ *   $$;
+ *
+ * For a table that predates message_count:
+ *   alter table conversations add column message_count int not null default 0;
+ *   update conversations set message_count = jsonb_array_length(messages);
+ *
+ * The client must use the SERVICE key, since the server writes on behalf of users.
+ * @param appendFunction The SQL function above
+ */
+export const createSupabaseConversationStore = (
+	supabase: SupabaseClient,
+	tableName = "conversations",
+	appendFunction = "append_conversation_messages"
+): ConversationStore => {
+	const fromRow = (row: any): Conversation => ({
+		id: row.id,
+		userId: row.user_id,
+		title: row.title,
+		messages: row.messages || [],
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	});
+
+	// Ids that aren't UUIDs can't exist (and Postgres would fail on them)
+	const get = async (userId: string, id: string) => {
+		if (!isUuid(id)) return null;
+		const { data, error } = await supabase
+			.from(tableName)
+			.select("*")
+			.eq("user_id", userId)
+			.eq("id", id)
+			.maybeSingle();
+		if (error) throw new Error(`Supabase select error: ${error.message}`);
+		return data ? fromRow(data) : null;
+	};
+
+	const update = async (
+		userId: string,
+		id: string,
+		changes: Record<string, unknown>
+	) => {
+		if (!isUuid(id)) return null;
+		const { data, error } = await supabase
+			.from(tableName)
+			.update({ ...changes, updated_at: new Date().toISOString() })
+			.eq("user_id", userId)
+			.eq("id", id)
+			.select("*")
+			.maybeSingle();
+		if (error) throw new Error(`Supabase update error: ${error.message}`);
+		return data ? fromRow(data) : null;
+	};
+
+	return {
+		async list(userId, { limit, offset }) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.select("id, title, message_count, created_at, updated_at")
+				.eq("user_id", userId)
+				.order("updated_at", { ascending: false })
+				.order("id") // Ties keep their place from page to page
+				.range(offset, offset + limit - 1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+			return (data || []).map((row) => ({
+				id: row.id,
+				title: row.title,
+				messageCount: row.message_count,
+				createdAt: row.created_at,
+				updatedAt: row.updated_at,
+			}));
+		},
+
+		get,
+
+		async create(userId, title) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.insert({ user_id: userId, title, messages: [] })
+				.select("*")
+				.single();
+			if (error) throw new Error(`Supabase insert error: ${error.message}`);
+			return fromRow(data);
+		},
+
+		async appendMessages(userId, id, messages) {
+			if (!isUuid(id)) return null;
+			const { data, error } = await supabase
+				.rpc(appendFunction, { p_user_id: userId, p_id: id, p_messages: messages })
+				.maybeSingle();
+			if (error) throw new Error(`Supabase update error: ${error.message}`);
+			return data ? fromRow(data) : null;
+		},
+
+		async rename(userId, id, title) {
+			return update(userId, id, { title });
+		},
+
+		async remove(userId, id) {
+			if (!isUuid(id)) return false;
+			const { data, error } = await supabase
+				.from(tableName)
+				.delete()
+				.eq("user_id", userId)
+				.eq("id", id)
+				.select("id");
+			if (error) throw new Error(`Supabase delete error: ${error.message}`);
+			return (data || []).length > 0;
+		},
+
+		async ping() {
+			const { error } = await supabase.from(tableName).select("id").limit(1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+		},
+	};
+};
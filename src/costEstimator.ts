@@ -0,0 +1,285 @@
+import {
+	BudgetTier,
+	City,
+	CostLineItem,
+	DetailedCostEstimate,
+	DetailedCostParams,
+	Season,
+	TravelLeg,
+	TravelMode,
+} from "./types/index.js";
+
+// --- RATES ---
+// Rough 2025 Indian prices. City data gives the mid-tier hotel and food
+// numbers; tiers scale them. Transport rates are per person per km.
+
+const HOTEL_TIER: Record<BudgetTier, number> = { budget: 0.5, mid: 1, luxury: 2.5 };
+const FOOD_TIER: Record<BudgetTier, number> = { budget: 0.6, mid: 1, luxury: 2 };
+// Local transport, snacks, shopping: per person per day
+const FUN_PER_DAY: Record<BudgetTier, number> = { budget: 300, mid: 700, luxury: 1500 };
+
+const TRAIN_PER_KM: Record<BudgetTier, number> = { budget: 0.5, mid: 1.4, luxury: 2.4 }; // Sleeper / 3AC / 2AC
+const BUS_PER_KM: Record<BudgetTier, number> = { budget: 1, mid: 1.6, luxury: 2.4 }; // Ordinary / AC / Volvo sleeper
+const FLIGHT_BASE = 2000;
+const FLIGHT_PER_KM = 4;
+const FLIGHT_TIER: Record<BudgetTier, number> = { budget: 0.8, mid: 1, luxury: 2.5 };
+const SEATS_PER_CAR = 4;
+
+export const SEASON_MULTIPLIERS: Record<Season, number> = {
+	peak: 1.3,
+	shoulder: 1,
+	off: 0.8,
+};
+
+export const TRAVEL_MODES: TravelMode[] = ["car", "train", "bus", "flight"];
+export const BUDGET_TIERS: BudgetTier[] = ["budget", "mid", "luxury"];
+
+const legLabel = (leg: TravelLeg) => {
+	const mode = leg.mode[0].toUpperCase() + leg.mode.slice(1);
+	const route = leg.from && leg.to ? `${leg.from} → ${leg.to}, ` : "";
+	return `${mode} (${route}${leg.distanceKm} km)`;
+};
+
+/**
+ * Estimates a trip with any mix of transport legs, for a group, with a line-item breakdown.
+ * Food and fun are counted per day (a 3-night trip has 4 days of meals);
+ * hotels per night and per room. The season multiplier applies to hotels and flights.
+ */
+export function estimateDetailedTripCost(params: DetailedCostParams): DetailedCostEstimate {
+	const {
+		legs,
+		nights,
+		days = nights + 1,
+		travellers = 1,
+		peoplePerRoom = 2,
+		tier = "mid",
+		hotelPerNight,
+		foodPerDay,
+		petrolPerKm,
+		entryFees = [],
+		seasonMultiplier = 1,
+	} = params;
+
+	const rooms = nights > 0 ? Math.ceil(travellers / peoplePerRoom) : 0;
+	const lineItems: CostLineItem[] = [];
+	const add = (
+		category: CostLineItem["category"],
+		label: string,
+		quantity: number,
+		unitCost: number
+	) => {
+		const amount = Math.round(quantity * unitCost);
+		lineItems.push({ category, label, quantity, unitCost: Math.round(unitCost), amount });
+		return amount;
+	};
+
+	// 1. Transport
+	let fuelCost = 0;
+	let transport = 0;
+	for (const leg of legs) {
+		switch (leg.mode) {
+			case "car": {
+				// Fuel is per car, shared by everyone in it
+				const cars = Math.ceil(travellers / SEATS_PER_CAR);
+				if (petrolPerKm === undefined) throw new Error("petrolPerKm is needed for car legs");
+				const cost = add("transport", legLabel(leg), cars, leg.distanceKm * petrolPerKm);
+				fuelCost += cost;
+				transport += cost;
+				break;
+			}
+			case "train":
+				transport += add("transport", legLabel(leg), travellers, leg.distanceKm * TRAIN_PER_KM[tier]);
+				break;
+			case "bus":
+				transport += add("transport", legLabel(leg), travellers, leg.distanceKm * BUS_PER_KM[tier]);
+				break;
+			case "flight":
+				transport += add(
+					"transport",
+					legLabel(leg),
+					travellers,
+					(FLIGHT_BASE + leg.distanceKm * FLIGHT_PER_KM) * FLIGHT_TIER[tier] * seasonMultiplier
+				);
+				break;
+		}
+	}
+
+	// 2. Stay, food and fun
+	const hotel = add(
+		"hotel",
+		`Hotel (${rooms} room${rooms === 1 ? "" : "s"} × ${nights} night${nights === 1 ? "" : "s"})`,
+		rooms * nights,
+		hotelPerNight * HOTEL_TIER[tier] * seasonMultiplier
+	);
+	const food = add(
+		"food",
+		`Food (${travellers} × ${days} day${days === 1 ? "" : "s"})`,
+		travellers * days,
+		foodPerDay * FOOD_TIER[tier]
+	);
+	const fun = add(
+		"fun",
+		`Local travel & shopping (${travellers} × ${days} day${days === 1 ? "" : "s"})`,
+		travellers * days,
+		FUN_PER_DAY[tier]
+	);
+
+	// 3. Entry tickets
+	let entryTotal = 0;
+	for (const { name, fee } of entryFees) {
+		entryTotal += add("entry", `Entry: ${name}`, travellers, fee);
+	}
+
+	const total = transport + hotel + food + fun + entryTotal;
+	return {
+		fuelCost,
+		hotel,
+		food,
+		fun,
+		total,
+		transport,
+		entryFees: entryTotal,
+		perPerson: Math.round(total / travellers),
+		travellers,
+		rooms,
+		nights,
+		days,
+		tier,
+		seasonMultiplier,
+		lineItems,
+	};
+}
+
+export interface ParsedEstimateRequest {
+	params: DetailedCostParams | null;
+	city: City | null;
+	issues: string[]; // Problems that make the request unusable
+	warnings: string[]; // Things we skipped, e.g. a spot with no known fee
+}
+
+const isNonNegative = (v: unknown): v is number =>
+	typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+/**
+ * Turns loose input (an /api/estimate body or tool call args) into estimator params.
+ * Hotel, food and petrol rates and spot entry fees come from the city's data
+ * unless given explicitly.
+ * @param input The raw request
+ * @param findCity Looks a city up by name (e.g. searchCity)
+ */
+export function parseEstimateRequest(
+	input: Record<string, any>,
+	findCity: (name: string) => City | undefined
+): ParsedEstimateRequest {
+	const issues: string[] = [];
+	const warnings: string[] = [];
+
+	// 1. Base numbers from the city, if there is one
+	let city: City | null = null;
+	if (input.city !== undefined) {
+		city = (typeof input.city === "string" && findCity(input.city)) || null;
+		if (!city) warnings.push(`Unknown city '${input.city}', using only the rates given.`);
+	}
+	const hotelPerNight = input.hotelPerNight ?? city?.avgHotelPerNight;
+	const foodPerDay = input.foodPerDay ?? city?.avgFoodPerDay;
+	const petrolPerKm = input.petrolPerKm ?? city?.petrolPerKm;
+	if (!isNonNegative(hotelPerNight)) issues.push("hotelPerNight: needed (or a known city)");
+	if (!isNonNegative(foodPerDay)) issues.push("foodPerDay: needed (or a known city)");
+
+	// 2. Legs: either a list, or the one-leg shorthand { mode, distanceKm }
+	const rawLegs: any[] = Array.isArray(input.legs)
+		? input.legs
+		: input.distanceKm !== undefined
+		? [{ mode: input.mode ?? "car", distanceKm: input.distanceKm }]
+		: [];
+	const legs: TravelLeg[] = [];
+	rawLegs.forEach((leg, i) => {
+		if (!TRAVEL_MODES.includes(leg?.mode)) {
+			issues.push(`legs[${i}].mode: must be one of ${TRAVEL_MODES.join(", ")}`);
+		} else if (!isNonNegative(leg.distanceKm)) {
+			issues.push(`legs[${i}].distanceKm: must be a number >= 0`);
+		} else {
+			legs.push({ mode: leg.mode, distanceKm: leg.distanceKm, from: leg.from, to: leg.to });
+		}
+	});
+	// Only car legs burn petrol; a train, bus or flight trip needs no rate
+	const needsPetrol = legs.some((leg) => leg.mode === "car");
+	if ((needsPetrol || input.petrolPerKm !== undefined) && !isNonNegative(petrolPerKm)) {
+		issues.push("petrolPerKm: needed for car legs (or a known city)");
+	}
+
+	// 3. Trip shape
+	if (!Number.isInteger(input.nights) || input.nights < 0) {
+		issues.push("nights: must be a whole number >= 0");
+	}
+	if (input.days !== undefined && (!Number.isInteger(input.days) || input.days < 1)) {
+		issues.push("days: must be a whole number >= 1");
+	}
+	if (input.travellers !== undefined && (!Number.isInteger(input.travellers) || input.travellers < 1)) {
+		issues.push("travellers: must be a whole number >= 1");
+	}
+	if (input.peoplePerRoom !== undefined && (!Number.isInteger(input.peoplePerRoom) || input.peoplePerRoom < 1)) {
+		issues.push("peoplePerRoom: must be a whole number >= 1");
+	}
+	if (input.tier !== undefined && !BUDGET_TIERS.includes(input.tier)) {
+		issues.push(`tier: must be one of ${BUDGET_TIERS.join(", ")}`);
+	}
+
+	// 4. Season: a name or an explicit multiplier
+	let seasonMultiplier = 1;
+	if (input.seasonMultiplier !== undefined) {
+		if (!isNonNegative(input.seasonMultiplier)) issues.push("seasonMultiplier: must be a number >= 0");
+		else seasonMultiplier = input.seasonMultiplier;
+	} else if (input.season !== undefined) {
+		const m = SEASON_MULTIPLIERS[input.season as Season];
+		if (m === undefined) {
+			issues.push(`season: must be one of ${Object.keys(SEASON_MULTIPLIERS).join(", ")}`);
+		} else {
+			seasonMultiplier = m;
+		}
+	}
+
+	// 5. Entry fees: explicit, or looked up by spot name in the city's data
+	const entryFees: { name: string; fee: number }[] = [];
+	if (Array.isArray(input.entryFees)) {
+		input.entryFees.forEach((e: any, i: number) => {
+			if (typeof e?.name !== "string" || !isNonNegative(e.fee)) {
+				issues.push(`entryFees[${i}]: must be { name, fee }`);
+			} else {
+				entryFees.push({ name: e.name, fee: e.fee });
+			}
+		});
+	}
+	if (Array.isArray(input.spots)) {
+		for (const name of input.spots) {
+			const spot = city?.topSpots.find(
+				(s) => s.name.toLowerCase() === String(name).toLowerCase()
+			);
+			if (spot?.entryFee === undefined) {
+				warnings.push(`No entry fee on record for '${name}', skipped.`);
+			} else {
+				entryFees.push({ name: spot.name, fee: spot.entryFee });
+			}
+		}
+	}
+
+	if (issues.length) return { params: null, city, issues, warnings };
+	return {
+		params: {
+			legs,
+			nights: input.nights,
+			days: input.days,
+			travellers: input.travellers,
+			peoplePerRoom: input.peoplePerRoom,
+			tier: input.tier,
+			hotelPerNight,
+			foodPerDay,
+			petrolPerKm,
+			entryFees,
+			seasonMultiplier,
+		},
+		city,
+		issues,
+		warnings,
+	};
+}
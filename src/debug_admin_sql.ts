@@ -1,9 +1,8 @@
 // This is a new debug script that uses the ADMIN (service_role) key
 // to bypass all RLS and security.
 import dotenv from "dotenv";
-import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
 import { createClient } from "@supabase/supabase-js";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { createEmbedder, loadProviderConfig } from "./llmProvider.js";
 
 const TEST_QUERY = "Can you give me a 2-day plan for Jaipur?";
 
@@ -11,7 +10,6 @@ const runTest = async () => {
 	try {
 		// 1. Load env vars
 		dotenv.config();
-		const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY as string;
 		const SUPABASE_URL = process.env.SUPABASE_URL as string;
 
 		// --- THIS IS THE CHANGE ---
@@ -21,7 +19,7 @@ const runTest = async () => {
 
 		const RAG_QUERY_NAME = "match_documents";
 
-		if (!GOOGLE_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+		if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
 			throw new Error("Missing environment variables (need SERVICE_KEY)");
 		}
 
@@ -40,15 +38,12 @@ const runTest = async () => {
 		);
 		// ---
 
-		const geminiEmbedder = new GoogleGenerativeAIEmbeddings({
-			apiKey: GOOGLE_API_KEY,
-			model: "embedding-001",
-			taskType: TaskType.SEMANTIC_SIMILARITY, // Using the type we ingested with
-		});
+		// Same embedder we ingested with
+		const embedder = createEmbedder(loadProviderConfig());
 
 		// 3. Generate the query vector
 		console.log(`Generating vector for: "${TEST_QUERY}"...`);
-		const queryVector = await geminiEmbedder.embedQuery(TEST_QUERY);
+		const queryVector = await embedder.embedQuery(TEST_QUERY);
 		console.log(`Vector generated (dimensions: ${queryVector.length})`);
 
 		// 4. Format for RPC
@@ -1,7 +1,6 @@
 import dotenv from "dotenv";
-import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
 import { createClient } from "@supabase/supabase-js";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { createEmbedder, loadProviderConfig } from "./llmProvider.js";
 
 // This query should 100% match your knowledge base
 const TEST_QUERY = "Can you give me a 2-day plan for Jaipur?";
@@ -10,26 +9,21 @@ const runTest = async () => {
   try {
     // 1. Load env vars
     dotenv.config();
-    const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY as string;
     const SUPABASE_URL = process.env.SUPABASE_URL as string;
     const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY as string;
     const RAG_QUERY_NAME = "match_documents";
 
-    if (!GOOGLE_API_KEY || !SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
       throw new Error("Missing environment variables");
     }
 
     // 2. Initialize clients (same as server.ts)
     const supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
-    const geminiEmbedder = new GoogleGenerativeAIEmbeddings({
-      apiKey: GOOGLE_API_KEY,
-      model: "embedding-001",
-      taskType: TaskType.SEMANTIC_SIMILARITY,
-    });
+    const embedder = createEmbedder(loadProviderConfig());
 
     // 3. Generate the query vector
     console.log(`Generating vector for: "${TEST_QUERY}"...`);
-    const queryVector = await geminiEmbedder.embedQuery(TEST_QUERY);
+    const queryVector = await embedder.embedQuery(TEST_QUERY);
     console.log(`Vector generated (dimensions: ${queryVector.length})`);
 
     // 4. --- THIS IS THE FIX ---
@@ -0,0 +1,143 @@
+import fs from "fs/promises";
+import path from "path";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export interface StoredDocument {
+	name: string; // e.g. "jaipur_plan.txt"
+	size: number; // Bytes
+	updatedAt: string;
+}
+
+/**
+ * Where the knowledge documents live: the files ingest reads and the admin
+ * endpoints edit. Flat, by file name; callers check the names.
+ */
+export interface DocumentStore {
+	name: string; // For messages, e.g. "./knowledge_base"
+	/** Every file, including ones ingest can't read. */
+	list(): Promise<StoredDocument[]>;
+	/** The file's bytes, or null if there's no such file. */
+	read(name: string): Promise<Buffer | null>;
+	/** Adds or replaces a file. */
+	write(name: string, content: Buffer): Promise<StoredDocument>;
+	remove(name: string): Promise<boolean>;
+}
+
+/**
+ * Local store: a folder on this instance's disk, e.g. ./knowledge_base.
+ */
+export const createLocalDocumentStore = (dir: string): DocumentStore => {
+	const resolved = path.resolve(dir);
+	const fileOf = (name: string) => path.join(resolved, path.basename(name));
+
+	const stat = async (name: string): Promise<StoredDocument> => {
+		const { size, mtime } = await fs.stat(fileOf(name));
+		return { name, size, updatedAt: mtime.toISOString() };
+	};
+
+	return {
+		name: dir,
+
+		async list() {
+			const entries = await fs.readdir(resolved, { withFileTypes: true });
+			return Promise.all(
+				entries.filter((e) => e.isFile() && !e.name.startsWith(".")).map((e) => stat(e.name))
+			);
+		},
+
+		async read(name) {
+			try {
+				return await fs.readFile(fileOf(name));
+			} catch (err: any) {
+				if (err.code === "ENOENT") return null;
+				throw err;
+			}
+		},
+
+		async write(name, content) {
+			// Temp file + rename, so ingest never reads half a file
+			const tmp = `${fileOf(name)}.tmp`;
+			await fs.writeFile(tmp, content);
+			await fs.rename(tmp, fileOf(name));
+			return stat(name);
+		},
+
+		async remove(name) {
+			try {
+				await fs.unlink(fileOf(name));
+				return true;
+			} catch (err: any) {
+				if (err.code === "ENOENT") return false;
+				throw err;
+			}
+		},
+	};
+};
+
+// Storage answers a missing object with statusCode "404" (on an HTTP 400)
+const isNotFound = (error: any) => error?.statusCode === "404" || error?.status === 404;
+
+/**
+ * Supabase Storage store: the files in a private bucket, shared by every
+ * instance. Create it once with:
+ *   insert into storage.buckets (id, name, public) values ('knowledge', 'knowledge', false);
+ * Needs the service key.
+ * @param bucket The bucket above
+ */
+export const createSupabaseDocumentStore = (
+	supabase: SupabaseClient,
+	bucket = "knowledge"
+): DocumentStore => {
+	const PAGE_SIZE = 1000;
+	const files = () => supabase.storage.from(bucket);
+
+	return {
+		name: `storage bucket '${bucket}'`,
+
+		async list() {
+			const documents: StoredDocument[] = [];
+			for (let offset = 0; ; offset += PAGE_SIZE) {
+				const { data, error } = await files().list("", {
+					limit: PAGE_SIZE,
+					offset,
+					sortBy: { column: "name", order: "asc" },
+				});
+				if (error) throw new Error(`Supabase storage list error: ${error.message}`);
+				documents.push(
+					...data
+						.filter((f) => f.id) // Folders have no id
+						.map((f) => ({
+							name: f.name,
+							size: Number(f.metadata?.size) || 0,
+							updatedAt: f.updated_at,
+						}))
+				);
+				if (data.length < PAGE_SIZE) return documents;
+			}
+		},
+
+		async read(name) {
+			const { data, error } = await files().download(name);
+			if (error) {
+				if (isNotFound(error)) return null;
+				throw new Error(`Supabase storage download error: ${error.message}`);
+			}
+			return Buffer.from(await data.arrayBuffer());
+		},
+
+		async write(name, content) {
+			const { error } = await files().upload(name, content, {
+				upsert: true,
+				contentType: "application/octet-stream", // Read back as bytes; the name gives the format
+			});
+			if (error) throw new Error(`Supabase storage upload error: ${error.message}`);
+			return { name, size: content.length, updatedAt: new Date().toISOString() };
+		},
+
+		async remove(name) {
+			const { data, error } = await files().remove([name]);
+			if (error) throw new Error(`Supabase storage remove error: ${error.message}`);
+			return data.length > 0;
+		},
+	};
+};
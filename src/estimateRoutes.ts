@@ -0,0 +1,33 @@
+import { Router, Request, Response } from "express";
+import { City } from "./types/index.js";
+import { searchCity } from "./utils.js";
+import { estimateDetailedTripCost, parseEstimateRequest } from "./costEstimator.js";
+
+/**
+ * Factory function to create the trip cost estimate route.
+ * Body: { city?, legs? | (mode?, distanceKm?), nights, days?, travellers?, peoplePerRoom?,
+ * tier?, season? | seasonMultiplier?, spots?, entryFees?, hotelPerNight?, foodPerDay?, petrolPerKm? }
+ * @param cities The live cities array (base rates and entry fees)
+ * @returns An Express router for /api/estimate.
+ */
+export const createEstimateRouter = (cities: City[]): Router => {
+	const router = Router();
+
+	router.post("/", (req: Request, res: Response) => {
+		const { params, city, issues, warnings } = parseEstimateRequest(
+			req.body || {},
+			(name) => searchCity(name, cities)[0]
+		);
+		if (!params) {
+			return res.status(400).json({ error: "Invalid estimate request.", issues });
+		}
+		res.json({
+			city: city?.city ?? null,
+			params,
+			estimate: estimateDetailedTripCost(params),
+			warnings,
+		});
+	});
+
+	return router;
+};
@@ -0,0 +1,227 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { AddressInfo } from "net";
+import {
+	VectorStore,
+	createLocalVectorStore,
+	createSupabaseVectorStore,
+} from "./vectorStore.js";
+import { createChatProvider, createEmbedder, loadProviderConfig } from "./llmProvider.js";
+import { RetrievalOptions, createRetriever } from "./retrieval.js";
+import { loadPromptRegistry } from "./promptRegistry.js";
+import { createInMemoryConversationStore } from "./conversationStore.js";
+import { createInMemoryUsageStore } from "./usageStore.js";
+import { createInMemoryFeedbackStore } from "./feedbackStore.js";
+import { createInMemoryTripStore } from "./tripStore.js";
+import { createApp } from "./index.js";
+import { loadAttractions } from "./attractions.js";
+import { loadTravelData, matchCities } from "./utils.js";
+import {
+	checkFacts,
+	citiesCorrect,
+	distinctSources,
+	formatEvalReport,
+	loadGoldenCases,
+	recallAtK,
+	reciprocalRank,
+	summarize,
+} from "./evaluation.js";
+import { CaseResult, EvalReport } from "./types/index.js";
+
+// Load environment variables
+dotenv.config();
+
+// --- CLI FLAGS ---
+// --dataset=<file>  golden questions (default eval/golden.json)
+// --k=<n>           cut-off for recall@k (default 5)
+// --answers         also generate answers (calls the chat model!) and check their facts
+// --persona=, --language=, --prompt-version=  which prompt to answer with
+// --out=<path>      writes <path>.json and <path>.md (default eval/report)
+const flag = (name: string) =>
+	process.argv.find((a) => a.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+const DATASET = flag("dataset") || "./eval/golden.json";
+const K = Number(flag("k") || 5);
+const WITH_ANSWERS = process.argv.includes("--answers");
+const OUT = flag("out") || "./eval/report";
+
+// --- CONFIGURATION (same env vars as the server) ---
+const VECTOR_STORE = process.env.VECTOR_STORE || "supabase";
+const LOCAL_VECTOR_STORE_PATH =
+	process.env.LOCAL_VECTOR_STORE_PATH || "./vectorStore.json";
+const SUPABASE_URL = process.env.SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY as string;
+const DB_PATH = "./travelData.json";
+const PROMPTS_DIR = process.env.PROMPTS_DIR || "./prompts";
+const ATTRACTIONS_PATH = process.env.ATTRACTIONS_PATH || "./attractions.json";
+// Retrieval tuning, so a run measures what the server would do
+const retrievalOptions: Partial<RetrievalOptions> = {};
+if (process.env.RAG_TOKEN_BUDGET)
+	retrievalOptions.tokenBudget = Number(process.env.RAG_TOKEN_BUDGET);
+if (process.env.RAG_MIN_SIMILARITY)
+	retrievalOptions.minSimilarity = Number(process.env.RAG_MIN_SIMILARITY);
+
+const providerConfig = loadProviderConfig(); // Checks GOOGLE_API_KEY if needed
+if (VECTOR_STORE === "supabase" && (!SUPABASE_URL || !SUPABASE_ANON_KEY)) {
+	throw new Error("Missing required environment variables (SUPABASE_URL, SUPABASE_ANON_KEY)");
+}
+
+const vectorStore: VectorStore =
+	VECTOR_STORE === "local"
+		? createLocalVectorStore(LOCAL_VECTOR_STORE_PATH)
+		: createSupabaseVectorStore(createClient(SUPABASE_URL, SUPABASE_ANON_KEY), {
+				tableName: "documents",
+				queryName: "match_documents",
+		  });
+const embedder = createEmbedder(providerConfig);
+const cities = loadTravelData(DB_PATH);
+
+/**
+ * Runs the real app in-process and asks it one question over /api/chat,
+ * so answers go through the same prompt, retrieval and tools as production.
+ */
+const startAnswerServer = async () => {
+	// Every request is the same eval user; no Supabase needed
+	const evalAuth = {
+		auth: {
+			getUser: async () => ({ data: { user: { id: "eval", email: "eval@local" } }, error: null }),
+		},
+	} as unknown as SupabaseClient;
+	const app = createApp({
+		chatProvider: createChatProvider(providerConfig),
+		embedder,
+		supabaseClient: evalAuth,
+		cities,
+		attractions: loadAttractions(ATTRACTIONS_PATH),
+		vectorStore,
+		retrievalOptions,
+		conversationStore: createInMemoryConversationStore(),
+		usageStore: createInMemoryUsageStore(),
+		feedbackStore: createInMemoryFeedbackStore(),
+		tripStore: createInMemoryTripStore(),
+		plans: { free: { requestsPerDay: Infinity, tokensPerDay: Infinity } },
+		cacheOptions: { answerCacheSize: 0 }, // Always generate, never replay
+		prompts: loadPromptRegistry(PROMPTS_DIR),
+	});
+	const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+		const s = app.listen(0, () => resolve(s));
+	});
+	const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/chat`;
+
+	const ask = async (query: string) => {
+		const res = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Authorization: "Bearer eval" },
+			body: JSON.stringify({
+				query,
+				persona: flag("persona"),
+				language: flag("language"),
+				promptVersion: flag("prompt-version") ? Number(flag("prompt-version")) : undefined,
+			}),
+		});
+		if (!res.ok) throw new Error(`/api/chat returned ${res.status}: ${await res.text()}`);
+		let text = "";
+		let promptVersion = "";
+		for (const block of (await res.text()).split("\n\n")) {
+			const event = block.match(/^event: (.+)$/m)?.[1];
+			const data = block.match(/^data: (.+)$/m)?.[1];
+			if (!event || !data) continue;
+			const payload = JSON.parse(data);
+			if (event === "meta") promptVersion = payload.promptVersion;
+			if (event === "delta") text += payload.text;
+			if (event === "error") throw new Error(payload.error);
+		}
+		return { text, promptVersion };
+	};
+	return { ask, close: () => server.close() };
+};
+
+const main = async () => {
+	console.log("--- 🧪 Starting evaluation ---");
+	const cases = loadGoldenCases(DATASET);
+	console.log(`Loaded ${cases.length} golden cases from ${DATASET}.`);
+
+	const retriever = createRetriever(vectorStore, retrievalOptions);
+	const answers = WITH_ANSWERS ? await startAnswerServer() : null;
+	const results: CaseResult[] = [];
+	let promptVersion: string | null = null;
+
+	try {
+		for (const c of cases) {
+			// 1. Structured match, the way /api/chat does it
+			const matches = matchCities(c.question, cities);
+			const matchedCities = matches.map((m) => m.city.city);
+
+			// 2. Retrieval
+			const vector = await embedder.embedQuery(c.question);
+			const chunks = await retriever.retrieve(c.question, vector, matchedCities);
+			const retrievedSources = distinctSources(chunks.map((ch) => ch.metadata.source || "unknown"));
+
+			const result: CaseResult = {
+				id: c.id,
+				question: c.question,
+				retrievedSources,
+				recallAtK: recallAtK(retrievedSources, c.expectedSources, K),
+				reciprocalRank: reciprocalRank(retrievedSources, c.expectedSources),
+				expectedCities: c.expectedCities,
+				matchedCities,
+				cityCorrect: citiesCorrect(matchedCities, c.expectedCities),
+			};
+
+			// 3. Optional: generate the answer and look for the facts
+			if (answers) {
+				const answer = await answers.ask(c.question);
+				promptVersion = answer.promptVersion;
+				result.answer = { ...answer, ...checkFacts(answer.text, c.facts) };
+			}
+
+			results.push(result);
+			console.log(
+				`${result.cityCorrect && result.recallAtK !== 0 ? "✅" : "❌"} ${c.id}: ` +
+					`recall=${result.recallAtK ?? "–"} rr=${result.reciprocalRank ?? "–"} ` +
+					`cities=[${matchedCities.join(", ")}]` +
+					(result.answer ? ` facts=${result.answer.factCoverage ?? "–"}` : "")
+			);
+		}
+	} finally {
+		answers?.close();
+	}
+
+	const report: EvalReport = {
+		generatedAt: new Date().toISOString(),
+		config: {
+			dataset: DATASET,
+			k: K,
+			embedder:
+				providerConfig.embeddingProvider === "fake"
+					? "fake"
+					: `gemini:${providerConfig.embeddingModel}`,
+			vectorStore: VECTOR_STORE,
+			corpusVersion: await retriever.version(),
+			promptVersion,
+		},
+		summary: summarize(results),
+		cases: results,
+	};
+
+	fs.mkdirSync(path.dirname(path.resolve(OUT)), { recursive: true });
+	fs.writeFileSync(`${OUT}.json`, JSON.stringify(report, null, 2) + "\n");
+	fs.writeFileSync(`${OUT}.md`, formatEvalReport(report));
+
+	const { summary } = report;
+	console.log("\n--- 📊 Summary ---");
+	console.log(`Recall@${K}: ${(summary.recallAtK * 100).toFixed(1)}%`);
+	console.log(`MRR: ${summary.mrr.toFixed(3)}`);
+	console.log(`City accuracy: ${(summary.cityAccuracy * 100).toFixed(1)}%`);
+	if (summary.factCoverage !== null) {
+		console.log(`Fact coverage: ${(summary.factCoverage * 100).toFixed(1)}%`);
+	}
+	console.log(`Report written to ${OUT}.json and ${OUT}.md`);
+};
+
+main().catch((err) => {
+	console.error("\n🔥 EVALUATION FAILED 🔥");
+	console.error(err.message);
+	process.exit(1);
+});
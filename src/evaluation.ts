@@ -0,0 +1,138 @@
+import fs from "fs";
+import { CaseResult, EvalReport, EvalSummary, GoldenCase } from "./types/index.js";
+
+/**
+ * Loads and checks the golden dataset ({ cases: GoldenCase[] }).
+ */
+export function loadGoldenCases(filePath: string): GoldenCase[] {
+	const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+	if (!Array.isArray(data?.cases)) throw new Error(`${filePath}: expected { "cases": [...] }`);
+	const ids = new Set<string>();
+	return data.cases.map((c: any, i: number) => {
+		const at = `${filePath}: cases[${i}]`;
+		if (typeof c?.id !== "string" || typeof c.question !== "string") {
+			throw new Error(`${at}: needs an id and a question`);
+		}
+		if (ids.has(c.id)) throw new Error(`${at}: duplicate id '${c.id}'`);
+		ids.add(c.id);
+		for (const field of ["expectedSources", "expectedCities", "facts"]) {
+			if (c[field] !== undefined && !Array.isArray(c[field])) {
+				throw new Error(`${at}.${field}: must be an array`);
+			}
+		}
+		return {
+			id: c.id,
+			question: c.question,
+			expectedSources: c.expectedSources || [],
+			expectedCities: c.expectedCities || [],
+			facts: c.facts || [],
+		};
+	});
+}
+
+/** Distinct sources, in the order they were first retrieved. */
+export const distinctSources = (sources: string[]) => [...new Set(sources)];
+
+/** Share of the expected sources found in the top k. Null if none are expected. */
+export function recallAtK(retrieved: string[], expected: string[], k: number): number | null {
+	if (!expected.length) return null;
+	const top = new Set(retrieved.slice(0, k));
+	return expected.filter((s) => top.has(s)).length / expected.length;
+}
+
+/** 1 / rank of the first relevant source (0 if none). Null if none are expected. */
+export function reciprocalRank(retrieved: string[], expected: string[]): number | null {
+	if (!expected.length) return null;
+	const rank = retrieved.findIndex((s) => expected.includes(s));
+	return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * City matching is right when the top matches are exactly the expected cities
+ * (in any order), and when nothing is matched for a question about no city.
+ */
+export function citiesCorrect(matched: string[], expected: string[]): boolean {
+	if (!expected.length) return !matched.length;
+	const top = new Set(matched.slice(0, expected.length).map((c) => c.toLowerCase()));
+	return expected.every((c) => top.has(c.toLowerCase()));
+}
+
+// Lenient comparison: case, spacing, dashes, "Rs."/"INR" vs "₹" and "1,350" vs "1350"
+const normalizeFact = (text: string) =>
+	text
+		.toLowerCase()
+		.replace(/\b(?:rs\.?|inr)\s*/g, "₹")
+		.replace(/₹\s+/g, "₹")
+		.replace(/(\d),(\d)/g, "$1$2")
+		.replace(/[–—-]/g, "-")
+		.replace(/\s+/g, " ")
+		.trim();
+
+/** Which expected facts appear in an answer. */
+export function checkFacts(answer: string, facts: string[]) {
+	const text = normalizeFact(answer);
+	const results = facts.map((fact) => ({ fact, found: text.includes(normalizeFact(fact)) }));
+	return {
+		facts: results,
+		factCoverage: facts.length ? results.filter((f) => f.found).length / facts.length : null,
+	};
+}
+
+const mean = (values: (number | null)[]) => {
+	const defined = values.filter((v): v is number => v !== null);
+	return defined.length ? defined.reduce((a, b) => a + b, 0) / defined.length : 0;
+};
+
+export function summarize(cases: CaseResult[]): EvalSummary {
+	const answered = cases.filter((c) => c.answer);
+	return {
+		cases: cases.length,
+		recallAtK: mean(cases.map((c) => c.recallAtK)),
+		mrr: mean(cases.map((c) => c.reciprocalRank)),
+		cityAccuracy: mean(cases.map((c) => (c.cityCorrect ? 1 : 0))),
+		factCoverage: answered.length ? mean(answered.map((c) => c.answer!.factCoverage)) : null,
+	};
+}
+
+const pct = (v: number | null) => (v === null ? "–" : `${(v * 100).toFixed(1)}%`);
+const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+/**
+ * Markdown version of the report. Leaves out the timestamp so two runs diff cleanly.
+ */
+export function formatEvalReport(report: EvalReport): string {
+	const { config, summary } = report;
+	const lines = [
+		"# Retrieval & answer evaluation",
+		"",
+		`Dataset: \`${config.dataset}\` · k=${config.k} · embedder: ${config.embedder} · ` +
+			`vector store: ${config.vectorStore} · corpus: ${config.corpusVersion}` +
+			(config.promptVersion ? ` · prompt: ${config.promptVersion}` : ""),
+		"",
+		"| Metric | Value |",
+		"| --- | --- |",
+		`| Cases | ${summary.cases} |`,
+		`| Recall@${config.k} | ${pct(summary.recallAtK)} |`,
+		`| MRR | ${summary.mrr.toFixed(3)} |`,
+		`| City accuracy | ${pct(summary.cityAccuracy)} |`,
+		`| Fact coverage | ${pct(summary.factCoverage)} |`,
+		"",
+		"## Cases",
+		"",
+		`| Case | Recall@${config.k} | RR | Cities | Facts | Top sources |`,
+		"| --- | --- | --- | --- | --- | --- |",
+	];
+	for (const c of report.cases) {
+		const cities = c.cityCorrect
+			? "✅"
+			: `❌ got ${c.matchedCities.join(", ") || "none"}`;
+		const facts = c.answer
+			? c.answer.facts.map((f) => `${f.found ? "✅" : "❌"} ${f.fact}`).join("<br>") || "–"
+			: "–";
+		lines.push(
+			`| ${cell(c.id)} | ${pct(c.recallAtK)} | ${c.reciprocalRank === null ? "–" : c.reciprocalRank.toFixed(2)} | ` +
+				`${cell(cities)} | ${cell(facts)} | ${cell(c.retrievedSources.slice(0, config.k).join(", ") || "none")} |`
+		);
+	}
+	return lines.join("\n") + "\n";
+}
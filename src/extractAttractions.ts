@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+import { createLocalDocumentStore } from "./documentStore.js";
+import { loadSources, saveAttractions } from "./ingestPipeline.js";
+import { loadTravelData } from "./utils.js";
+
+// Load environment variables
+dotenv.config();
+
+// --- CONFIGURATION ---
+// Same defaults as npm run ingest
+const KNOWLEDGE_DIR = process.env.KNOWLEDGE_DIR || "./knowledge_base";
+const ATTRACTIONS_PATH = process.env.ATTRACTIONS_PATH || "./attractions.json";
+const DB_PATH = "./travelData.json";
+
+/**
+ * Writes attractions.json from the knowledge folder, the way npm run ingest does,
+ * but without embedding or touching a vector store. So it needs no keys, and the
+ * Docker build runs it.
+ */
+async function extract() {
+	try {
+		const { attractions } = await loadSources(
+			createLocalDocumentStore(KNOWLEDGE_DIR),
+			loadTravelData(DB_PATH),
+			(message) => console.log(message)
+		);
+		await saveAttractions(ATTRACTIONS_PATH, attractions);
+		console.log(`✅ ${attractions.length} attractions written to ${ATTRACTIONS_PATH}.`);
+	} catch (err: any) {
+		console.error("Extracting attractions failed:", err.message);
+		process.exit(1);
+	}
+}
+
+extract();
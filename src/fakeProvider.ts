@@ -0,0 +1,121 @@
+import type { ChatProvider, Embedder } from "./llmProvider.js";
+import { LLMMessage, ToolCall, TokenUsage } from "./types/index.js";
+import { estimateTokens } from "./utils.js";
+
+/**
+ * One scripted reply for the fake chat provider.
+ * `match` is tested (case-insensitively) against the user's message; no `match` = always.
+ * With `toolCalls`, the first turn only asks for those tools and `reply` is sent
+ * once the tool results come back, just like a real function-calling round trip.
+ */
+export interface FakeScriptEntry {
+	match?: string;
+	reply: string;
+	toolCalls?: ToolCall[];
+}
+
+/**
+ * 32-bit FNV-1a hash. Stable across runs and platforms.
+ */
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Deterministic chat provider for tests and offline dev.
+ * Replies come from the script; anything unscripted gets an echo reply.
+ * Text is streamed word by word so SSE framing can be tested for real.
+ */
+export const createFakeChatProvider = (
+	script: FakeScriptEntry[] = []
+): ChatProvider => {
+	const findEntry = (message: string) =>
+		script.find(
+			(e) => !e.match || message.toLowerCase().includes(e.match.toLowerCase())
+		);
+
+	return {
+		name: "fake",
+		startChat({ history }) {
+			let pending: FakeScriptEntry | null = null;
+			let promptText = history.map((m: LLMMessage) => m.text).join("\n");
+
+			return {
+				async send(message, options) {
+					let text = "";
+					let toolCalls: ToolCall[] = [];
+
+					if (typeof message === "string") {
+						promptText += `\n${message}`;
+						const entry = findEntry(message);
+						if (entry?.toolCalls?.length) {
+							pending = entry;
+							toolCalls = entry.toolCalls;
+						} else {
+							text = entry ? entry.reply : `Fake reply to: ${message}`;
+						}
+					} else {
+						promptText += `\n${JSON.stringify(message)}`;
+						text = pending ? pending.reply : "Fake reply to tool results.";
+						pending = null;
+					}
+
+					const usage: TokenUsage = {
+						promptTokens: estimateTokens(promptText),
+						completionTokens: estimateTokens(text),
+						totalTokens: estimateTokens(promptText) + estimateTokens(text),
+					};
+					promptText += `\n${text}`;
+
+					const stream = (async function* () {
+						for (const piece of text.match(/\S+\s*/g) || []) {
+							// Same as the real SDK: an aborted request fails the stream
+							if (options?.signal?.aborted) {
+								throw Object.assign(new Error("This operation was aborted"), { name: "AbortError" });
+							}
+							yield piece;
+						}
+					})();
+
+					return {
+						stream,
+						response: Promise.resolve({ text, toolCalls, usage }),
+					};
+				},
+			};
+		},
+	};
+};
+
+/**
+ * Deterministic embedder using the hashing trick.
+ * Each word is hashed into one of `dimensions` buckets (with a hashed sign),
+ * then the vector is L2-normalised. Texts that share words get similar vectors,
+ * which is enough to exercise retrieval end to end without an API key.
+ */
+export const createHashEmbedder = (dimensions = 768): Embedder => {
+	const embed = (text: string): number[] => {
+		const vector = new Array<number>(dimensions).fill(0);
+		const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+		for (const word of words) {
+			const hash = fnv1a(word);
+			vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+		}
+		const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+		return norm === 0 ? vector : vector.map((v) => v / norm);
+	};
+
+	return {
+		async embedQuery(text) {
+			return embed(text);
+		},
+		async embedDocuments(texts) {
+			return texts.map(embed);
+		},
+	};
+};
@@ -0,0 +1,179 @@
+import { Router, Request, Response } from "express";
+import { Feedback, FeedbackGroup, FeedbackRating, FeedbackReport } from "./types/index.js";
+import { ConversationStore } from "./conversationStore.js";
+import { FeedbackStore } from "./feedbackStore.js";
+import { log } from "./logger.js";
+
+const MAX_REASON_LENGTH = 500;
+const MAX_CORRECTION_LENGTH = 2000;
+const MAX_EXAMPLES = 5;
+const RATINGS: FeedbackRating[] = ["up", "down"];
+
+// Buckets for answers that had no chunks / no structured city
+const NO_SOURCE = "(no sources)";
+const NO_CITY = "(no city)";
+
+/**
+ * Groups ratings by source file and by city, worst first.
+ * An answer counts once per source, however many of that source's chunks it used.
+ */
+export function buildFeedbackReport(feedback: Feedback[], since: string | null): FeedbackReport {
+	const group = (groups: Map<string, FeedbackGroup>, key: string) => {
+		if (!groups.has(key)) groups.set(key, { key, up: 0, down: 0, chunkIds: [], examples: [] });
+		return groups.get(key)!;
+	};
+	const bySource = new Map<string, FeedbackGroup>();
+	const byCity = new Map<string, FeedbackGroup>();
+	const chunkCounts = new Map<FeedbackGroup, Map<string, number>>();
+
+	const count = (g: FeedbackGroup, f: Feedback, chunkIds: string[]) => {
+		if (f.rating === "up") return void g.up++;
+		g.down++;
+		const counts = chunkCounts.get(g) || new Map<string, number>();
+		for (const id of chunkIds) counts.set(id, (counts.get(id) || 0) + 1);
+		chunkCounts.set(g, counts);
+		// Feedback comes newest first, so the first few are the latest
+		if (g.examples.length < MAX_EXAMPLES) {
+			g.examples.push({
+				requestId: f.requestId,
+				query: f.query,
+				reason: f.reason,
+				correction: f.correction,
+				createdAt: f.createdAt,
+			});
+		}
+	};
+
+	for (const f of feedback) {
+		const sources = new Set(f.chunks.map((c) => c.source));
+		if (!sources.size) count(group(bySource, NO_SOURCE), f, []);
+		for (const source of sources) {
+			const ids = f.chunks.filter((c) => c.source === source).map((c) => c.id);
+			count(group(bySource, source), f, ids);
+		}
+		if (!f.cities.length) count(group(byCity, NO_CITY), f, []);
+		for (const { city } of f.cities) {
+			const ids = f.chunks.filter((c) => c.city.toLowerCase() === city.toLowerCase()).map((c) => c.id);
+			count(group(byCity, city), f, ids);
+		}
+	}
+
+	const sorted = (groups: Map<string, FeedbackGroup>) =>
+		[...groups.values()]
+			.map((g) => ({
+				...g,
+				chunkIds: [...(chunkCounts.get(g) || [])]
+					.map(([id, count]) => ({ id, count }))
+					.sort((a, b) => b.count - a.count),
+			}))
+			.sort((a, b) => b.down - a.down || a.up - b.up);
+
+	return {
+		since,
+		total: feedback.length,
+		down: feedback.filter((f) => f.rating === "down").length,
+		bySource: sorted(bySource),
+		byCity: sorted(byCity),
+	};
+}
+
+/**
+ * Factory function to create the feedback route.
+ * Body: { conversationId, requestId, rating: "up" | "down", reason?, correction? }
+ * The rated answer is looked up in the user's conversation, so users can only rate
+ * their own answers and can't make up what was said.
+ * @param feedbackStore Where ratings are saved
+ * @param conversationStore Where the rated answer is looked up
+ * @returns An Express router for /api/feedback.
+ */
+export const createFeedbackRouter = (
+	feedbackStore: FeedbackStore,
+	conversationStore: ConversationStore
+): Router => {
+	const router = Router();
+
+	router.post("/", async (req: Request, res: Response) => {
+		const { conversationId, requestId, rating, reason, correction } = req.body || {};
+		const issues: string[] = [];
+		if (typeof conversationId !== "string" || !conversationId) {
+			issues.push("conversationId: required");
+		}
+		if (typeof requestId !== "string" || !requestId) issues.push("requestId: required");
+		if (!RATINGS.includes(rating)) issues.push(`rating: must be one of ${RATINGS.join(", ")}`);
+		if (reason !== undefined && (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)) {
+			issues.push(`reason: must be a string of at most ${MAX_REASON_LENGTH} characters`);
+		}
+		if (
+			correction !== undefined &&
+			(typeof correction !== "string" || correction.length > MAX_CORRECTION_LENGTH)
+		) {
+			issues.push(`correction: must be a string of at most ${MAX_CORRECTION_LENGTH} characters`);
+		}
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid feedback.", issues });
+		}
+
+		try {
+			const userId = req.user!.id;
+			const conversation = await conversationStore.get(userId, conversationId);
+			const i = conversation?.messages.findIndex(
+				(m) => m.role === "model" && m.requestId === requestId
+			);
+			if (!conversation || i === undefined || i === -1) {
+				return res.status(404).json({ error: "Answer not found." });
+			}
+			const answer = conversation.messages[i];
+			const question = conversation.messages
+				.slice(0, i)
+				.reverse()
+				.find((m) => m.role === "user");
+
+			const feedback = await feedbackStore.save({
+				userId,
+				conversationId,
+				requestId,
+				rating,
+				reason: reason?.trim() || undefined,
+				correction: correction?.trim() || undefined,
+				query: question?.text || "",
+				answer: answer.text,
+				promptVersion: answer.promptVersion,
+				chunks: answer.sources?.chunks || [],
+				cities: answer.sources?.cities || [],
+			});
+			res.status(201).json({ feedback });
+		} catch (err: any) {
+			log.error("ERROR while trying to save feedback", { error: err.message });
+			res.status(500).json({ error: "Failed to save feedback." });
+		}
+	});
+
+	return router;
+};
+
+/**
+ * Factory function to create the admin feedback routes.
+ * Must be mounted behind the auth and admin middlewares.
+ * @param feedbackStore Where ratings are read from
+ * @returns An Express router for /api/admin/feedback.
+ */
+export const createAdminFeedbackRouter = (feedbackStore: FeedbackStore): Router => {
+	const router = Router();
+
+	// GET /api/admin/feedback/report?since=2025-03-01 - Ratings by source file and city
+	router.get("/report", async (req: Request, res: Response) => {
+		const since = typeof req.query.since === "string" ? req.query.since : null;
+		if (since && Number.isNaN(Date.parse(since))) {
+			return res.status(400).json({ error: "since: must be a date, e.g. 2025-03-01." });
+		}
+		try {
+			const iso = since && new Date(since).toISOString();
+			res.json(buildFeedbackReport(await feedbackStore.list(iso || undefined), iso));
+		} catch (err: any) {
+			log.error("ERROR while trying to build the feedback report", { error: err.message });
+			res.status(500).json({ error: "Failed to build the feedback report." });
+		}
+	});
+
+	return router;
+};
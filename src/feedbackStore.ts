@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Feedback } from "./types/index.js";
+
+export type NewFeedback = Omit<Feedback, "id" | "createdAt">;
+
+/**
+ * Ratings of individual answers.
+ */
+export interface FeedbackStore {
+	/** Saves a rating. Rating the same answer again replaces the user's earlier rating. */
+	save(feedback: NewFeedback): Promise<Feedback>;
+	/** All feedback, newest first; only what's newer than `since` if given. */
+	list(since?: string): Promise<Feedback[]>;
+	/** Cheap reachability check for /readyz. Throws if the store can't be used. */
+	ping(): Promise<void>;
+}
+
+/**
+ * In-memory store. Used for local dev and tests; everything is lost on restart.
+ */
+export const createInMemoryFeedbackStore = (): FeedbackStore => {
+	const feedback = new Map<string, Feedback>(); // "userId:requestId" -> feedback
+
+	return {
+		async save(entry) {
+			const key = `${entry.userId}:${entry.requestId}`;
+			const saved: Feedback = {
+				...entry,
+				id: feedback.get(key)?.id || randomUUID(),
+				createdAt: new Date().toISOString(),
+			};
+			feedback.delete(key); // Re-insert, so Map order stays oldest to newest
+			feedback.set(key, saved);
+			return saved;
+		},
+
+		async list(since) {
+			return [...feedback.values()]
+				.filter((f) => !since || f.createdAt >= since)
+				.reverse();
+		},
+
+		async ping() {},
+	};
+};
+
+/**
+ * Supabase-backed store. Expects a table like:
+ *   create table feedback (
+ *     id uuid primary key default gen_random_uuid(),
+ *     user_id uuid not null, conversation_id uuid not null, request_id text not null,
+ *     rating text not null, reason text, correction text,
+ *     query text not null, answer text not null, prompt_version text,
+ *     chunks jsonb not null default '[]', cities jsonb not null default '[]',
+ *     created_at timestamptz not null default now(),
+ *     unique (user_id, request_id)
+ *   );
+ * Needs the service key.
+ */
+export const createSupabaseFeedbackStore = (
+	supabase: SupabaseClient,
+	tableName = "feedback"
+): FeedbackStore => {
+	const fromRow = (row: any): Feedback => ({
+		id: row.id,
+		userId: row.user_id,
+		conversationId: row.conversation_id,
+		requestId: row.request_id,
+		rating: row.rating,
+		reason: row.reason ?? undefined,
+		correction: row.correction ?? undefined,
+		query: row.query,
+		answer: row.answer,
+		promptVersion: row.prompt_version ?? undefined,
+		chunks: row.chunks || [],
+		cities: row.cities || [],
+		createdAt: row.created_at,
+	});
+
+	return {
+		async save(entry) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.upsert(
+					{
+						user_id: entry.userId,
+						conversation_id: entry.conversationId,
+						request_id: entry.requestId,
+						rating: entry.rating,
+						reason: entry.reason ?? null,
+						correction: entry.correction ?? null,
+						query: entry.query,
+						answer: entry.answer,
+						prompt_version: entry.promptVersion ?? null,
+						chunks: entry.chunks,
+						cities: entry.cities,
+						created_at: new Date().toISOString(),
+					},
+					{ onConflict: "user_id,request_id" }
+				)
+				.select("*")
+				.single();
+			if (error) throw new Error(`Supabase upsert error: ${error.message}`);
+			return fromRow(data);
+		},
+
+		async list(since) {
+			const feedback: Feedback[] = [];
+			const PAGE_SIZE = 1000; // PostgREST's default max rows per request
+			for (let from = 0; ; from += PAGE_SIZE) {
+				let query = supabase.from(tableName).select("*");
+				if (since) query = query.gte("created_at", since);
+				const { data, error } = await query
+					.order("created_at", { ascending: false })
+					.range(from, from + PAGE_SIZE - 1);
+				if (error) throw new Error(`Supabase select error: ${error.message}`);
+				feedback.push(...(data || []).map(fromRow));
+				if (!data || data.length < PAGE_SIZE) return feedback;
+			}
+		},
+
+		async ping() {
+			const { error } = await supabase.from(tableName).select("id").limit(1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+		},
+	};
+};
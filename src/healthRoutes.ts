@@ -0,0 +1,53 @@
+import { Router, Request, Response } from "express";
+import { log } from "./logger.js";
+
+/** A readiness check: resolves if the dependency is usable, throws if not. */
+export type HealthCheck = () => Promise<void> | void;
+
+// A hung dependency must fail the probe, not hang it
+const CHECK_TIMEOUT_MS = 3000;
+
+const runCheck = async (check: HealthCheck) => {
+	const start = Date.now();
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		await Promise.race([
+			check(),
+			new Promise((_, reject) => {
+				timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+			}),
+		]);
+		return { ok: true, ms: Date.now() - start };
+	} catch (err: any) {
+		return { ok: false, ms: Date.now() - start, error: err.message as string };
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+/**
+ * Factory function to create the probe endpoints for Cloud Run.
+ * No auth: probes don't carry tokens, and neither route says anything private.
+ * @param checks Readiness checks by dependency name
+ * @returns An Express router with /healthz and /readyz.
+ */
+export const createHealthRouter = (checks: Record<string, HealthCheck>): Router => {
+	const router = Router();
+
+	// GET /healthz - Liveness: the process is up and serving
+	router.get("/healthz", (req: Request, res: Response) => {
+		res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+	});
+
+	// GET /readyz - Readiness: every configured dependency answers
+	router.get("/readyz", async (req: Request, res: Response) => {
+		const names = Object.keys(checks);
+		const results = await Promise.all(names.map((name) => runCheck(checks[name])));
+		const report = Object.fromEntries(names.map((name, i) => [name, results[i]]));
+		const ready = results.every((r) => r.ok);
+		if (!ready) log.warn("Readiness check failed", { checks: report });
+		res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "not ready", checks: report });
+	});
+
+	return router;
+};
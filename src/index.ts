@@ -1,22 +1,113 @@
-import express, { Express, Request, Response } from "express";
+import express, { Express, Request, Response, NextFunction } from "express";
 import cors from "cors";
-import { GenerativeModel, ChatSession, Content } from "@google/generative-ai";
-import { City } from "./types/index.js";
-import { searchCity } from "./utils.js";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import {
+	Attraction,
+	ChatMessage,
+	ChatStreamEvents,
+	City,
+	Conversation,
+	LLMMessage,
+	PlanLimits,
+	PromptSelection,
+	TokenUsage,
+	ToolResult,
+} from "./types/index.js";
+import { matchCities } from "./utils.js";
 import { SupabaseClient } from "@supabase/supabase-js";
 
 import { rateLimit } from "express-rate-limit";
 import { createAuthMiddleware } from "./authMiddleware.js";
+import { TokenVerifier, createSupabaseTokenVerifier } from "./tokenVerifier.js";
+import { ApiKeyRegistry, ApiKeyScope } from "./apiKeys.js";
+import { ConversationStore } from "./conversationStore.js";
+import { VectorStore } from "./vectorStore.js";
+import { RetrievalOptions, createRetriever } from "./retrieval.js";
+import { ChatProvider, Embedder } from "./llmProvider.js";
+import { createConversationRouter } from "./conversationRoutes.js";
+import { TripStore } from "./tripStore.js";
+import { createTripRouter } from "./tripRoutes.js";
+import { TravelDataStore } from "./travelDataStore.js";
+import { createCityRouter, createAdminCityRouter } from "./cityRoutes.js";
+import { createEstimateRouter } from "./estimateRoutes.js";
+import { createRoutePlannerRouter } from "./routePlannerRoutes.js";
+import { formatRoutePlan, hasCoordinates, parseTripNights, planRoute } from "./routePlanner.js";
+import { formatAttractions } from "./attractions.js";
+import {
+	checkQuery,
+	detectInjection,
+	fenceDocuments,
+	redactPii,
+	refusalText,
+	sanitizeContext,
+} from "./guardrails.js";
+import { KnowledgeBase } from "./knowledgeBase.js";
+import { IngestJobRunner } from "./ingestJobs.js";
+import { createAdminKnowledgeRouter } from "./knowledgeRoutes.js";
+import { travelToolDeclarations, createToolExecutor } from "./tools.js";
+import { ChatStream, StreamOptions, createChatStreamHub } from "./sse.js";
+import {
+	ChatChecker,
+	ChatRunner,
+	collectChatEvents,
+	isChatFailure,
+	sendChatResult,
+} from "./chatResponses.js";
+import { createOpenAIRouter } from "./openaiRoutes.js";
+import { UsageStore, usageDay } from "./usageStore.js";
+import { createQuotaMiddleware, defaultPlans } from "./quota.js";
+import { createUsageRouter } from "./usageRoutes.js";
+import { FeedbackStore } from "./feedbackStore.js";
+import { createAdminFeedbackRouter, createFeedbackRouter } from "./feedbackRoutes.js";
+import { PromptRegistry, PromptSelectionError } from "./promptRegistry.js";
+import { log, requestIdMiddleware } from "./logger.js";
+import {
+	Stage,
+	createAppMetrics,
+	createHttpMetricsMiddleware,
+	instrumentVectorStore,
+} from "./metrics.js";
+import { createHealthRouter } from "./healthRoutes.js";
+import {
+	CacheOptions,
+	createAnswerCache,
+	createCachedEmbedder,
+	defaultCacheOptions,
+} from "./cache.js";
+
+// How many earlier turns get replayed into the model history
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_TITLE_LENGTH = 60;
+// Structured data for more cities than this just crowds out the RAG context;
+// the rest are named, so the answer can say they were left out
+const MAX_CONTEXT_CITIES = 6;
+// Per city; the plans have at most a dozen
+const MAX_CONTEXT_ATTRACTIONS = 15;
+// Safety valve so a model stuck calling tools can't loop forever
+const MAX_TOOL_ROUNDS = 3;
 
 // --- TYPE DEFINITION FOR OUR SERVICES ---
 // This tells the createApp function what it needs to receive
 export interface AppDependencies {
-	chatModel: GenerativeModel;
-	geminiEmbedder: GoogleGenerativeAIEmbeddings; // We need the embedder
+	chatProvider: ChatProvider; // Gemini, or the fake one for tests
+	embedder: Embedder; // We need the embedder
 	supabaseClient: SupabaseClient; // We need the core client
-	cities: City[];
-	dbQueryName: string;
+	tokenVerifier?: TokenVerifier; // Checks user tokens; defaults to asking Supabase every time
+	apiKeys?: ApiKeyRegistry; // Lets internal services call the API without a user
+	cities: City[]; // Live array: admin edits and file reloads update it in place
+	travelDataStore?: TravelDataStore; // Enables the admin city endpoints
+	attractions?: Attraction[]; // Timings, fees and locations from the plans (attractions.json)
+	vectorStore: VectorStore; // Where the RAG chunks live (Supabase or local file)
+	knowledgeBase?: KnowledgeBase; // Enables the admin knowledge endpoints
+	ingestJobs?: IngestJobRunner; // Enables re-ingesting from the admin endpoints
+	retrievalOptions?: Partial<RetrievalOptions>;
+	cacheOptions?: Partial<CacheOptions>;
+	streamOptions?: Partial<StreamOptions>; // SSE heartbeats and resuming
+	conversationStore: ConversationStore;
+	usageStore: UsageStore; // Daily request and token counters per user
+	feedbackStore: FeedbackStore; // Thumbs up/down on answers
+	tripStore: TripStore; // Saved trips and their itineraries
+	prompts: PromptRegistry; // System prompt templates (personas, languages, versions)
+	plans?: Record<string, PlanLimits>; // Quota per plan (defaultPlans if not given)
 }
 
 /**
@@ -26,10 +117,35 @@ export interface AppDependencies {
  * @returns The configured Express app
  */
 export const createApp = (dependencies: AppDependencies): Express => {
-	const { chatModel, geminiEmbedder, supabaseClient, cities, dbQueryName } =
-		dependencies;
+	const {
+		chatProvider,
+		embedder,
+		supabaseClient,
+		tokenVerifier,
+		apiKeys,
+		cities,
+		travelDataStore,
+		attractions = [],
+		vectorStore,
+		knowledgeBase,
+		ingestJobs,
+		retrievalOptions,
+		cacheOptions,
+		streamOptions,
+		conversationStore,
+		usageStore,
+		feedbackStore,
+		tripStore,
+		prompts,
+		plans = defaultPlans,
+	} = dependencies;
 
 	const app: Express = express();
+	const metrics = createAppMetrics();
+
+	// Request id first, so every later log line (even a CORS rejection) carries it
+	app.use(requestIdMiddleware);
+	app.use(createHttpMetricsMiddleware(metrics));
 
 	const allowedOrigins = [
 		process.env.FRONTEND_URL, // Your Vercel URL
@@ -50,103 +166,404 @@ export const createApp = (dependencies: AppDependencies): Express => {
 	app.use(cors(corsOptions));
 	app.use(express.json());
 
-	const limiter = rateLimit({
+	// --- PROBES AND METRICS (no auth, no rate limit) ---
+	app.use(
+		createHealthRouter({
+			travelData: () => {
+				if (!cities.length) throw new Error("No cities loaded");
+			},
+			vectorStore: () => vectorStore.ping(),
+			conversationStore: () => conversationStore.ping(),
+			usageStore: () => usageStore.ping(),
+			feedbackStore: () => feedbackStore.ping(),
+			tripStore: () => tripStore.ping(),
+		})
+	);
+	app.get("/metrics", (req: Request, res: Response) => {
+		res.type("text/plain; version=0.0.4").send(metrics.registry.render());
+	});
+
+	// Coarse per-IP limit, checked before auth so junk traffic never reaches
+	// Supabase. Generous, since a whole campus can share one IP.
+	const ipLimiter = rateLimit({
 		windowMs: 15 * 60 * 1000, // 15 minutes
-		max: 100,
+		max: 1000,
 		message: { error: "Too many requests, please try again later. 🤷‍♀️" },
 		standardHeaders: true, // Return rate limit info in headers
 		legacyHeaders: false, // Disable X-RateLimit-* headers
 	});
+	// The real burst limit, per signed-in user
+	const userLimiter = rateLimit({
+		windowMs: 15 * 60 * 1000,
+		max: 100,
+		keyGenerator: (req) => req.user!.id,
+		message: { error: "Too many requests, please try again later. 🤷‍♀️" },
+		standardHeaders: true,
+		legacyHeaders: false,
+	});
 
-	const authMiddleware = createAuthMiddleware(supabaseClient);
-
-	// --- SYSTEM PROMPT ---
-	const systemPrompt = `✨ **SYSTEM:** You are a cute, bubbly Pixar-style travel companion AI! Your name is Pixie. ✨
+	const verifyToken = tokenVerifier || createSupabaseTokenVerifier(supabaseClient);
+	// Signed-in users, or services whose API key has `scope`
+	const authenticated = (scope: ApiKeyScope) => [
+		ipLimiter,
+		createAuthMiddleware(verifyToken, { metrics, apiKeys, scope }),
+		userLimiter,
+	];
+	// Same, but only for users whose app_metadata role is "admin"
+	const adminOnly = [
+		ipLimiter,
+		createAuthMiddleware(verifyToken, { metrics, apiKeys, scope: "admin", roles: ["admin"] }),
+		userLimiter,
+	];
+	const quota = createQuotaMiddleware(usageStore, plans);
+	const executeTool = createToolExecutor(cities);
+	const retriever = createRetriever(instrumentVectorStore(vectorStore, metrics), retrievalOptions);
+	const cacheOpts = { ...defaultCacheOptions, ...cacheOptions };
+	const queryEmbedder = createCachedEmbedder(
+		embedder,
+		cacheOpts.embeddingCacheSize,
+		cacheOpts.embeddingTtlMs
+	);
+	const answerCache = createAnswerCache(
+		cacheOpts.answerCacheSize,
+		cacheOpts.answerTtlMs,
+		cacheOpts.answerSimilarity
+	);
+	const streams = createChatStreamHub(streamOptions);
+	// After a re-ingest, search the new chunks now rather than when the corpus TTL runs out
+	ingestJobs?.onFinished((job) => {
+		if (job.status !== "succeeded") return;
+		retriever.refresh();
+		answerCache.clear();
+	});
 
-Your one and only job is to be a super fun travel buddy and answer the user's question by *perfectly* following these rules!
+	// --- CONVERSATION ENDPOINTS ---
+	app.use(
+		"/api/conversations",
+		authenticated("conversations"),
+		createConversationRouter(conversationStore)
+	);
+
+	// --- USAGE ENDPOINT ---
+	app.use("/api/me", authenticated("chat"), createUsageRouter(usageStore, plans));
+
+	// --- FEEDBACK ENDPOINTS ---
+	app.use(
+		"/api/feedback",
+		authenticated("conversations"),
+		createFeedbackRouter(feedbackStore, conversationStore)
+	);
+	app.use(
+		"/api/admin/feedback",
+		adminOnly,
+		createAdminFeedbackRouter(feedbackStore)
+	);
+
+	// --- TRIP ENDPOINTS ---
+	app.use(
+		"/api/trips",
+		authenticated("trips"),
+		createTripRouter(tripStore, { cities, conversationStore, chatProvider, usageStore, quota })
+	);
+
+	// --- CITY ENDPOINTS ---
+	app.use("/api/cities", authenticated("data"), createCityRouter(cities, attractions));
+	if (travelDataStore) {
+		app.use(
+			"/api/admin/cities",
+			adminOnly,
+			createAdminCityRouter(travelDataStore)
+		);
+	}
+
+	// --- KNOWLEDGE BASE ENDPOINTS (admin) ---
+	if (knowledgeBase) {
+		app.use(
+			"/api/admin/knowledge",
+			adminOnly,
+			createAdminKnowledgeRouter(knowledgeBase, ingestJobs)
+		);
+	}
+
+	// --- COST ESTIMATE ENDPOINT ---
+	app.use("/api/estimate", authenticated("data"), createEstimateRouter(cities));
+
+	// --- ROUTE PLANNER ENDPOINT ---
+	app.use("/api/route", authenticated("data"), createRoutePlannerRouter(cities));
+
+	// --- CACHE ENDPOINTS (admin) ---
+	app.get("/api/admin/cache", adminOnly, (req: Request, res: Response) => {
+		res.json({ embeddings: queryEmbedder.stats(), answers: answerCache.stats() });
+	});
+	app.delete("/api/admin/cache", adminOnly, (req: Request, res: Response) => {
+		queryEmbedder.clear();
+		answerCache.clear();
+		res.status(204).end();
+	});
 
-**CONTEXT:**
-{context}
+	// --- PROMPT ENDPOINT ---
+	// Personas, versions and languages a client can ask /api/chat for
+	app.get("/api/prompts", authenticated("chat"), (req: Request, res: Response) => {
+		res.json(prompts.list());
+	});
 
----
-**YOUR SUPER-IMPORTANT RULES! 💖**
----
-1.  **TONE & PERSONA:**
-    * You MUST speak in Hinglish (Hindi + English mix).
-    * Be super sweet, excited, playful, and encouraging! 🤩
-    * Use emojis but SPARINGLY! 🌍✨💖🎒
-    * ALWAYS answer like a travel buddy, not a boring AI 🤭
+	// A reconnect with Last-Event-ID picks up the buffered stream instead of asking
+	// again, so it costs no quota and generates nothing
+	const resumeChat = (req: Request, res: Response, next: NextFunction) => {
+		const lastEventId = req.get("Last-Event-ID");
+		if (!lastEventId) return next();
+		if (!streams.resume(res, lastEventId, req.user!.id)) {
+			return res.status(404).json({ error: "Stream not found or expired." });
+		}
+		log.info("Chat stream resumed", { lastEventId });
+	};
 
-2.  **HOW TO ANSWER (Your Brain!)**
-    * **Rule 2a: CHECK CONTEXT FIRST!** Always, always check the **CONTEXT** sources first. If the answer is in the context, you MUST use it. This is your special knowledge!
-        * Prioritize the **RAG Context** for itineraries and opinions.
-        * Use the **Structured Data** for specific facts like "What's the hotel price?"
-    * **Rule 2b: FALLBACK TO GENERAL KNOWLEDGE!** If (and *only* if) the answer is **NOT in the CONTEXT**, *but* it's still a **travel-related question** (like "What's the capital of France?" or "Best time to visit Kerala?"), it's totally OK to use your own general knowledge! 💖
-    * **Rule 2c: REFUSE OFF-TOPIC!** If the question is **NOT about travel** (like coding, math, or random history), you MUST politely refuse.
-    * **How to refuse:** Say something cute and funny, like: "Aiyoo! 🙅‍♀️ Main toh travel buddy hoon, not a computer wizard! 😜 Chalo trip plan karein?" or "Hehe, woh sab mere syllabus ke bahar hai! Let's talk about GOA! 🏖️"
+	// --- CHAT PIPELINE ---
+	// Shared by /api/chat and /v1/chat/completions; only the responder differs
 
-3.  **BE FUN & CONCISE!**
-    * Keep your answers short, sweet, and exciting!
-`;
+	// Which system prompt, and which conversation: a 400 or 404 before the quota counts anything
+	const checkChat: ChatChecker = async (req, input) => {
+		const { conversationId, persona, language, promptVersion } = input;
+		let prompt: PromptSelection;
+		try {
+			prompt = prompts.select({ persona, language, version: promptVersion });
+		} catch (err: any) {
+			if (!(err instanceof PromptSelectionError)) throw err;
+			return { status: 400, body: { error: "Invalid prompt selection.", issues: err.issues } };
+		}
+		let conversation: Conversation | null = null;
+		if (conversationId) {
+			conversation = await conversationStore.get(req.user!.id, conversationId);
+			if (!conversation) return { status: 404, body: { error: "Conversation not found." } };
+		}
+		return { input, prompt, conversation };
+	};
 
-	// --- CHAT ENDPOINT ---
-	// Auth and Rate Limiter are NOT applied for testing
-	app.post("/api/chat", limiter, authMiddleware, async (req: Request, res: Response) => {
+	const runChat: ChatRunner = async (req, { input, prompt, conversation: existing }, responder) => {
+		const requestId = req.requestId!;
+		let stream: ChatStream | undefined;
+		// Where we are, for the error counter; and how long each stage took, for the log
+		let stage: Stage | "prepare" | "save" = "prepare";
+		const timings: Partial<Record<Stage, number>> = {};
+		const startStage = (next: Stage) => {
+			stage = next;
+			const done = metrics.stageDuration.startTimer({ stage: next });
+			return () => {
+				timings[next] = Math.round(done() * 1000);
+			};
+		};
 		try {
-			const { query } = req.body as { query: string };
-			const q = (query || "").trim();
-			console.log(`User at IP ${req.user?.email} asked: ${q}`);
+			const { query, conversationId, history: earlier = [], stateless } = input;
+			const q = query.trim();
+			const userId = req.user!.id;
+			const askedAt = new Date().toISOString();
+			log.info("Chat request", { userId, query: q, conversationId });
+
+			// --- 0. Continue (or start) the conversation ---
+			// A stateless call (the client keeps the history, OpenAI style) saves nothing
+			const conversation =
+				existing ||
+				(stateless
+					? null
+					: await conversationStore.create(userId, q.slice(0, MAX_TITLE_LENGTH) || "New chat"));
+			const saved = conversation ? { conversationId: conversation.id } : {};
+			const pastMessages = conversation?.messages || [];
+			const saveMessages = async (messages: ChatMessage[]) => {
+				if (conversation) await conversationStore.appendMessages(userId, conversation.id, messages);
+			};
 
 			// --- A. Structured JSON Retrieval ---
-			const cityHits = searchCity(q, cities);
+			// Every city the query mentions (trips can span several), best match first
+			const searchCityDone = startStage("search_city");
+			const allCityMatches = matchCities(q, cities);
+			const cityMatches = allCityMatches.slice(0, MAX_CONTEXT_CITIES);
+			const leftOutCities = allCityMatches.slice(MAX_CONTEXT_CITIES).map((m) => m.city.city);
+			const cityHits = cityMatches.map((m) => m.city);
 			let structuredContext = "No specific city found in my database.";
-			if (cityHits.length) {
-				const c = cityHits[0];
-				structuredContext = `Found Data: ${c.city}, STATE:${
-					c.state
-				}, HOTEL:${c.avgHotelPerNight}, FOOD:${
-					c.avgFoodPerDay
-				}, SPOTS:${c.topSpots.map((s) => s.name).join(", ")}`;
+			if (cityMatches.length) {
+				structuredContext = cityMatches
+					.map(
+						({ city: c, confidence }) =>
+							`Found Data: ${c.city}, STATE:${c.state}, HOTEL:${
+								c.avgHotelPerNight
+							}, FOOD:${c.avgFoodPerDay}, SPOTS:${c.topSpots
+								.map((s) => s.name)
+								.join(", ")}, MATCH CONFIDENCE:${confidence}`
+					)
+					.join("\n");
+				// Exact timings and fees, so "Hawa Mahal ki ticket kitne ki hai?" doesn't rely on RAG
+				for (const { city: c } of cityMatches) {
+					const inCity = attractions.filter((a) => a.city === c.city);
+					if (inCity.length) {
+						// Names and tips come from the knowledge documents, so they're cleaned too
+						const { text } = sanitizeContext(
+							formatAttractions(c.city, inCity.slice(0, MAX_CONTEXT_ATTRACTIONS))
+						);
+						structuredContext += `\n${text}`;
+					}
+				}
+				if (leftOutCities.length) {
+					structuredContext += `\nNot covered here (too many cities in one question): ${leftOutCities.join(
+						", "
+					)}. Tell the user, and offer to plan those in a follow-up.`;
+				}
 			}
 
-			// --- B. Unstructured RAG Retrieval (from Supabase) ---
-			// --- B. Unstructured RAG Retrieval (Direct Supabase RPC Call) ---
-
-			// 1. Create the query vector using the same embedder
-			console.log("Generating query vector...");
-			const queryVector = await geminiEmbedder.embedQuery(q);
-			console.log(
-				"Query vector generated. with length:",
-				queryVector.length
-			);
+			// Several cities: plan the route, starting from the first one mentioned
+			// ("Delhi se Agra, Jaipur, Amritsar ka 7-day loop"). A state match like
+			// "Uttar Pradesh" names a region, not a stop.
+			const routeCities = cityMatches
+				.filter(
+					({ city: c, matchedOn }) =>
+						[c.city, ...(c.aliases || [])].includes(matchedOn) && hasCoordinates(c)
+				)
+				.map((m) => m.city);
+			if (routeCities.length >= 2) {
+				const lower = q.toLowerCase();
+				const position = (c: City) => {
+					const names = [c.city, ...(c.aliases || [])].map((n) => lower.indexOf(n.toLowerCase()));
+					return Math.min(...names.filter((i) => i >= 0), Infinity);
+				};
+				const [start, ...stops] = [...routeCities].sort((a, b) => position(a) - position(b));
+				const plan = planRoute(stops, {
+					start,
+					nights: parseTripNights(q) ?? stops.length * 2,
+				});
+				structuredContext += `\n${formatRoutePlan(plan)}`;
+			}
+			searchCityDone();
+
+			// --- Guardrails: injections and clearly off-topic questions never reach the model ---
+			// Turns the client sent along are its own text too, so they're checked for injections
+			let verdict = checkQuery(q, cityMatches.length > 0);
+			const injected = verdict.allowed && earlier.map((m) => detectInjection(m.text)).find(Boolean);
+			if (injected) verdict = { allowed: false, reason: "injection", detail: injected };
+			if (!verdict.allowed) {
+				metrics.guardrailBlocks.inc({ reason: verdict.reason! });
+				log.warn("Chat blocked by guardrails", { reason: verdict.reason, detail: verdict.detail });
+				const refusal = refusalText(prompt.language);
+				const events = (stream = responder.open());
+				events.send("meta", {
+					...saved,
+					requestId,
+					promptVersion: prompt.id,
+					cached: false,
+					blocked: verdict.reason,
+				});
+				events.send("sources", { chunks: [], cities: [], generalKnowledge: false });
+				events.send("delta", { text: refusal });
+				// Kept for the user's history, but never replayed to the model
+				await saveMessages([
+					{ role: "user", text: q, createdAt: askedAt, blocked: verdict.reason },
+					{
+						role: "model",
+						text: refusal,
+						createdAt: new Date().toISOString(),
+						promptVersion: prompt.id,
+						requestId,
+						blocked: verdict.reason,
+					},
+				]);
+				log.info("Chat answered", { blocked: verdict.reason, timings });
+				events.send("usage", { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+				events.send("done", saved);
+				return events.end();
+			}
 
-			// 2. Call the SQL function directly
-			console.log(`Calling Supabase RPC '${dbQueryName}'...`);
-			const { data: ragData, error: rpcError } = await supabaseClient.rpc(
-				dbQueryName, // "match_documents"
-				{
-					query_embedding: queryVector,
-					match_count: 3, // Get top 3 matches
+			// --- B. Unstructured RAG Retrieval (from the vector store) ---
+
+			// 1. Create the query vector using the same embedder (cached per query text)
+			const embeddingDone = startStage("embedding");
+			const queryVector = await queryEmbedder.embedQuery(q);
+			embeddingDone();
+			log.debug("Query vector generated", { dimensions: queryVector.length });
+
+			// 2. Answered a near-identical question already? Replay it.
+			// Only for fresh conversations: follow-ups depend on the history.
+			// Not for questions with an email or phone number: the cache is shared, and
+			// the answer may echo them back to someone else.
+			// The prompt is part of the scope (an English answer won't do for Tamil), and
+			// so is the trip length, since "3-day" and "7-day" embed alike.
+			const cacheable =
+				pastMessages.length === 0 && !earlier.length && redactPii(q) === q;
+			const cacheScope = `${prompt.id}|${cityHits
+				.map((c) => c.city)
+				.sort()
+				.join(",")}|${parseTripNights(q) ?? ""}`;
+			const corpusVersion = cacheable ? await retriever.version() : "";
+			const cached = cacheable
+				? answerCache.lookup(queryVector, cacheScope, corpusVersion)
+				: null;
+			if (cached) {
+				log.info("Answer cache hit", { cachedQuery: cached.query });
+				const events = (stream = responder.open());
+				events.send("meta", {
+					...saved,
+					requestId,
+					promptVersion: prompt.id,
+					cached: true,
+				});
+				events.send("sources", cached.sources);
+				for (const word of cached.answer.split(/(?<=\s)/)) {
+					events.send("delta", { text: word });
 				}
+				await saveMessages([
+					{ role: "user", text: q, createdAt: askedAt },
+					{
+						role: "model",
+						text: cached.answer,
+						createdAt: new Date().toISOString(),
+						promptVersion: prompt.id,
+						requestId,
+						sources: cached.sources,
+					},
+				]);
+				log.info("Chat answered", { cached: true, timings });
+				events.send("usage", { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+				events.send("done", saved);
+				return events.end();
+			}
+
+			// 3. Hybrid search (vector + keyword), focused on the city we found
+			const retrievalDone = startStage("retrieval");
+			const ragData = await retriever.retrieve(
+				q,
+				queryVector,
+				cityHits.map((c) => c.city)
 			);
+			retrievalDone();
 
-			if (rpcError) {
-				console.error("Supabase RPC error:", rpcError.message);
-				throw new Error(
-					`Failed to match documents: ${rpcError.message}`
-				);
+			if (ragData.length === 0) {
+				log.info("No RAG results found");
 			}
 
-			if (!ragData || ragData.length === 0) {
-				console.log("No RAG results found from database.");
+			// Fenced and cleaned: a poisoned document is data, not instructions
+			const { context: ragContext, flaggedSources } = fenceDocuments(
+				ragData.map((doc) => ({ source: doc.metadata.source || "unknown", content: doc.content }))
+			);
+			if (flaggedSources.length) {
+				log.warn("Injection-like text removed from retrieved chunks", { sources: flaggedSources });
 			}
 
-			const ragContext = (ragData || [])
-				.map(
-					(doc: any) =>
-						`[From ${doc.metadata.source}]: ${doc.content}`
-				)
-				.join("\n---\n");
+			// What the answer is based on, for the client's source chips
+			const sources: ChatStreamEvents["sources"] = {
+				chunks: ragData.map((doc) => ({
+					id: doc.id,
+					source: doc.metadata.source || "unknown",
+					city: doc.city,
+					...(doc.metadata.day && { day: doc.metadata.day }),
+					...(doc.metadata.attraction && { attraction: doc.metadata.attraction }),
+					similarity: doc.similarity,
+					score: doc.score,
+				})),
+				cities: cityMatches.map(({ city: c, confidence, matchedOn }) => ({
+					city: c.city,
+					confidence,
+					matchedOn,
+				})),
+				generalKnowledge: !ragData.length && !cityMatches.length,
+				...(leftOutCities.length && { leftOutCities }),
+			};
 
 			// --- C. Combine and Call LLM ---
 			const finalContext = `
@@ -154,67 +571,180 @@ Your one and only job is to be a super fun travel buddy and answer the user's qu
         RAG Context: ${ragContext}
       `;
 
-			const finalSystemPrompt = systemPrompt.replace(
-				"{context}",
-				finalContext
-			);
+			const finalSystemPrompt = prompts.render(prompt, finalContext);
 
-			const history: Content[] = [
-				{
-					role: "user",
-					parts: [{ text: finalSystemPrompt }],
-				},
+			const history: LLMMessage[] = [
+				{ role: "user", text: finalSystemPrompt },
 				{
 					role: "model",
-					parts: [
-						{
-							text: "Okie dokie! ✨ Ready to help plan the best trip ever! 🎒",
-						},
-					],
+					text: prompt.template.ack,
 				},
+				// Replay the earlier turns so follow-up questions keep their context
+				...[
+					...pastMessages
+						.filter((m) => !m.blocked)
+						.map((m): LLMMessage => ({ role: m.role, text: m.text })),
+					...earlier,
+				].slice(-MAX_HISTORY_MESSAGES),
 			];
 
-			const chat: ChatSession = chatModel.startChat({ history });
+			const chat = chatProvider.startChat({
+				history,
+				tools: travelToolDeclarations,
+			});
 
 			// --- D. STREAM THE RESPONSE ---
-			console.log(`Streaming response to user at IP ${req.user?.email}...`);
-
-			// 1. Set headers for Server-Sent Events (SSE)
-			res.setHeader("Content-Type", "text/event-stream");
-			res.setHeader("Cache-Control", "no-cache");
-			res.setHeader("Connection", "keep-alive");
-			res.flushHeaders(); // Send headers immediately
+			// 1. Open the SSE stream and say what the answer is based on
+			const streamDone = startStage("stream");
+			const events = (stream = responder.open());
+			events.send("meta", {
+				...saved,
+				requestId,
+				promptVersion: prompt.id,
+				cached: false,
+			});
+			events.send("sources", sources);
 
 			// 2. Call the streaming method
-			const result = await chat.sendMessageStream(q);
+			let firstTokenDone: (() => void) | undefined = startStage("first_token");
+			stage = "stream"; // first_token overlaps the stream; failures count as "stream"
+			// Aborted if the client leaves for good (see createChatStreamHub)
+			const { signal } = events;
+			let turn = await chat.send(q, { signal });
+
+			// 3. Iterate over the stream and send chunks.
+			// If the model asks for tools, run them here and stream its follow-up.
+			let answer = "";
+			const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+			for (let round = 0; ; round++) {
+				for await (const textChunk of turn.stream) {
+					firstTokenDone?.();
+					firstTokenDone = undefined;
+					answer += textChunk;
+					events.send("delta", { text: textChunk });
+				}
+
+				const { toolCalls, usage: roundUsage } = await turn.response;
+				if (roundUsage) {
+					usage.promptTokens += roundUsage.promptTokens;
+					usage.completionTokens += roundUsage.completionTokens;
+					usage.totalTokens += roundUsage.totalTokens;
+				}
+				if (!toolCalls.length || round >= MAX_TOOL_ROUNDS) break;
+
+				const toolResults: ToolResult[] = toolCalls.map((call) => {
+					log.info("Running tool", { tool: call.name });
+					events.send("tool_call", { name: call.name, args: call.args });
+					const output = executeTool(call);
+					events.send("tool_result", { name: call.name, result: output });
+					return { name: call.name, response: output };
+				});
 
-			// 3. Iterate over the stream and send chunks
-			for await (const chunk of result.stream) {
-				const textChunk = chunk.text();
-				// Format as SSE: data: { "text": "..." }\n\n
-				res.write(`data: ${JSON.stringify({ text: textChunk })}\n\n`);
+				turn = await chat.send(toolResults, { signal });
+			}
+
+			streamDone();
+			stage = "save";
+			await usageStore
+				.record(userId, usageDay(), { tokens: usage })
+				.catch((err) => log.error("Failed to record token usage", { error: err.message }));
+
+			// 4. Save both turns so the next request can replay them,
+			// and the answer so the next near-identical question can too
+			await saveMessages([
+				{ role: "user", text: q, createdAt: askedAt },
+				{
+					role: "model",
+					text: answer,
+					createdAt: new Date().toISOString(),
+					promptVersion: prompt.id,
+					requestId, // What /api/feedback refers to
+					sources,
+				},
+			]);
+			if (cacheable && answer.trim()) {
+				answerCache.store(queryVector, cacheScope, corpusVersion, { query: q, answer, sources });
 			}
 
-			console.log(`Stream finished for user at IP ${req.user?.email}.`);
-			// 4. Send a final "done" message and end the connection
-			res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-			res.end();
+			log.info("Chat answered", { cached: false, ragChunks: ragData.length, usage, timings });
+
+			// 5. Report token usage, send "done" and end the connection
+			events.send("usage", usage);
+			events.send("done", saved);
+			events.end();
 		} catch (err: any) {
-			console.error("ERROR in /api/chat:", err);
+			if (stream?.signal.aborted) {
+				// The client left: nothing went wrong, and nobody is reading
+				log.info("Chat generation aborted", { stage, timings });
+				stream.send("error", { error: "Generation stopped: the client disconnected." });
+				return stream.end();
+			}
+			metrics.errors.inc({ stage });
+			log.error(`ERROR in ${req.baseUrl}${req.path}`, { stage, error: err, timings });
 			// If an error happens before streaming, send a 500
-			if (!res.headersSent) {
-				res.status(500).json({
+			if (!stream) {
+				responder.fail(500, {
 					reply: "Aiyoo server ko thoda pani de do 😭💦 brb!",
 				});
 			} else {
 				// If error happens mid-stream, send an error event
-				res.write(
-					`data: ${JSON.stringify({ error: err.message })}\n\n`
-				);
-				res.end();
+				stream.send("error", { error: err.message });
+				stream.end();
 			}
 		}
-	});
+	};
+
+	// Everything is checked before the quota, so a request that can't be answered doesn't use one up
+	const validateChat = async (req: Request, res: Response, next: NextFunction) => {
+		const { query, conversationId, persona, language, promptVersion, stream } = req.body || {};
+		const issues: string[] = [];
+		if (query !== undefined && typeof query !== "string") issues.push("query: must be a string");
+		if (conversationId !== undefined && typeof conversationId !== "string") {
+			issues.push("conversationId: must be a string");
+		}
+		if (stream !== undefined && typeof stream !== "boolean") issues.push("stream: must be a boolean");
+		if (issues.length) return res.status(400).json({ error: "Invalid chat request.", issues });
+		try {
+			const checked = await checkChat(req, {
+				query: query || "",
+				conversationId,
+				persona,
+				language,
+				promptVersion,
+			});
+			if (isChatFailure(checked)) return res.status(checked.status).json(checked.body);
+			res.locals.chat = checked;
+			next();
+		} catch (err: any) {
+			log.error("ERROR while checking a chat request", { error: err });
+			res.status(500).json({ reply: "Aiyoo server ko thoda pani de do 😭💦 brb!" });
+		}
+	};
+
+	// --- CHAT ENDPOINT ---
+	// Rate limits, auth and the daily quota all apply here.
+	// Body: { query, conversationId?, persona?, language?, promptVersion?, stream? }
+	// stream: false answers with one JSON object instead of SSE events
+	app.post(
+		"/api/chat",
+		authenticated("chat"),
+		resumeChat,
+		validateChat,
+		quota,
+		async (req: Request, res: Response) => {
+			const stream = req.body.stream;
+			await runChat(req, res.locals.chat, {
+				open: () =>
+					stream === false
+						? collectChatEvents(res, (result) => sendChatResult(res, result))
+						: streams.open(res, req.requestId!, req.user!.id),
+				fail: (status, body) => res.status(status).json(body),
+			});
+		}
+	);
+
+	// --- OPENAI-COMPATIBLE ENDPOINTS ---
+	app.use("/v1", authenticated("chat"), createOpenAIRouter(checkChat, runChat, prompts, quota));
 
 	return app;
 };
@@ -1,168 +1,118 @@
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai"; // <-- Use LangChain
-import { TaskType } from "@google/generative-ai";
 import { createClient } from "@supabase/supabase-js";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import dotenv from "dotenv";
-import fs from "fs/promises";
-import path from "path";
-import { Document } from "@langchain/core/documents";
+import {
+	VectorStore,
+	createLocalVectorStore,
+	createSupabaseVectorStore,
+} from "./vectorStore.js";
+import {
+	DocumentStore,
+	createLocalDocumentStore,
+	createSupabaseDocumentStore,
+} from "./documentStore.js";
+import {
+	ManifestStore,
+	createFileManifestStore,
+	createSupabaseManifestStore,
+} from "./ingestManifest.js";
+import { createEmbedder, embedderName, loadProviderConfig } from "./llmProvider.js";
+import { runIngestion } from "./ingestPipeline.js";
+import { checkDocumentName } from "./knowledgeBase.js";
+import { loadTravelData } from "./utils.js";
 
 // Load environment variables
 dotenv.config();
 
 // --- 1. CONFIGURATION ---
-const KNOWLEDGE_DIR = "./knowledge_base";
+const KNOWLEDGE_DIR = process.env.KNOWLEDGE_DIR || "./knowledge_base";
 const RAG_TABLE_NAME = "documents";
+const RAG_QUERY_NAME = "match_documents";
+// "supabase" (default) or "local"
+const VECTOR_STORE = process.env.VECTOR_STORE || "supabase";
+const LOCAL_VECTOR_STORE_PATH =
+	process.env.LOCAL_VECTOR_STORE_PATH || "./vectorStore.json";
+// The local store's manifest; Supabase keeps its own in the ingest_manifests table
+const MANIFEST_PATH = process.env.INGEST_MANIFEST_PATH || "./ingestManifest.local.json";
+// With Supabase, the documents live in this storage bucket (the admin endpoints edit them)
+const KNOWLEDGE_BUCKET = process.env.KNOWLEDGE_BUCKET || "knowledge";
+// Structured attraction data, read by the server at startup
+const ATTRACTIONS_PATH = process.env.ATTRACTIONS_PATH || "./attractions.json";
+const DB_PATH = "./travelData.json";
+
+// --- CLI FLAGS ---
+// --dry-run: print the plan, change nothing
+// --force:   ignore the manifest and rebuild everything
+// --upload:  with Supabase, copy KNOWLEDGE_DIR into the bucket first (adds and replaces, never deletes)
+const DRY_RUN = process.argv.includes("--dry-run");
+const FORCE = process.argv.includes("--force");
+const UPLOAD = process.argv.includes("--upload");
 
 // --- 2. LOAD ENV KEYS ---
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY as string;
 const SUPABASE_URL = process.env.SUPABASE_URL as string;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY as string;
 
-if (!GOOGLE_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+const providerConfig = loadProviderConfig(); // Checks GOOGLE_API_KEY if needed
+if (VECTOR_STORE === "supabase" && (!SUPABASE_URL || !SUPABASE_SERVICE_KEY)) {
 	throw new Error(
-		"Missing required environment variables (GOOGLE_API_KEY, SUPABASE_URL, SUPABASE_SERVICE_KEY)"
+		"Missing required environment variables (SUPABASE_URL, SUPABASE_SERVICE_KEY)"
 	);
 }
 
 // --- 3. INITIALIZE CLIENTS ---
 
-// Initialize Supabase client (using the SERVICE key for admin access)
-const supabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
-	auth: {
-		persistSession: false,
-		autoRefreshToken: false,
-	},
-});
-
-// --- THIS IS THE FIX ---
-// Initialize the *LangChain* Embedder, just like in server.ts
-// We use RETRIEVAL_DOCUMENT here, which is correct for ingestion.
-const geminiEmbedder = new GoogleGenerativeAIEmbeddings({
-	apiKey: GOOGLE_API_KEY,
-	model: "embedding-001",
-	taskType: TaskType.SEMANTIC_SIMILARITY,
-});
-// --- END FIX ---
+// Pick the backend: the vector store, and the documents and manifest that go with it.
+// Supabase uses the SERVICE key for admin access.
+const supabase =
+	VECTOR_STORE === "local"
+		? null
+		: createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+				auth: {
+					persistSession: false,
+					autoRefreshToken: false,
+				},
+		  });
+const vectorStore: VectorStore = supabase
+	? createSupabaseVectorStore(supabase, { tableName: RAG_TABLE_NAME, queryName: RAG_QUERY_NAME })
+	: createLocalVectorStore(LOCAL_VECTOR_STORE_PATH);
+const documents: DocumentStore = supabase
+	? createSupabaseDocumentStore(supabase, KNOWLEDGE_BUCKET)
+	: createLocalDocumentStore(KNOWLEDGE_DIR);
+const manifest: ManifestStore = supabase
+	? createSupabaseManifestStore(supabase, RAG_TABLE_NAME)
+	: createFileManifestStore(MANIFEST_PATH);
+
+// Use the same embedder as the server (EMBEDDING_PROVIDER), or the vectors won't match.
+const embedder = createEmbedder(providerConfig);
 
 // --- 4. INGESTION FUNCTION ---
+
+/** Copies the local knowledge folder into the document store (--upload). */
+async function uploadDocuments() {
+	const local = createLocalDocumentStore(KNOWLEDGE_DIR);
+	const names = (await local.list()).map((d) => d.name).filter((name) => !checkDocumentName(name));
+	console.log(`Uploading ${names.length} documents from ${KNOWLEDGE_DIR} to ${documents.name}...`);
+	for (const name of names) {
+		await documents.write(name, (await local.read(name))!);
+	}
+}
+
 async function ingestData() {
 	try {
+		if (UPLOAD && supabase && !DRY_RUN) await uploadDocuments();
 		console.log("Starting ingestion...");
-
-		// 1. Clear old documents from the table
-		console.log(`Deleting old documents from '${RAG_TABLE_NAME}' table...`);
-		const { error: deleteError } = await supabaseClient
-			.from(RAG_TABLE_NAME)
-			.delete()
-			.neq("id", 0); // Deletes all rows
-		if (deleteError)
-			throw new Error(`Supabase delete error: ${deleteError.message}`);
-		console.log("Old documents cleared.");
-
-		// 2. Read files and create chunks
-		console.log(`Reading files from ${KNOWLEDGE_DIR}...`);
-		const files = await fs.readdir(KNOWLEDGE_DIR);
-		const txtFiles = files.filter((f) => f.endsWith(".txt"));
-		console.log(`Found ${txtFiles.length} knowledge files.`);
-
-		let allDocs: Document[] = [];
-		for (const file of txtFiles) {
-			const content = await fs.readFile(
-				path.join(KNOWLEDGE_DIR, file),
-				"utf8"
-			);
-			allDocs.push(
-				new Document({
-					pageContent: content,
-					metadata: { source: file },
-				})
-			);
-		}
-
-		const textSplitter = new RecursiveCharacterTextSplitter({
-			chunkSize: 450,
-			chunkOverlap: 50,
+		await runIngestion({
+			documents,
+			vectorStore,
+			storeName: VECTOR_STORE,
+			embedder,
+			embedderName: embedderName(providerConfig),
+			manifest,
+			attractionsPath: ATTRACTIONS_PATH,
+			cities: loadTravelData(DB_PATH),
+			force: FORCE,
+			dryRun: DRY_RUN,
+			report: (message) => console.log(message),
 		});
-		const allChunks = await textSplitter.splitDocuments(allDocs);
-
-		const MIN_CHUNK_LENGTH = 15;
-		const validChunks = allChunks.filter(
-			(chunk) => chunk.pageContent.trim().length > MIN_CHUNK_LENGTH
-		);
-		console.log(
-			`Created ${validChunks.length} valid document chunks (min ${MIN_CHUNK_LENGTH} chars).`
-		);
-
-		if (validChunks.length === 0) {
-			console.warn("No valid chunks found. Ingestion skipped.");
-			return;
-		}
-
-		// 3. --- Manually Embed Documents (using LangChain) ---
-		console.log("Embedding chunks using LangChain/GoogleGenAI...");
-
-		const chunkTexts = validChunks.map((chunk) => chunk.pageContent);
-		const embeddings = await geminiEmbedder.embedDocuments(chunkTexts);
-
-		// Validate the embeddings
-		if (!embeddings || embeddings.length !== validChunks.length) {
-			throw new Error(
-				"Embedding API returned a different number of embeddings than expected."
-			);
-		}
-		console.log(`Successfully generated ${embeddings.length} embeddings.`);
-
-		// 4. --- Manually Insert into Supabase ---
-		console.log("Preparing data for Supabase insert...");
-
-		const rowsToInsert = validChunks
-			.map((chunk, i) => {
-				const embedding = embeddings[i];
-				if (!embedding || embedding.length === 0) {
-					console.warn(
-						`Warning: Got an empty embedding for chunk from ${chunk.metadata.source}. Skipping.`
-					);
-					return null;
-				}
-				return {
-					content: chunk.pageContent,
-					metadata: chunk.metadata,
-					embedding: embedding, // LangChain embedders return number[]
-				};
-			})
-			.filter((row) => row !== null);
-
-		if (rowsToInsert.length === 0) {
-			throw new Error(
-				"No valid embeddings were generated. Check source files."
-			);
-		}
-
-		console.log(
-			`Inserting ${rowsToInsert.length} valid vectors into Supabase...`
-		);
-
-		const BATCH_SIZE = 100;
-		for (let i = 0; i < rowsToInsert.length; i += BATCH_SIZE) {
-			const batch = rowsToInsert.slice(i, i + BATCH_SIZE);
-			const { error: insertError } = await supabaseClient
-				.from(RAG_TABLE_NAME)
-				.insert(batch);
-
-			if (insertError) {
-				throw new Error(
-					`Supabase insert error: ${insertError.message}`
-				);
-			}
-			console.log(
-				`Inserted batch ${i / BATCH_SIZE + 1} of ${Math.ceil(
-					rowsToInsert.length / BATCH_SIZE
-				)}`
-			);
-		}
-
-		console.log("✅ Ingestion complete!");
 	} catch (err: any) {
 		console.error("Ingestion failed:", err.message);
 		if (err.cause) {
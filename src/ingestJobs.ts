@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import { IngestJob, IngestProgress, IngestSummary } from "./types/index.js";
+import { log } from "./logger.js";
+
+// Finished jobs kept for the status endpoint
+const MAX_JOBS = 20;
+const MAX_LOG_LINES = 200;
+
+/**
+ * Runs one ingestion. `report` and `onProgress` feed the job's log and progress.
+ */
+export type IngestRun = (options: {
+	force: boolean;
+	report: (message: string) => void;
+	onProgress: (progress: IngestProgress) => void;
+}) => Promise<IngestSummary>;
+
+/**
+ * Background re-ingest jobs, one at a time. Jobs live in memory only.
+ */
+export interface IngestJobRunner {
+	/** Starts a job, or returns null if one is already running. */
+	start(startedBy: string, options?: { force?: boolean }): IngestJob | null;
+	running(): IngestJob | null;
+	get(id: string): IngestJob | undefined;
+	/** Newest first. */
+	list(): IngestJob[];
+	/** Called with every job once it has succeeded or failed. */
+	onFinished(listener: (job: IngestJob) => void): void;
+}
+
+/**
+ * Factory function to create the ingest job runner.
+ * @param run Does the actual work (see runIngestion)
+ */
+export const createIngestJobRunner = (run: IngestRun): IngestJobRunner => {
+	const jobs: IngestJob[] = []; // Oldest first
+	const listeners: ((job: IngestJob) => void)[] = [];
+	let current: IngestJob | null = null;
+
+	const execute = async (job: IngestJob) => {
+		try {
+			job.summary = await run({
+				force: job.force,
+				report: (message) => {
+					job.log.push(...message.split("\n"));
+					if (job.log.length > MAX_LOG_LINES) job.log.splice(0, job.log.length - MAX_LOG_LINES);
+				},
+				onProgress: (progress) => {
+					job.progress = progress;
+				},
+			});
+			job.status = "succeeded";
+			log.info("Ingest job finished", { jobId: job.id, summary: job.summary });
+		} catch (err: any) {
+			job.status = "failed";
+			job.error = err.message;
+			log.error("Ingest job failed", { jobId: job.id, error: err });
+		} finally {
+			job.finishedAt = new Date().toISOString();
+			current = null;
+			for (const listener of listeners) {
+				try {
+					listener(job);
+				} catch (err: any) {
+					log.error("Ingest job listener failed", { jobId: job.id, error: err.message });
+				}
+			}
+		}
+	};
+
+	return {
+		start(startedBy, { force = false } = {}) {
+			if (current) return null;
+			const job: IngestJob = {
+				id: randomUUID(),
+				status: "running",
+				force,
+				startedBy,
+				startedAt: new Date().toISOString(),
+				progress: { stage: "reading", embedded: 0, toEmbed: 0 },
+				log: [],
+			};
+			current = job;
+			jobs.push(job);
+			if (jobs.length > MAX_JOBS) jobs.shift();
+			log.info("Ingest job started", { jobId: job.id, force, startedBy });
+			void execute(job);
+			return job;
+		},
+
+		running() {
+			return current;
+		},
+
+		get(id) {
+			return jobs.find((j) => j.id === id);
+		},
+
+		list() {
+			return [...jobs].reverse();
+		},
+
+		onFinished(listener) {
+			listeners.push(listener);
+		},
+	};
+};
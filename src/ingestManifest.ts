@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { IngestManifest, ManifestChunk } from "./types/index.js";
+
+/**
+ * A chunk as produced by the splitter, before it is embedded.
+ */
+export interface SourceChunk {
+	hash: string;
+	content: string;
+	metadata: Record<string, any>;
+}
+
+export interface SourceFile {
+	hash: string;
+	chunks: SourceChunk[];
+}
+
+/**
+ * What an ingestion run will do.
+ * `keep` chunks are already in the store and are not embedded again.
+ */
+export interface IngestPlan {
+	add: (SourceChunk & { source: string })[];
+	keep: (ManifestChunk & { source: string })[];
+	remove: (ManifestChunk & { source: string })[];
+	newFiles: string[];
+	changedFiles: string[];
+	deletedFiles: string[];
+	unchangedFiles: string[];
+}
+
+/**
+ * SHA-256 of a string, as hex. Used for both files and chunks.
+ */
+export function hashContent(content: string): string {
+	return crypto.createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Reads the manifest. A missing file returns null (= nothing ingested yet).
+ */
+export async function loadManifest(filePath: string): Promise<IngestManifest | null> {
+	try {
+		return JSON.parse(await fs.readFile(path.resolve(filePath), "utf8"));
+	} catch (err: any) {
+		if (err.code === "ENOENT") return null;
+		throw new Error(`Failed to read ingest manifest ${filePath}: ${err.message}`);
+	}
+}
+
+export async function saveManifest(
+	filePath: string,
+	manifest: IngestManifest
+): Promise<void> {
+	await fs.writeFile(path.resolve(filePath), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Where the manifest is kept. It has to live as long as the vector store
+ * rows it lists: a store without its manifest gets rebuilt from scratch.
+ */
+export interface ManifestStore {
+	name: string; // For messages, e.g. "./ingestManifest.local.json"
+	/** Null if nothing was ingested yet. */
+	load(): Promise<IngestManifest | null>;
+	save(manifest: IngestManifest): Promise<void>;
+}
+
+/**
+ * A JSON file next to the local vector store.
+ */
+export const createFileManifestStore = (filePath: string): ManifestStore => ({
+	name: filePath,
+	load: () => loadManifest(filePath),
+	save: (manifest) => saveManifest(filePath, manifest),
+});
+
+/**
+ * Supabase-backed store, one row per vector table. Expects a table like:
+ *   create table ingest_manifests (
+ *     name text primary key,
+ *     manifest jsonb not null,
+ *     updated_at timestamptz not null default now()
+ *   );
+ * Needs the service key.
+ * @param name The vector table the manifest describes, e.g. "documents"
+ */
+export const createSupabaseManifestStore = (
+	supabase: SupabaseClient,
+	name: string,
+	tableName = "ingest_manifests"
+): ManifestStore => ({
+	name: `${tableName} row '${name}'`,
+
+	async load() {
+		const { data, error } = await supabase
+			.from(tableName)
+			.select("manifest")
+			.eq("name", name)
+			.maybeSingle();
+		if (error) throw new Error(`Supabase select error: ${error.message}`);
+		return data?.manifest ?? null;
+	},
+
+	async save(manifest) {
+		const { error } = await supabase
+			.from(tableName)
+			.upsert({ name, manifest, updated_at: manifest.updatedAt });
+		if (error) throw new Error(`Supabase upsert error: ${error.message}`);
+	},
+});
+
+/**
+ * Diffs the current knowledge base against the manifest.
+ * Chunks are matched by content hash, so an edit to one section of a plan
+ * only re-embeds the chunks that actually changed.
+ * @param manifest The manifest from the last run (empty files = full ingest)
+ * @param sources Current chunks, keyed by source file name
+ */
+export function planIngestion(
+	manifest: IngestManifest | null,
+	sources: Map<string, SourceFile>
+): IngestPlan {
+	const previous = manifest?.files || {};
+	const plan: IngestPlan = {
+		add: [],
+		keep: [],
+		remove: [],
+		newFiles: [],
+		changedFiles: [],
+		deletedFiles: [],
+		unchangedFiles: [],
+	};
+
+	for (const [source, file] of sources) {
+		const old = previous[source];
+
+		if (!old) {
+			plan.newFiles.push(source);
+			plan.add.push(...file.chunks.map((c) => ({ ...c, source })));
+			continue;
+		}
+
+		if (old.hash === file.hash) {
+			plan.unchangedFiles.push(source);
+			plan.keep.push(...old.chunks.map((c) => ({ ...c, source })));
+			continue;
+		}
+
+		plan.changedFiles.push(source);
+		const oldByHash = new Map(old.chunks.map((c) => [c.hash, c]));
+		const newHashes = new Set(file.chunks.map((c) => c.hash));
+		for (const chunk of file.chunks) {
+			const existing = oldByHash.get(chunk.hash);
+			if (existing) plan.keep.push({ ...existing, source });
+			else plan.add.push({ ...chunk, source });
+		}
+		for (const chunk of old.chunks) {
+			if (!newHashes.has(chunk.hash)) plan.remove.push({ ...chunk, source });
+		}
+	}
+
+	for (const [source, old] of Object.entries(previous)) {
+		if (sources.has(source)) continue;
+		plan.deletedFiles.push(source);
+		plan.remove.push(...old.chunks.map((c) => ({ ...c, source })));
+	}
+
+	return plan;
+}
+
+/**
+ * Human-readable summary of a plan, one line per touched file.
+ */
+export function formatPlan(plan: IngestPlan): string {
+	const count = (list: { source: string }[], source: string) =>
+		list.filter((c) => c.source === source).length;
+
+	const lines = [
+		...plan.newFiles.map((f) => `  + ${f} (new, ${count(plan.add, f)} chunks)`),
+		...plan.changedFiles.map(
+			(f) =>
+				`  ~ ${f} (changed, +${count(plan.add, f)} -${count(plan.remove, f)} chunks, ${count(plan.keep, f)} kept)`
+		),
+		...plan.deletedFiles.map(
+			(f) => `  - ${f} (deleted, ${count(plan.remove, f)} chunks)`
+		),
+	];
+	lines.push(
+		`Adds: ${plan.add.length} chunks, updates: ${plan.changedFiles.length} files, ` +
+			`deletes: ${plan.remove.length} chunks, unchanged: ${plan.unchangedFiles.length} files.`
+	);
+	return lines.join("\n");
+}
@@ -0,0 +1,307 @@
+import fs from "fs/promises";
+import { VectorStore } from "./vectorStore.js";
+import { DocumentStore } from "./documentStore.js";
+import { Embedder } from "./llmProvider.js";
+import {
+	ManifestStore,
+	SourceChunk,
+	SourceFile,
+	formatPlan,
+	hashContent,
+	planIngestion,
+} from "./ingestManifest.js";
+import { KnowledgeDocument, knowledgeFormat, parseKnowledgeFile } from "./knowledgeLoaders.js";
+import { SPLITTER_VERSION, splitPlan } from "./planSplitter.js";
+import { extractAttractions, linkCity } from "./attractions.js";
+import {
+	Attraction,
+	City,
+	IngestManifest,
+	IngestProgress,
+	IngestSummary,
+} from "./types/index.js";
+import { cityFromSource } from "./utils.js";
+
+// Embedding in batches, so progress can be reported along the way
+const EMBED_BATCH_SIZE = 50;
+// Writing in batches, so a failed run knows which rows it added (and progress is reported)
+const WRITE_BATCH_SIZE = 100;
+
+export interface IngestOptions {
+	documents: DocumentStore; // The knowledge files
+	vectorStore: VectorStore;
+	storeName: string; // For messages, e.g. "local"
+	embedder: Embedder;
+	embedderName: string; // Stored in the manifest, e.g. "gemini:embedding-001"
+	manifest: ManifestStore; // Kept with the vector store it describes
+	attractionsPath: string;
+	cities: City[]; // Attractions are linked to these
+	force?: boolean; // Ignore the manifest and rebuild everything
+	dryRun?: boolean; // Work out the plan, change nothing
+	report?: (message: string) => void; // Progress lines; the CLI prints them
+	onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface IngestResult {
+	summary: IngestSummary;
+	attractions: Attraction[];
+}
+
+/**
+ * Splits one knowledge document into hashed chunks along its Day / attraction
+ * headings, and pulls out its attraction records.
+ * Identical chunks are kept once.
+ * @param doc The parsed file (see loadKnowledgeFile)
+ * @param cities Attractions are only kept if the document's city is one of these
+ */
+export function chunkDocument(
+	doc: KnowledgeDocument,
+	cities: City[]
+): { city: string; linkedCity: City | null; chunks: SourceChunk[]; attractions: Attraction[] } {
+	const { frontMatter } = doc;
+	// Plain-text plans have no front matter, but most start with a "Title: ..." line
+	const title = frontMatter.title || doc.text.match(/^\s*Title:\s*(.+)$/im)?.[1].trim();
+
+	// Front matter wins over the file name, so "rajasthan_forts.md" can say which city it is
+	const fileMetadata = {
+		source: doc.source,
+		format: doc.format,
+		city: frontMatter.city || cityFromSource(doc.source),
+		...(frontMatter.state && { state: frontMatter.state }),
+		...(frontMatter.days && { days: frontMatter.days }),
+		...(frontMatter.tags?.length && { tags: frontMatter.tags }),
+		...(title && { title }),
+	};
+
+	const chunks = new Map<string, SourceChunk>();
+	for (const chunk of splitPlan(doc.text)) {
+		const metadata = { ...fileMetadata, ...chunk.metadata };
+		// Metadata is part of the hash: a new city in the front matter re-embeds the chunk
+		const hash = hashContent(`${chunk.content}\n${JSON.stringify(metadata)}`);
+		chunks.set(hash, {
+			hash,
+			content: chunk.content,
+			metadata: { ...metadata, chunkHash: hash },
+		});
+	}
+
+	// Attractions belong to a City, so a plan for a city we have no data on has none
+	const linkedCity = linkCity(fileMetadata.city, cities) || null;
+	return {
+		city: fileMetadata.city,
+		linkedCity,
+		chunks: [...chunks.values()],
+		attractions: linkedCity ? extractAttractions(doc.text, linkedCity.city, doc.source) : [],
+	};
+}
+
+/**
+ * Reads every knowledge file (.txt, .md, .html, .pdf) in the store and chunks it.
+ */
+export async function loadSources(
+	documents: DocumentStore,
+	cities: City[],
+	report: (message: string) => void
+): Promise<{ sources: Map<string, SourceFile>; attractions: Attraction[] }> {
+	report(`Reading files from ${documents.name}...`);
+	const files = (await documents.list()).map((d) => d.name);
+	const knowledgeFiles = files.filter((f) => knowledgeFormat(f)).sort();
+	const skipped = files.filter((f) => !knowledgeFormat(f));
+	report(`Found ${knowledgeFiles.length} knowledge files.`);
+	if (skipped.length) report(`Skipping unsupported files: ${skipped.join(", ")}`);
+
+	const sources = new Map<string, SourceFile>();
+	const attractions: Attraction[] = [];
+	for (const file of knowledgeFiles) {
+		const content = await documents.read(file);
+		if (!content) throw new Error(`${file} disappeared while ingesting; run it again.`);
+		const chunked = chunkDocument(await parseKnowledgeFile(file, content), cities);
+		// The raw bytes, so edits to the front matter count as changes too
+		const hash = hashContent(content.toString("base64"));
+		sources.set(file, { hash, chunks: chunked.chunks });
+		attractions.push(...chunked.attractions);
+		if (!chunked.linkedCity) {
+			report(`${file}: no city '${chunked.city}' in the travel data, skipping its attractions.`);
+		}
+	}
+	return { sources, attractions };
+}
+
+/** Writes attractions.json (temp file + rename, so the server never reads half of it). */
+export async function saveAttractions(filePath: string, attractions: Attraction[]) {
+	const json = JSON.stringify({ attractions }, null, 2) + "\n";
+	const tmp = `${filePath}.tmp`;
+	await fs.writeFile(tmp, json);
+	await fs.rename(tmp, filePath);
+}
+
+/**
+ * Brings the vector store in line with the knowledge documents: embeds new and
+ * changed chunks, removes stale ones, and rewrites the manifest and attractions.
+ * Used by `npm run ingest` and by the admin re-ingest job.
+ * Throws on failure; the store is only touched once every embedding succeeded,
+ * and a failed write takes back the rows it added before the old ones are removed.
+ */
+export async function runIngestion(options: IngestOptions): Promise<IngestResult> {
+	const {
+		documents,
+		vectorStore,
+		storeName,
+		embedder,
+		embedderName,
+		manifest: manifestStore,
+		attractionsPath,
+		cities,
+		force = false,
+		dryRun = false,
+		report = () => {},
+		onProgress = () => {},
+	} = options;
+
+	// 1. Work out what changed since the last run
+	onProgress({ stage: "reading", embedded: 0, toEmbed: 0 });
+	const { sources, attractions } = await loadSources(documents, cities, report);
+	report(`Extracted ${attractions.length} attractions.`);
+	let manifest = await manifestStore.load();
+	let rebuild = force;
+	if (!manifest) {
+		report(`No manifest in ${manifestStore.name}, doing a full rebuild.`);
+		rebuild = true;
+	} else if (manifest.embedder !== embedderName) {
+		report(`Embedder changed (${manifest.embedder} -> ${embedderName}), doing a full rebuild.`);
+		rebuild = true;
+	} else if (manifest.splitter !== SPLITTER_VERSION) {
+		report(
+			`Splitter changed (${manifest.splitter || "none"} -> ${SPLITTER_VERSION}), doing a full rebuild.`
+		);
+		rebuild = true;
+	}
+	if (rebuild) manifest = null;
+
+	const plan = planIngestion(manifest, sources);
+	report(`Ingestion plan${rebuild ? " (full rebuild)" : ""}:`);
+	report(formatPlan(plan));
+
+	const summary: IngestSummary = {
+		rebuild,
+		dryRun,
+		added: plan.add.length,
+		removed: rebuild ? 0 : plan.remove.length,
+		kept: plan.keep.length,
+		newFiles: plan.newFiles,
+		changedFiles: plan.changedFiles,
+		deletedFiles: plan.deletedFiles,
+		attractions: attractions.length,
+	};
+	const finish = (embedded: number) => {
+		onProgress({ stage: "done", embedded, toEmbed: plan.add.length });
+		return { summary, attractions };
+	};
+
+	if (dryRun) {
+		report("Dry run: nothing was changed.");
+		return finish(0);
+	}
+
+	// Cheap and needs no embeddings, so always rewritten
+	onProgress({ stage: "saving", embedded: 0, toEmbed: plan.add.length });
+	await saveAttractions(attractionsPath, attractions);
+	report(`Attractions written to ${attractionsPath}.`);
+
+	if (!rebuild && plan.add.length === 0 && plan.remove.length === 0) {
+		report("✅ Knowledge base is already up to date.");
+		return finish(0);
+	}
+
+	// 2. --- Embed only the new chunks ---
+	// This happens before touching the store, so retrieval keeps working meanwhile.
+	const embeddings: number[][] = [];
+	if (plan.add.length > 0) {
+		report(`Embedding ${plan.add.length} chunks using ${embedderName}...`);
+		for (let i = 0; i < plan.add.length; i += EMBED_BATCH_SIZE) {
+			onProgress({ stage: "embedding", embedded: i, toEmbed: plan.add.length });
+			const batch = plan.add.slice(i, i + EMBED_BATCH_SIZE);
+			const vectors = await embedder.embedDocuments(batch.map((chunk) => chunk.content));
+			// Validate the embeddings
+			if (!vectors || vectors.length !== batch.length) {
+				throw new Error("Embedding API returned a different number of embeddings than expected.");
+			}
+			embeddings.push(...vectors);
+		}
+		const empty = embeddings.findIndex((e) => !e || e.length === 0);
+		if (empty !== -1) {
+			throw new Error(`Got an empty embedding for a chunk from ${plan.add[empty].source}.`);
+		}
+		report(`Successfully generated ${embeddings.length} embeddings.`);
+	}
+
+	// 3. --- Stage the new chunks next to the old ones ---
+	// A rebuild replaces every row in the store, including any the manifest doesn't know about
+	onProgress({ stage: "writing", embedded: plan.add.length, toEmbed: plan.add.length });
+	const oldIds = rebuild
+		? (await vectorStore.list()).map((chunk) => chunk.id)
+		: plan.remove.map((chunk) => chunk.id);
+	// Ids are collected batch by batch, so a failure part way can take back exactly what was added
+	const addedIds: string[] = [];
+	try {
+		if (plan.add.length > 0) {
+			report(`Inserting ${plan.add.length} vectors into the ${storeName} vector store...`);
+		}
+		for (let i = 0; i < plan.add.length; i += WRITE_BATCH_SIZE) {
+			const ids = await vectorStore.add(
+				plan.add.slice(i, i + WRITE_BATCH_SIZE).map((chunk, j) => ({
+					content: chunk.content,
+					metadata: chunk.metadata,
+					embedding: embeddings[i + j], // Embedders return number[]
+				}))
+			);
+			addedIds.push(...ids);
+			report(
+				`Inserted batch ${i / WRITE_BATCH_SIZE + 1} of ${Math.ceil(plan.add.length / WRITE_BATCH_SIZE)}`
+			);
+		}
+
+		// 4. --- Save the new manifest ---
+		onProgress({ stage: "saving", embedded: plan.add.length, toEmbed: plan.add.length });
+		const next: IngestManifest = {
+			version: 1,
+			embedder: embedderName,
+			splitter: SPLITTER_VERSION,
+			updatedAt: new Date().toISOString(),
+			files: {},
+		};
+		for (const [source, file] of sources) {
+			next.files[source] = { hash: file.hash, chunks: [] };
+		}
+		plan.keep.forEach((chunk) =>
+			next.files[chunk.source].chunks.push({ hash: chunk.hash, id: chunk.id })
+		);
+		plan.add.forEach((chunk, i) =>
+			next.files[chunk.source].chunks.push({ hash: chunk.hash, id: addedIds[i] })
+		);
+		await manifestStore.save(next);
+		report(`Manifest written to ${manifestStore.name}.`);
+	} catch (err) {
+		if (addedIds.length) {
+			report(`Failed, removing the ${addedIds.length} chunks this run added...`);
+			await vectorStore.remove(addedIds);
+		}
+		throw err;
+	}
+
+	// 5. --- Remove the chunks that were replaced ---
+	// Only now: until the new ones are in, the old ones keep answering
+	if (oldIds.length > 0) {
+		report(`Removing ${oldIds.length} ${rebuild ? "old" : "stale"} chunks...`);
+		try {
+			await vectorStore.remove(oldIds);
+		} catch (err: any) {
+			throw new Error(
+				`New chunks are in, but removing the old ones failed (${err.message}). A forced re-ingest cleans them up.`
+			);
+		}
+	}
+
+	report("✅ Ingestion complete!");
+	return finish(plan.add.length);
+}
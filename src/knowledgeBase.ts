@@ -0,0 +1,161 @@
+import { Attraction, City, IngestManifest } from "./types/index.js";
+import { KnowledgeFormat, FrontMatter, knowledgeFormat, parseKnowledgeFile } from "./knowledgeLoaders.js";
+import { chunkDocument } from "./ingestPipeline.js";
+import { ManifestStore, hashContent } from "./ingestManifest.js";
+import { DocumentStore, StoredDocument } from "./documentStore.js";
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 5 * 1024 * 1024;
+
+// "jaipur_plan.txt": no folders, no hidden files
+const FILE_NAME = /^[a-z0-9][\w.-]{0,99}$/i;
+
+/**
+ * Thrown when an uploaded document can't be used.
+ * `issues` has one readable line per problem.
+ */
+export class KnowledgeBaseError extends Error {
+	issues: string[];
+
+	constructor(message: string, issues: string[]) {
+		super(`${message}\n  - ${issues.join("\n  - ")}`);
+		this.name = "KnowledgeBaseError";
+		this.issues = issues;
+	}
+}
+
+export interface KnowledgeFileInfo {
+	name: string;
+	format: KnowledgeFormat;
+	size: number; // Bytes
+	updatedAt: string;
+	// Whether the vector store has this version: "ingested", "changed" since, or "new"
+	status: "ingested" | "changed" | "new";
+	chunks: number; // In the store, per the ingest manifest
+}
+
+/** What ingesting a document would produce, without embedding anything. */
+export interface KnowledgePreview {
+	name: string;
+	format: KnowledgeFormat;
+	frontMatter: FrontMatter;
+	city: string; // From the front matter or the file name
+	linkedCity: string | null; // The City it matched, or null (then it has no attractions)
+	chunks: { content: string; metadata: Record<string, any> }[];
+	attractions: Attraction[];
+}
+
+/**
+ * The knowledge documents that `npm run ingest` reads.
+ * Writes take effect on the next ingest.
+ */
+export interface KnowledgeBase {
+	list(): Promise<KnowledgeFileInfo[]>;
+	/** The file's bytes, or null if there's no such document. */
+	read(name: string): Promise<Buffer | null>;
+	preview(name: string): Promise<KnowledgePreview | null>;
+	/** Adds or replaces a document. Throws KnowledgeBaseError if it can't be parsed. */
+	save(name: string, content: Buffer): Promise<KnowledgeFileInfo>;
+	remove(name: string): Promise<boolean>;
+}
+
+/** Null if `name` is a usable document name, else what's wrong with it. */
+export function checkDocumentName(name: string): string | null {
+	if (!FILE_NAME.test(name)) {
+		return "name: letters, digits, '_', '-' and '.' only, e.g. udaipur_plan.md";
+	}
+	if (!knowledgeFormat(name)) return "name: must end in .txt, .md, .markdown, .html, .htm or .pdf";
+	return null;
+}
+
+/**
+ * Factory function to create the knowledge base.
+ * @param documents Where the documents live (the same store ingest reads)
+ * @param cities The live cities array; previews link attractions to them
+ * @param manifest The ingest manifest, for each document's status
+ */
+export const createKnowledgeBase = (
+	documents: DocumentStore,
+	cities: City[],
+	manifest: ManifestStore
+): KnowledgeBase => {
+	// Only checked names reach the store
+	const readFile = async (name: string) => (checkDocumentName(name) ? null : documents.read(name));
+
+	const info = (
+		document: StoredDocument,
+		content: Buffer,
+		files: IngestManifest["files"]
+	): KnowledgeFileInfo => {
+		const ingested = files[document.name];
+		const hash = hashContent(content.toString("base64")); // As ingest hashes files
+		return {
+			name: document.name,
+			format: knowledgeFormat(document.name)!,
+			size: document.size,
+			updatedAt: document.updatedAt,
+			status: !ingested ? "new" : ingested.hash === hash ? "ingested" : "changed",
+			chunks: ingested?.chunks.length || 0,
+		};
+	};
+
+	return {
+		async list() {
+			const [stored, ingested] = await Promise.all([documents.list(), manifest.load()]);
+			const usable = stored
+				.filter((d) => !checkDocumentName(d.name))
+				.sort((a, b) => a.name.localeCompare(b.name));
+			return Promise.all(
+				usable.map(async (d) => {
+					const content = (await documents.read(d.name)) || Buffer.alloc(0); // Deleted meanwhile
+					return info(d, content, ingested?.files || {});
+				})
+			);
+		},
+
+		read: readFile,
+
+		async preview(name) {
+			const content = await readFile(name);
+			if (!content) return null;
+			const doc = await parseKnowledgeFile(name, content);
+			const { city, linkedCity, chunks, attractions } = chunkDocument(doc, cities);
+			return {
+				name,
+				format: doc.format,
+				frontMatter: doc.frontMatter,
+				city,
+				linkedCity: linkedCity?.city || null,
+				chunks: chunks.map(({ content, metadata }) => ({ content, metadata })),
+				attractions,
+			};
+		},
+
+		async save(name, content) {
+			const issues: string[] = [];
+			const badName = checkDocumentName(name);
+			if (badName) issues.push(badName);
+			if (!content.length) issues.push("content: empty file");
+			if (content.length > MAX_KNOWLEDGE_FILE_BYTES) {
+				issues.push(`content: larger than ${MAX_KNOWLEDGE_FILE_BYTES / 1024 / 1024} MB`);
+			}
+			if (!issues.length) {
+				// Parse it now, so a broken file never reaches the ingest job
+				try {
+					const doc = await parseKnowledgeFile(name, content);
+					if (!doc.text.trim()) issues.push("content: no text found (a scanned PDF?)");
+				} catch (err: any) {
+					issues.push(`content: ${err.message}`);
+				}
+			}
+			if (issues.length) throw new KnowledgeBaseError(`Invalid document '${name}'`, issues);
+
+			const document = await documents.write(name, content);
+			return info(document, content, (await manifest.load())?.files || {});
+		},
+
+		async remove(name) {
+			if (checkDocumentName(name)) return false;
+			return documents.remove(name);
+		},
+	};
+};
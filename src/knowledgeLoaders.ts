@@ -0,0 +1,205 @@
+import fs from "fs/promises";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import pdfParse from "pdf-parse/lib/pdf-parse.js";
+
+export type KnowledgeFormat = "txt" | "md" | "html" | "pdf";
+
+const FORMATS: Record<string, KnowledgeFormat> = {
+	".txt": "txt",
+	".md": "md",
+	".markdown": "md",
+	".html": "html",
+	".htm": "html",
+	".pdf": "pdf",
+};
+
+/** Optional `---` YAML block at the top of a txt, md or html file. */
+export interface FrontMatter {
+	city?: string;
+	state?: string;
+	days?: number;
+	tags?: string[];
+	title?: string;
+}
+
+/**
+ * A knowledge file as plain text. Headings are kept on their own lines,
+ * Markdown-style ("## Day 1"), so the splitter can follow the structure.
+ */
+export interface KnowledgeDocument {
+	source: string; // File name, e.g. "jaipur_plan.md"
+	format: KnowledgeFormat;
+	text: string;
+	frontMatter: FrontMatter;
+}
+
+/** The format for a file name, or null if we can't read it. */
+export const knowledgeFormat = (file: string): KnowledgeFormat | null =>
+	FORMATS[path.extname(file).toLowerCase()] || null;
+
+/**
+ * Splits a `---` YAML block off the top of a file and checks the fields we use.
+ * Unknown keys are ignored. Throws on a broken block, naming the file.
+ */
+export function parseFrontMatter(
+	text: string,
+	source: string
+): { frontMatter: FrontMatter; body: string } {
+	const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+	if (!match) return { frontMatter: {}, body: text };
+
+	let data: any;
+	try {
+		data = parseYaml(match[1]) ?? {};
+	} catch (err: any) {
+		throw new Error(`${source}: invalid front matter: ${err.message}`);
+	}
+	if (typeof data !== "object" || Array.isArray(data)) {
+		throw new Error(`${source}: front matter must be key: value pairs`);
+	}
+
+	const frontMatter: FrontMatter = {};
+	for (const key of ["city", "state", "title"] as const) {
+		if (data[key] === undefined) continue;
+		if (typeof data[key] !== "string" || !data[key].trim()) {
+			throw new Error(`${source}: front matter '${key}' must be a non-empty string`);
+		}
+		frontMatter[key] = data[key].trim();
+	}
+	if (data.days !== undefined) {
+		if (!Number.isInteger(data.days) || data.days < 1) {
+			throw new Error(`${source}: front matter 'days' must be a whole number >= 1`);
+		}
+		frontMatter.days = data.days;
+	}
+	if (data.tags !== undefined) {
+		// "tags: [food, forts]" or "tags: food, forts"
+		const tags = typeof data.tags === "string" ? data.tags.split(",") : data.tags;
+		if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) {
+			throw new Error(`${source}: front matter 'tags' must be a list of strings`);
+		}
+		frontMatter.tags = tags.map((t: string) => t.trim().toLowerCase()).filter(Boolean);
+	}
+	return { frontMatter, body: text.slice(match[0].length) };
+}
+
+const ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	ndash: "–",
+	mdash: "—",
+	rsquo: "’",
+	lsquo: "‘",
+	rdquo: "”",
+	ldquo: "“",
+	hellip: "…",
+	rarr: "→",
+	middot: "·",
+};
+
+const decodeEntities = (text: string) =>
+	text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, name: string) => {
+		if (name[0] === "#") {
+			const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+			return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+		}
+		return ENTITIES[name.toLowerCase()] ?? whole;
+	});
+
+/**
+ * HTML to plain text: h1-h6 become "#" headings, list items "- " lines,
+ * block elements line breaks. Scripts, styles and comments are dropped.
+ */
+export function htmlToText(html: string): string {
+	const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+	return decodeEntities(
+		body
+			.replace(/<!--[\s\S]*?-->/g, "")
+			.replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+			.replace(/\s+/g, " ") // Source whitespace means nothing in HTML
+			.replace(/<h([1-6])\b[^>]*>/gi, (_, level) => `\n\n${"#".repeat(Number(level))} `)
+			.replace(/<\/h[1-6]>/gi, "\n\n")
+			.replace(/<li\b[^>]*>/gi, "\n- ")
+			.replace(/<br\s*\/?>/gi, "\n")
+			.replace(/<\/?(p|div|section|article|header|footer|ul|ol|table|tr|blockquote|pre)\b[^>]*>/gi, "\n\n")
+			.replace(/<\/t[dh]>/gi, " ")
+			.replace(/<[^>]+>/g, "")
+	)
+		.split("\n")
+		.map((line) => line.trim())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Markdown to plain text, keeping "#" headings and list markers.
+ * Emphasis, links, images and code fences are reduced to their text.
+ */
+export function markdownToText(markdown: string): string {
+	return markdown
+		.replace(/^```.*$/gm, "")
+		.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+		.replace(/(\*\*|__)(.+?)\1/g, "$2")
+		.replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2")
+		.replace(/`([^`]+)`/g, "$1")
+		.replace(/^\s*>\s?/gm, "")
+		.replace(/^\s*[-*_]{3,}\s*$/gm, "")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Turns the bytes of one knowledge file into plain text plus its front matter.
+ * PDFs have no front matter; their title comes from the document info if set.
+ * @param source The file name; its extension picks the format
+ * @param content The file's bytes
+ */
+export async function parseKnowledgeFile(
+	source: string,
+	content: Buffer
+): Promise<KnowledgeDocument> {
+	const format = knowledgeFormat(source);
+	if (!format) throw new Error(`${source}: unsupported file type`);
+
+	if (format === "pdf") {
+		let pdf: Awaited<ReturnType<typeof pdfParse>>;
+		try {
+			pdf = await pdfParse(content);
+		} catch (err: any) {
+			throw new Error(`${source}: could not read PDF: ${err.message}`);
+		}
+		const title = typeof pdf.info?.Title === "string" ? pdf.info.Title.trim() : "";
+		return {
+			source,
+			format,
+			text: pdf.text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim(),
+			frontMatter: title ? { title } : {},
+		};
+	}
+
+	const { frontMatter, body } = parseFrontMatter(content.toString("utf8"), source);
+	if (format === "html" && !frontMatter.title) {
+		const title = decodeEntities(body.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1] || "").trim();
+		if (title) frontMatter.title = title;
+	}
+	const text =
+		format === "md" ? markdownToText(body) : format === "html" ? htmlToText(body) : body;
+	return { source, format, text, frontMatter };
+}
+
+/**
+ * Reads one knowledge file from disk (see parseKnowledgeFile).
+ * @param filePath Path to a .txt, .md, .html or .pdf file
+ */
+export async function loadKnowledgeFile(filePath: string): Promise<KnowledgeDocument> {
+	const source = path.basename(filePath);
+	if (!knowledgeFormat(source)) throw new Error(`${source}: unsupported file type`);
+	return parseKnowledgeFile(source, await fs.readFile(filePath));
+}
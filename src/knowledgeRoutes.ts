@@ -0,0 +1,177 @@
+import express, { Router, Request, Response } from "express";
+import { KnowledgeBase, KnowledgeBaseError, MAX_KNOWLEDGE_FILE_BYTES } from "./knowledgeBase.js";
+import { IngestJobRunner } from "./ingestJobs.js";
+import { KnowledgeFormat, knowledgeFormat } from "./knowledgeLoaders.js";
+import { log } from "./logger.js";
+
+const CONTENT_TYPES: Record<KnowledgeFormat, string> = {
+	txt: "text/plain; charset=utf-8",
+	md: "text/markdown; charset=utf-8",
+	html: "text/html; charset=utf-8",
+	pdf: "application/pdf",
+};
+
+// Anything that isn't JSON is the file itself (JSON was already parsed by the app)
+const rawBody = express.raw({ type: () => true, limit: MAX_KNOWLEDGE_FILE_BYTES + 1 });
+
+/**
+ * The uploaded file: the raw request body, or JSON { content } / { contentBase64 }.
+ * JSON bodies hit the app's 100kb JSON limit, so bigger files (PDFs) are sent raw.
+ */
+const uploadedContent = (req: Request): Buffer | null => {
+	if (Buffer.isBuffer(req.body)) return req.body;
+	const { content, contentBase64 } = req.body || {};
+	if (typeof content === "string") return Buffer.from(content, "utf8");
+	if (typeof contentBase64 === "string") return Buffer.from(contentBase64, "base64");
+	return null;
+};
+
+/**
+ * Factory function to create the admin knowledge base routes.
+ * Uploads, replaces, lists, previews and deletes the documents that ingest reads,
+ * and starts re-ingest jobs so changes reach the vector store.
+ * @param knowledgeBase The knowledge documents
+ * @param ingestJobs Optional; without it the re-ingest endpoints answer 503
+ * @returns An Express router for /api/admin/knowledge.
+ */
+export const createAdminKnowledgeRouter = (
+	knowledgeBase: KnowledgeBase,
+	ingestJobs?: IngestJobRunner
+): Router => {
+	const router = Router();
+
+	const fail = (res: Response, err: any, action: string) => {
+		if (err instanceof KnowledgeBaseError) {
+			return res.status(400).json({ error: err.message.split("\n")[0], issues: err.issues });
+		}
+		log.error(`ERROR while trying to ${action}`, { error: err.message });
+		res.status(500).json({ error: `Failed to ${action}.` });
+	};
+
+	const noJobs = (res: Response) =>
+		res.status(503).json({ error: "Re-ingesting is not available on this server." });
+
+	// --- Documents ---
+	router.get("/", async (req: Request, res: Response) => {
+		try {
+			res.json({ documents: await knowledgeBase.list() });
+		} catch (err: any) {
+			fail(res, err, "list documents");
+		}
+	});
+
+	// --- Re-ingest jobs ---
+	// Registered before "/:name", which would match "ingest" too
+	router.get("/ingest", (req: Request, res: Response) => {
+		if (!ingestJobs) return noJobs(res);
+		res.json({ jobs: ingestJobs.list() });
+	});
+
+	router.get("/ingest/:id", (req: Request, res: Response) => {
+		if (!ingestJobs) return noJobs(res);
+		const job = ingestJobs.get(req.params.id);
+		if (!job) {
+			return res.status(404).json({ error: "Ingest job not found." });
+		}
+		res.json({ job });
+	});
+
+	// Body: { force?: boolean } to re-embed everything
+	router.post("/ingest", (req: Request, res: Response) => {
+		if (!ingestJobs) return noJobs(res);
+		const force = req.body?.force;
+		if (force !== undefined && typeof force !== "boolean") {
+			return res
+				.status(400)
+				.json({ error: "Invalid ingest request.", issues: ["force: must be a boolean"] });
+		}
+		const job = ingestJobs.start(req.user!.id, { force });
+		if (!job) {
+			return res
+				.status(409)
+				.json({ error: "An ingest job is already running.", job: ingestJobs.running() });
+		}
+		res.status(202).json({ job });
+	});
+
+	router.get("/:name", async (req: Request, res: Response) => {
+		try {
+			const content = await knowledgeBase.read(req.params.name);
+			if (!content) {
+				return res.status(404).json({ error: "Document not found." });
+			}
+			res.type(CONTENT_TYPES[knowledgeFormat(req.params.name)!]).send(content);
+		} catch (err: any) {
+			fail(res, err, "read document");
+		}
+	});
+
+	router.get("/:name/preview", async (req: Request, res: Response) => {
+		try {
+			const preview = await knowledgeBase.preview(req.params.name);
+			if (!preview) {
+				return res.status(404).json({ error: "Document not found." });
+			}
+			res.json({ preview });
+		} catch (err: any) {
+			fail(res, err, "preview document");
+		}
+	});
+
+	router.post("/:name", rawBody, async (req: Request, res: Response) => {
+		const { name } = req.params;
+		const content = uploadedContent(req);
+		if (!content) {
+			return res.status(400).json({
+				error: "Invalid document.",
+				issues: ["content: send the file as the body, or JSON { content } / { contentBase64 }"],
+			});
+		}
+		try {
+			if (await knowledgeBase.read(name)) {
+				return res.status(409).json({ error: `Document '${name}' already exists.` });
+			}
+			const document = await knowledgeBase.save(name, content);
+			log.info("Knowledge document uploaded", { name, size: document.size, by: req.user!.id });
+			res.status(201).json({ document });
+		} catch (err: any) {
+			fail(res, err, "upload document");
+		}
+	});
+
+	router.put("/:name", rawBody, async (req: Request, res: Response) => {
+		const { name } = req.params;
+		const content = uploadedContent(req);
+		if (!content) {
+			return res.status(400).json({
+				error: "Invalid document.",
+				issues: ["content: send the file as the body, or JSON { content } / { contentBase64 }"],
+			});
+		}
+		try {
+			if (!(await knowledgeBase.read(name))) {
+				return res.status(404).json({ error: "Document not found." });
+			}
+			const document = await knowledgeBase.save(name, content);
+			log.info("Knowledge document replaced", { name, size: document.size, by: req.user!.id });
+			res.json({ document });
+		} catch (err: any) {
+			fail(res, err, "replace document");
+		}
+	});
+
+	router.delete("/:name", async (req: Request, res: Response) => {
+		try {
+			const deleted = await knowledgeBase.remove(req.params.name);
+			if (!deleted) {
+				return res.status(404).json({ error: "Document not found." });
+			}
+			log.info("Knowledge document deleted", { name: req.params.name, by: req.user!.id });
+			res.status(204).end();
+		} catch (err: any) {
+			fail(res, err, "delete document");
+		}
+	});
+
+	return router;
+};
@@ -0,0 +1,200 @@
+import fs from "fs";
+import path from "path";
+import {
+	Content,
+	FunctionDeclaration,
+	GoogleGenerativeAI,
+	Part,
+	TaskType,
+} from "@google/generative-ai";
+import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import {
+	LLMMessage,
+	LLMResponse,
+	ToolResult,
+} from "./types/index.js";
+import {
+	FakeScriptEntry,
+	createFakeChatProvider,
+	createHashEmbedder,
+} from "./fakeProvider.js";
+
+/**
+ * One streamed model turn.
+ * `stream` yields text deltas; `response` resolves once the turn is complete.
+ */
+export interface LLMTurn {
+	stream: AsyncIterable<string>;
+	response: Promise<LLMResponse>;
+}
+
+export interface LLMChatSession {
+	/**
+	 * Sends a user message, or the results of the tool calls from the previous turn.
+	 * Aborting `signal` stops the generation; the stream then throws.
+	 */
+	send(message: string | ToolResult[], options?: { signal?: AbortSignal }): Promise<LLMTurn>;
+}
+
+export interface ChatProvider {
+	name: string;
+	startChat(options: {
+		history: LLMMessage[];
+		tools?: FunctionDeclaration[];
+	}): LLMChatSession;
+}
+
+/**
+ * Anything that turns text into vectors.
+ * LangChain's GoogleGenerativeAIEmbeddings already has this shape.
+ */
+export interface Embedder {
+	embedQuery(text: string): Promise<number[]>;
+	embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+export type ProviderName = "gemini" | "fake";
+
+export interface ProviderConfig {
+	llmProvider: ProviderName;
+	embeddingProvider: ProviderName;
+	googleApiKey?: string;
+	chatModel: string;
+	embeddingModel: string;
+	fakeScriptPath?: string;
+}
+
+const parseProviderName = (value: string, variable: string): ProviderName => {
+	if (value !== "gemini" && value !== "fake") {
+		throw new Error(`Invalid ${variable}: '${value}' (expected 'gemini' or 'fake')`);
+	}
+	return value;
+};
+
+/**
+ * Names the embedder for the ingest manifest: vectors from two embedders can't be mixed.
+ */
+export const embedderName = (config: ProviderConfig): string =>
+	config.embeddingProvider === "fake" ? "fake" : `gemini:${config.embeddingModel}`;
+
+/**
+ * Reads provider settings from the environment.
+ * LLM_PROVIDER / EMBEDDING_PROVIDER pick "gemini" (default) or "fake".
+ * GOOGLE_API_KEY is only required when a Gemini provider is selected.
+ */
+export function loadProviderConfig(
+	env: NodeJS.ProcessEnv = process.env
+): ProviderConfig {
+	const config: ProviderConfig = {
+		llmProvider: parseProviderName(env.LLM_PROVIDER || "gemini", "LLM_PROVIDER"),
+		embeddingProvider: parseProviderName(
+			env.EMBEDDING_PROVIDER || env.LLM_PROVIDER || "gemini",
+			"EMBEDDING_PROVIDER"
+		),
+		googleApiKey: env.GOOGLE_API_KEY,
+		chatModel: env.CHAT_MODEL || "gemini-2.0-flash",
+		embeddingModel: env.EMBEDDING_MODEL || "embedding-001",
+		fakeScriptPath: env.FAKE_LLM_SCRIPT,
+	};
+
+	const needsGoogle =
+		config.llmProvider === "gemini" || config.embeddingProvider === "gemini";
+	if (needsGoogle && !config.googleApiKey) {
+		throw new Error("Missing: GOOGLE_API_KEY");
+	}
+	return config;
+}
+
+/**
+ * Gemini chat provider.
+ * Keeps the history convention of the Gemini SDK: roles are "user" and "model".
+ */
+export const createGeminiChatProvider = (
+	apiKey: string,
+	model: string
+): ChatProvider => {
+	const genAI = new GoogleGenerativeAI(apiKey);
+	const chatModel = genAI.getGenerativeModel({ model });
+
+	return {
+		name: `gemini:${model}`,
+		startChat({ history, tools }) {
+			const session = chatModel.startChat({
+				history: history.map(
+					(m): Content => ({ role: m.role, parts: [{ text: m.text }] })
+				),
+				tools: tools?.length ? [{ functionDeclarations: tools }] : undefined,
+			});
+
+			return {
+				async send(message, options) {
+					const request: string | Part[] =
+						typeof message === "string"
+							? message
+							: message.map((r) => ({
+									functionResponse: { name: r.name, response: r.response },
+							  }));
+					const result = await session.sendMessageStream(request, { signal: options?.signal });
+
+					const stream = (async function* () {
+						for await (const chunk of result.stream) {
+							const text = chunk.text();
+							if (text) yield text; // Function-call-only chunks have no text
+						}
+					})();
+
+					const response = result.response.then((r) => ({
+						text: r.text(),
+						toolCalls: (r.functionCalls() || []).map((c) => ({
+							name: c.name,
+							args: (c.args || {}) as Record<string, any>,
+						})),
+						usage: r.usageMetadata && {
+							promptTokens: r.usageMetadata.promptTokenCount,
+							completionTokens: r.usageMetadata.candidatesTokenCount,
+							totalTokens: r.usageMetadata.totalTokenCount,
+						},
+					}));
+					// Callers only await this after the stream; don't crash if the stream failed first
+					response.catch(() => {});
+
+					return { stream, response };
+				},
+			};
+		},
+	};
+};
+
+/**
+ * Gemini embedder, through LangChain (same as ingestion has always used).
+ */
+export const createGeminiEmbedder = (apiKey: string, model: string): Embedder =>
+	new GoogleGenerativeAIEmbeddings({
+		apiKey,
+		model,
+		taskType: TaskType.SEMANTIC_SIMILARITY,
+	});
+
+/**
+ * Creates the configured chat provider.
+ */
+export function createChatProvider(config: ProviderConfig): ChatProvider {
+	if (config.llmProvider === "fake") {
+		const script: FakeScriptEntry[] = config.fakeScriptPath
+			? JSON.parse(fs.readFileSync(path.resolve(config.fakeScriptPath), "utf8"))
+			: [];
+		return createFakeChatProvider(script);
+	}
+	return createGeminiChatProvider(config.googleApiKey!, config.chatModel);
+}
+
+/**
+ * Creates the configured embedder.
+ * Note: vectors from different embedders are not comparable; re-ingest after switching.
+ */
+export function createEmbedder(config: ProviderConfig): Embedder {
+	if (config.embeddingProvider === "fake") {
+		return createHashEmbedder();
+	}
+	return createGeminiEmbedder(config.googleApiKey!, config.embeddingModel);
+}
@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { redactPii } from "./guardrails.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+// Cloud Logging reads "severity" and "message" out of JSON lines
+const SEVERITY: Record<LogLevel, string> = {
+	debug: "DEBUG",
+	info: "INFO",
+	warn: "WARNING",
+	error: "ERROR",
+};
+
+export interface Logger {
+	debug(message: string, fields?: Record<string, unknown>): void;
+	info(message: string, fields?: Record<string, unknown>): void;
+	warn(message: string, fields?: Record<string, unknown>): void;
+	error(message: string, fields?: Record<string, unknown>): void;
+}
+
+interface RequestContext {
+	requestId: string;
+	correlationId?: string; // The caller's X-Request-Id, if it sent one
+}
+
+// Carries the request id through every await, so deep code logs it without passing it around
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** The id of the request being handled, if any. */
+export const currentRequestId = () => requestContext.getStore()?.requestId;
+
+// Nested fields deeper than this are logged as they are
+const MAX_SCRUB_DEPTH = 5;
+
+// Errors don't survive JSON.stringify on their own; emails and phone numbers
+// (in queries, titles, error messages...) never reach the logs
+const serialize = (value: unknown, depth = 0): unknown => {
+	if (typeof value === "string") return redactPii(value);
+	if (value instanceof Error) {
+		return { message: redactPii(value.message), stack: value.stack && redactPii(value.stack) };
+	}
+	if (depth >= MAX_SCRUB_DEPTH || !value || typeof value !== "object") return value;
+	if (Array.isArray(value)) return value.map((v) => serialize(v, depth + 1));
+	// Plain objects only: a Date or a Buffer serializes itself
+	if (Object.getPrototypeOf(value) !== Object.prototype) return value;
+	return Object.fromEntries(
+		Object.entries(value).map(([key, v]) => [key, serialize(v, depth + 1)])
+	);
+};
+
+// Read on every line: the server loads .env after this module is imported
+const envLevel = (): LogLevel => {
+	const level = process.env.LOG_LEVEL as LogLevel | undefined;
+	return level && level in LEVELS ? level : "info";
+};
+
+/**
+ * Factory function to create a JSON-lines logger.
+ * Every line has time, severity, message and the current request id
+ * (plus the caller's X-Request-Id as correlationId, when it sent one).
+ * @param minLevel Lines below this level are dropped (default: LOG_LEVEL, else "info")
+ */
+export const createLogger = (minLevel?: LogLevel): Logger => {
+	const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+		if (LEVELS[level] < LEVELS[minLevel ?? envLevel()]) return;
+		const line: Record<string, unknown> = {
+			time: new Date().toISOString(),
+			severity: SEVERITY[level],
+			message: redactPii(message),
+			requestId: currentRequestId(),
+			correlationId: requestContext.getStore()?.correlationId,
+		};
+		for (const [key, value] of Object.entries(fields)) line[key] = serialize(value);
+		(level === "warn" || level === "error" ? console.error : console.log)(JSON.stringify(line));
+	};
+
+	return {
+		debug: (message, fields) => write("debug", message, fields),
+		info: (message, fields) => write("info", message, fields),
+		warn: (message, fields) => write("warn", message, fields),
+		error: (message, fields) => write("error", message, fields),
+	};
+};
+
+/** The app-wide logger (LOG_LEVEL=debug|info|warn|error). */
+export const log = createLogger();
+
+// A client- or proxy-supplied id is logged so logs line up across services
+const VALID_REQUEST_ID = /^[\w.-]{1,128}$/;
+
+/**
+ * Gives every request a new id, sends it in the X-Request-Id header and makes it
+ * visible to the logger. The id is always ours: stream resuming and feedback are
+ * keyed by it, so a client-chosen one could land on another user's.
+ * A sane incoming X-Request-Id is only logged, as correlationId.
+ */
+export const requestIdMiddleware = (req: Request, res: Response, next: NextFunction) => {
+	const incoming = req.get("X-Request-Id");
+	const correlationId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : undefined;
+	const requestId = randomUUID();
+	req.requestId = requestId;
+	res.setHeader("X-Request-Id", requestId);
+	requestContext.run({ requestId, correlationId }, next);
+};
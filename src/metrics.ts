@@ -0,0 +1,192 @@
+import { Request, Response, NextFunction } from "express";
+import { VectorStore } from "./vectorStore.js";
+
+type Labels = Record<string, string>;
+
+export interface Counter {
+	inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+	observe(labels: Labels, seconds: number): void;
+	/** Starts a timer; calling the result observes the elapsed seconds and returns them. */
+	startTimer(labels: Labels): () => number;
+}
+
+export interface MetricsRegistry {
+	counter(name: string, help: string): Counter;
+	histogram(name: string, help: string, buckets?: number[]): Histogram;
+	/** Everything in the Prometheus text exposition format. */
+	render(): string;
+}
+
+// Seconds. Goes up to a minute because a full chat stream can take that long.
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabel = (value: string) =>
+	value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) => {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map((key) => `${key}="${escapeLabel(labels[key])}"`);
+	return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+/**
+ * Factory function to create a small Prometheus registry (counters and histograms only).
+ * Series are keyed by their label set, so keep label values to a known, small set.
+ */
+export const createMetricsRegistry = (): MetricsRegistry => {
+	const renderers: (() => string[])[] = [];
+
+	return {
+		counter(name, help) {
+			const values = new Map<string, { labels: Labels; value: number }>();
+			renderers.push(() => [
+				`# HELP ${name} ${help}`,
+				`# TYPE ${name} counter`,
+				...[...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+			]);
+			return {
+				inc(labels = {}, value = 1) {
+					const key = formatLabels(labels);
+					const series = values.get(key) || { labels, value: 0 };
+					series.value += value;
+					values.set(key, series);
+				},
+			};
+		},
+
+		histogram(name, help, buckets = DEFAULT_BUCKETS) {
+			const bounds = [...buckets].sort((a, b) => a - b);
+			const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+			renderers.push(() => {
+				const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+				for (const { labels, counts, sum, count } of series.values()) {
+					bounds.forEach((le, i) => {
+						lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`);
+					});
+					lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+					lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+					lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+				}
+				return lines;
+			});
+
+			const observe = (labels: Labels, seconds: number) => {
+				const key = formatLabels(labels);
+				let s = series.get(key);
+				if (!s) {
+					s = { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+					series.set(key, s);
+				}
+				// Buckets are cumulative: a value counts in every bucket it fits under
+				bounds.forEach((le, i) => {
+					if (seconds <= le) s!.counts[i]++;
+				});
+				s.sum += seconds;
+				s.count++;
+			};
+
+			return {
+				observe,
+				startTimer(labels) {
+					const start = process.hrtime.bigint();
+					return () => {
+						const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+						observe(labels, seconds);
+						return seconds;
+					};
+				},
+			};
+		},
+
+		render() {
+			return renderers.flatMap((r) => r()).join("\n") + "\n";
+		},
+	};
+};
+
+/**
+ * The stages of a request we time (see /metrics):
+ * auth, search_city, embedding, vector_search (the Supabase RPC),
+ * retrieval (vector + keyword), first_token and stream.
+ */
+export type Stage =
+	| "auth"
+	| "search_city"
+	| "embedding"
+	| "vector_search"
+	| "retrieval"
+	| "first_token"
+	| "stream";
+
+export interface AppMetrics {
+	registry: MetricsRegistry;
+	httpDuration: Histogram;
+	stageDuration: Histogram;
+	/** Failures by where they happened (a stage, or e.g. "quota"). */
+	errors: Counter;
+	/** Chat questions refused by the guardrails, by reason. */
+	guardrailBlocks: Counter;
+}
+
+/**
+ * Factory function to create the app's metrics. One set per app, so tests don't share counters.
+ */
+export const createAppMetrics = (): AppMetrics => {
+	const registry = createMetricsRegistry();
+	return {
+		registry,
+		httpDuration: registry.histogram(
+			"http_request_duration_seconds",
+			"HTTP request duration by method, route and status."
+		),
+		stageDuration: registry.histogram(
+			"request_stage_duration_seconds",
+			"Time spent in each stage of handling a request."
+		),
+		errors: registry.counter("errors_total", "Errors by the stage they happened in."),
+		guardrailBlocks: registry.counter(
+			"guardrail_blocks_total",
+			"Chat questions refused by the guardrails, by reason."
+		),
+	};
+};
+
+/**
+ * Times every request. The route label is the Express route pattern
+ * ("/api/cities/:city"), never the raw URL, so ids can't blow up the series count.
+ */
+export const createHttpMetricsMiddleware = (metrics: AppMetrics) => {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const start = process.hrtime.bigint();
+		res.on("finish", () => {
+			const route = req.route ? `${req.baseUrl}${req.route.path}` : req.baseUrl || "unmatched";
+			metrics.httpDuration.observe(
+				{ method: req.method, route, status: String(res.statusCode) },
+				Number(process.hrtime.bigint() - start) / 1e9
+			);
+		});
+		next();
+	};
+};
+
+/**
+ * Wraps a vector store so every similarity search (the Supabase RPC) is timed.
+ */
+export const instrumentVectorStore = (store: VectorStore, metrics: AppMetrics): VectorStore => ({
+	...store,
+	async search(queryEmbedding, matchCount) {
+		const done = metrics.stageDuration.startTimer({ stage: "vector_search" });
+		try {
+			return await store.search(queryEmbedding, matchCount);
+		} catch (err) {
+			metrics.errors.inc({ stage: "vector_search" });
+			throw err;
+		} finally {
+			done();
+		}
+	},
+});
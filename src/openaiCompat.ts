@@ -0,0 +1,245 @@
+import { Response } from "express";
+import {
+	ChatRequest,
+	ChatResult,
+	ChatStreamEvent,
+	ChatStreamEvents,
+	LLMMessage,
+	TokenUsage,
+} from "./types/index.js";
+import { ChatStream } from "./sse.js";
+import { collectChatEvents } from "./chatResponses.js";
+
+// --- REQUEST ---
+// The subset of OpenAI's chat completions request that maps onto our pipeline.
+// Sampling options (temperature, max_tokens...) are accepted and ignored.
+
+export interface ChatCompletionRequest {
+	chat: ChatRequest;
+	model: string;
+	stream: boolean;
+	includeUsage: boolean; // stream_options.include_usage
+}
+
+export type OpenAIErrorType = "invalid_request_error" | "not_found_error" | "server_error";
+
+/**
+ * Model ids mirror promptVersion: "<persona>[@<version>][/<language>]",
+ * e.g. "pixie", "pixie@1" or "pixie@1/hinglish".
+ */
+export function parseModel(model: string): Pick<ChatRequest, "persona" | "promptVersion" | "language"> {
+	const [name, language] = model.split("/", 2);
+	const [persona, version] = name.split("@", 2);
+	return {
+		persona,
+		...(version !== undefined && { promptVersion: /^\d+$/.test(version) ? Number(version) : NaN }),
+		...(language !== undefined && { language }),
+	};
+}
+
+/** A message's text: a plain string, or the text parts of a content array. */
+function messageText(content: unknown): string | null {
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return null;
+	const parts = content.filter((p) => p?.type === "text" && typeof p.text === "string");
+	return parts.length === content.length ? parts.map((p) => p.text).join("\n") : null;
+}
+
+/**
+ * Turns a /v1/chat/completions body into a pipeline request.
+ * The last message is the question; earlier user and assistant turns are the history.
+ * System and developer messages are dropped: the persona's prompt is the system prompt.
+ * Stateless like OpenAI's: nothing is saved, unless `conversation_id` (our extension)
+ * continues one of the user's saved conversations.
+ */
+export function parseChatCompletionRequest(
+	body: Record<string, any>
+): { request: ChatCompletionRequest | null; issues: string[] } {
+	const issues: string[] = [];
+	if (typeof body.model !== "string" || !body.model) issues.push("model: must be a non-empty string");
+	if (body.stream !== undefined && body.stream !== null && typeof body.stream !== "boolean") {
+		issues.push("stream: must be a boolean");
+	}
+	if (body.n !== undefined && body.n !== null && body.n !== 1) issues.push("n: only 1 is supported");
+	if (body.conversation_id !== undefined && typeof body.conversation_id !== "string") {
+		issues.push("conversation_id: must be a string");
+	}
+
+	const turns: LLMMessage[] = [];
+	if (!Array.isArray(body.messages) || !body.messages.length) {
+		issues.push("messages: must be a non-empty array");
+	} else {
+		body.messages.forEach((m: any, i: number) => {
+			const text = messageText(m?.content);
+			if (text === null) {
+				issues.push(`messages[${i}].content: must be a string or an array of text parts`);
+			} else if (m.role === "user" || m.role === "assistant") {
+				turns.push({ role: m.role === "user" ? "user" : "model", text });
+			} else if (m.role !== "system" && m.role !== "developer") {
+				issues.push(`messages[${i}].role: must be one of system, developer, user, assistant`);
+			}
+		});
+	}
+	const question = turns.pop();
+	if (!issues.length && (question?.role !== "user" || !question.text.trim())) {
+		issues.push("messages: the last message must be a non-empty user message");
+	}
+
+	if (issues.length) return { request: null, issues };
+	return {
+		request: {
+			chat: {
+				query: question!.text,
+				...(body.conversation_id ? { conversationId: body.conversation_id } : { stateless: true }),
+				...parseModel(body.model),
+				history: turns,
+			},
+			model: body.model,
+			stream: body.stream === true,
+			includeUsage: body.stream_options?.include_usage === true,
+		},
+		issues,
+	};
+}
+
+// --- RESPONSES ---
+
+/** OpenAI's error body: { error: { message, type, param, code } }. */
+export const sendOpenAIError = (
+	res: Response,
+	status: number,
+	message: string,
+	type: OpenAIErrorType,
+	param: string | null = null
+) => res.status(status).json({ error: { message, type, param, code: null } });
+
+const toOpenAIUsage = (usage: TokenUsage | undefined) => ({
+	prompt_tokens: usage?.promptTokens ?? 0,
+	completion_tokens: usage?.completionTokens ?? 0,
+	total_tokens: usage?.totalTokens ?? 0,
+});
+
+// A guardrail refusal is the closest thing we have to OpenAI's content filter
+const finishReason = (meta: ChatStreamEvents["meta"] | undefined) =>
+	meta?.blocked ? "content_filter" : "stop";
+
+interface CompletionInfo {
+	id: string; // "chatcmpl-<requestId>"
+	model: string;
+	created: number; // Unix seconds
+}
+
+/**
+ * A non-streaming chat.completion, sent once the answer is complete.
+ * Extra fields: `sources`, and `conversation_id` when continuing a saved conversation;
+ * standard clients ignore both.
+ */
+export const createCompletionResponse = (res: Response, info: CompletionInfo): ChatStream =>
+	collectChatEvents(res, (result: ChatResult) => {
+		if (result.error) return sendOpenAIError(res, 500, result.error, "server_error");
+		res.json({
+			id: info.id,
+			object: "chat.completion",
+			created: info.created,
+			model: info.model,
+			choices: [
+				{
+					index: 0,
+					message: { role: "assistant", content: result.answer },
+					finish_reason: finishReason(result.meta),
+				},
+			],
+			usage: toOpenAIUsage(result.usage),
+			conversation_id: result.meta?.conversationId,
+			sources: result.sources,
+		});
+	});
+
+/**
+ * A streaming response of chat.completion.chunk events, ending with `data: [DONE]`.
+ * The first chunk carries the role, plus `sources` (and `conversation_id`, as above).
+ * With include_usage, a last chunk with no choices carries the token usage.
+ * There's no resuming (OpenAI has none): a client that leaves aborts the generation.
+ */
+export const createCompletionStream = (
+	res: Response,
+	info: CompletionInfo & { includeUsage: boolean }
+): ChatStream => {
+	const controller = new AbortController();
+	let finished = false;
+	let meta: ChatStreamEvents["meta"] | undefined;
+	let usage: TokenUsage | undefined;
+
+	res.setHeader("Content-Type", "text/event-stream");
+	res.setHeader("Cache-Control", "no-cache");
+	res.setHeader("Connection", "keep-alive");
+	res.flushHeaders();
+	res.on("close", () => {
+		if (!finished) controller.abort();
+	});
+
+	const write = (data: object | string) =>
+		res.write(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`);
+	const chunk = (delta: object, finish: string | null = null, extra: object = {}) =>
+		write({
+			id: info.id,
+			object: "chat.completion.chunk",
+			created: info.created,
+			model: info.model,
+			choices: [{ index: 0, delta, finish_reason: finish }],
+			...extra,
+		});
+
+	const finish = () => {
+		finished = true;
+		res.end();
+	};
+
+	return {
+		signal: controller.signal,
+		send(event, data) {
+			if (finished) return;
+			const e = { event, data } as ChatStreamEvent;
+			switch (e.event) {
+				case "meta":
+					meta = e.data;
+					break;
+				case "sources":
+					chunk({ role: "assistant", content: "" }, null, {
+						conversation_id: meta?.conversationId,
+						sources: e.data,
+					});
+					break;
+				case "delta":
+					chunk({ content: e.data.text });
+					break;
+				case "usage":
+					usage = e.data;
+					break;
+				case "done":
+					chunk({}, finishReason(meta));
+					if (info.includeUsage) {
+						write({
+							id: info.id,
+							object: "chat.completion.chunk",
+							created: info.created,
+							model: info.model,
+							choices: [],
+							usage: toOpenAIUsage(usage),
+						});
+					}
+					write("[DONE]");
+					break;
+				case "error":
+					// Same shape as a non-streaming error; clients raise it
+					write({ error: { message: e.data.error, type: "server_error", param: null, code: null } });
+					finish();
+					break;
+				// Tool calls are ours (city data, estimates), not the client's
+			}
+		},
+		end() {
+			if (!finished) finish();
+		},
+	};
+};
@@ -0,0 +1,89 @@
+import { Router, Request, Response, RequestHandler } from "express";
+import { PromptRegistry } from "./promptRegistry.js";
+import { log } from "./logger.js";
+import { ChatChecker, ChatFailure, ChatRunner, isChatFailure } from "./chatResponses.js";
+import {
+	ChatCompletionRequest,
+	createCompletionResponse,
+	createCompletionStream,
+	parseChatCompletionRequest,
+	sendOpenAIError,
+} from "./openaiCompat.js";
+
+/**
+ * Factory function to create the OpenAI-compatible routes, so standard client
+ * libraries can talk to Pixie: point them at <server>/v1 with an API key or user token.
+ * Answers go through the same pipeline as /api/chat.
+ * @param checkChat Checks the prompt selection and conversation, before the quota
+ * @param runChat The chat pipeline
+ * @param prompts The personas, which are the models
+ * @param quota Runs before /chat/completions (once the body checks out), which calls the model
+ * @returns An Express router for /v1.
+ */
+export const createOpenAIRouter = (
+	checkChat: ChatChecker,
+	runChat: ChatRunner,
+	prompts: PromptRegistry,
+	quota?: RequestHandler
+): Router => {
+	const router = Router();
+
+	// One model per persona, and one per persona version
+	router.get("/models", (req: Request, res: Response) => {
+		const data = prompts.list().personas.flatMap(({ persona, versions }) => [
+			persona,
+			...versions.map((v) => `${persona}@${v}`),
+		]);
+		res.json({
+			object: "list",
+			data: data.map((id) => ({ id, object: "model", created: 0, owned_by: "ghumakkad" })),
+		});
+	});
+
+	const sendFailure = (res: Response, { status, body }: ChatFailure) => {
+		// A bad persona, version or language is a bad model id
+		const param = body.issues ? "model" : status === 404 ? "conversation_id" : null;
+		const type = status === 404 ? "not_found_error" : status < 500 ? "invalid_request_error" : "server_error";
+		const message = [body.error || "The server had an error while answering.", ...(body.issues || [])].join(" ");
+		sendOpenAIError(res, status, message, type, param);
+	};
+
+	// Checked before the quota, so a request that can't be answered doesn't use one up
+	const parseBody: RequestHandler = async (req, res, next) => {
+		const { request, issues } = parseChatCompletionRequest(req.body || {});
+		if (!request) {
+			const [first] = issues;
+			return sendOpenAIError(res, 400, issues.join("; "), "invalid_request_error", first.split(/[.:[]/)[0]);
+		}
+		try {
+			const checked = await checkChat(req, request.chat);
+			if (isChatFailure(checked)) return sendFailure(res, checked);
+			res.locals.completion = request;
+			res.locals.chat = checked;
+			next();
+		} catch (err: any) {
+			log.error("ERROR while checking a chat completion request", { error: err });
+			sendFailure(res, { status: 500, body: {} });
+		}
+	};
+
+	const completionHandlers: RequestHandler[] = quota ? [parseBody, quota] : [parseBody];
+	router.post("/chat/completions", ...completionHandlers, async (req: Request, res: Response) => {
+		const request: ChatCompletionRequest = res.locals.completion;
+
+		const info = {
+			id: `chatcmpl-${req.requestId}`,
+			model: request.model,
+			created: Math.floor(Date.now() / 1000),
+		};
+		await runChat(req, res.locals.chat, {
+			open: () =>
+				request.stream
+					? createCompletionStream(res, { ...info, includeUsage: request.includeUsage })
+					: createCompletionResponse(res, info),
+			fail: (status, body) => sendFailure(res, { status, body }),
+		});
+	});
+
+	return router;
+};
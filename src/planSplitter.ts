@@ -0,0 +1,192 @@
+/**
+ * Splits travel plans along their own structure instead of every N characters:
+ * a chunk is one attraction ("🏰 1. Hawa Mahal" with its Timings / Entry Fee /
+ * Location block), one Day intro or one other section, and only falls back to
+ * paragraph-by-paragraph splitting when a section is too long.
+ */
+
+export interface PlanChunkMetadata {
+	day?: number;
+	dayTitle?: string; // "The City Vibe – Palaces, Culture & Pink Streets"
+	attraction?: string; // "Hawa Mahal (Palace of Winds)"
+	attractionNumber?: number;
+	section?: string; // The nearest heading, of any kind
+}
+
+export interface PlanChunk {
+	content: string;
+	metadata: PlanChunkMetadata;
+}
+
+export interface SplitOptions {
+	/** Sections longer than this (characters) are split between paragraphs. */
+	maxChunkSize: number;
+	/** Chunks this short or shorter carry no information and are dropped. */
+	minChunkSize: number;
+}
+
+export const defaultSplitOptions: SplitOptions = {
+	maxChunkSize: 900,
+	minChunkSize: 15,
+};
+
+// Stored in the ingest manifest: when the splitting changes, everything is re-chunked
+export const SPLITTER_VERSION = "plan-sections@1";
+
+// Headings are short; a long numbered line is a list item in a paragraph
+const MAX_HEADING_LENGTH = 100;
+const MAX_SUBHEADING_LENGTH = 60;
+
+// Leading emoji, bullets and other decoration before the text of a line
+const DECORATION = "[^\\p{L}\\p{N}#]*";
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+const DAY_HEADING = new RegExp(`^${DECORATION}Day\\s*(\\d{1,2})\\b\\s*[:.–—-]?\\s*(.*)$`, "iu");
+const NUMBERED_HEADING = new RegExp(`^${DECORATION}(\\d{1,2})[.)]\\s+(\\S.*)$`, "u");
+const EMOJI_LED = /^\p{Extended_Pictographic}/u;
+
+type Heading =
+	| { kind: "day"; day: number; title: string }
+	| { kind: "attraction"; number: number; name: string }
+	| { kind: "section"; title: string };
+
+/** Drops the emoji / bullets in front of a line's text and collapses whitespace. */
+export const stripDecoration = (text: string) =>
+	text.replace(new RegExp(`^${DECORATION}`, "u"), "").replace(/\s+/g, " ").trim();
+
+/**
+ * Is this line a heading, and of which kind?
+ * Plain-text plans mark headings with an emoji and a number ("🏰 1. Hawa Mahal");
+ * an unnumbered emoji line only counts if it stands alone between blank lines.
+ */
+function parseHeading(line: string, standsAlone: boolean): Heading | null {
+	const markdown = line.match(MARKDOWN_HEADING);
+	const text = (markdown ? markdown[2] : line).trim();
+	if (!text || text.length > MAX_HEADING_LENGTH) return null;
+
+	const day = text.match(DAY_HEADING);
+	if (day) return { kind: "day", day: Number(day[1]), title: stripDecoration(day[2]) };
+
+	const numbered = text.match(NUMBERED_HEADING);
+	// "1. Go early." is a step in a list, not a heading
+	if (numbered && !/[.!?:;,]$/.test(numbered[2])) {
+		return { kind: "attraction", number: Number(numbered[1]), name: stripDecoration(numbered[2]) };
+	}
+
+	if (markdown) return { kind: "section", title: stripDecoration(text) };
+	if (
+		standsAlone &&
+		EMOJI_LED.test(text) &&
+		text.length <= MAX_SUBHEADING_LENGTH &&
+		!/[:.!?]/.test(stripDecoration(text).slice(-1)) &&
+		!text.includes(":")
+	) {
+		return { kind: "section", title: stripDecoration(text) };
+	}
+	return null;
+}
+
+interface Section {
+	heading: string | null; // The heading line as written (without "#" marks)
+	metadata: PlanChunkMetadata;
+	lines: string[];
+}
+
+// Greedy packing of paragraphs (then lines, then hard cuts) into pieces of at most `max`
+function packParagraphs(body: string, max: number): string[] {
+	const pieces: string[] = [];
+	let current = "";
+	const push = (part: string, separator: string) => {
+		if (current && current.length + separator.length + part.length > max) {
+			pieces.push(current);
+			current = "";
+		}
+		current = current ? current + separator + part : part;
+	};
+	for (const paragraph of body.split(/\n\s*\n/)) {
+		if (paragraph.length <= max) {
+			push(paragraph, "\n\n");
+			continue;
+		}
+		for (const line of paragraph.split("\n")) {
+			if (line.length <= max) {
+				push(line, "\n");
+				continue;
+			}
+			for (let i = 0; i < line.length; i += max) push(line.slice(i, i + max), "\n");
+		}
+	}
+	if (current) pieces.push(current);
+	return pieces;
+}
+
+/**
+ * Splits one plan into chunks with day / attraction / section metadata.
+ * Every chunk starts with its heading (and its Day heading, if it's inside one),
+ * so a piece of a long section still says what it is about.
+ * @param text The plan as plain text (see loadKnowledgeFile)
+ * @param options Chunk size limits
+ */
+export function splitPlan(text: string, options: Partial<SplitOptions> = {}): PlanChunk[] {
+	const { maxChunkSize, minChunkSize } = { ...defaultSplitOptions, ...options };
+	const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+	// 1. Cut the text into sections at every heading
+	const sections: Section[] = [];
+	// The Day we're in, and its heading level (0 = plain text, else the number of "#")
+	let day: { day: number; title: string; level: number } | null = null;
+	let current: Section = { heading: null, metadata: {}, lines: [] };
+	lines.forEach((raw, i) => {
+		const standsAlone = !lines[i - 1]?.trim() && !lines[i + 1]?.trim();
+		const heading = parseHeading(raw.trim(), standsAlone);
+		if (!heading) {
+			current.lines.push(raw);
+			return;
+		}
+		sections.push(current);
+		const level = raw.trim().match(MARKDOWN_HEADING)?.[1].length ?? 0;
+		const line = raw.trim().replace(MARKDOWN_HEADING, "$2");
+		if (heading.kind === "day") {
+			day = { day: heading.day, title: heading.title, level };
+		} else if (heading.kind === "section" && day) {
+			// "💖 Itinerary at a Glance" after the days, or a "##" next to the "## Day" headings
+			if (day.level === 0 ? level === 0 : level > 0 && level <= day.level) day = null;
+		}
+		const inDay: PlanChunkMetadata = day
+			? { day: day.day, ...(day.title && { dayTitle: day.title }) }
+			: {};
+		current = {
+			heading: line,
+			metadata:
+				heading.kind === "attraction"
+					? { ...inDay, attraction: heading.name, attractionNumber: heading.number, section: heading.name }
+					: { ...inDay, section: heading.kind === "day" ? stripDecoration(line) : heading.title },
+			lines: [],
+		};
+	});
+	sections.push(current);
+
+	// 2. One chunk per section, or several if it's too long
+	const chunks: PlanChunk[] = [];
+	let dayLine: string | null = null;
+	for (const section of sections) {
+		if (section.metadata.day === undefined) dayLine = null;
+		const isDayHeading = section.heading !== null && DAY_HEADING.test(section.heading);
+		if (isDayHeading) dayLine = section.heading;
+
+		const body = section.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+		if (!body) continue; // Heading-only sections live on in the prefix
+
+		const prefix = [
+			!isDayHeading && dayLine,
+			section.heading,
+		].filter(Boolean).join("\n");
+		const room = Math.max(maxChunkSize - prefix.length - 2, minChunkSize + 1);
+		for (const piece of packParagraphs(body, room)) {
+			const content = prefix ? `${prefix}\n\n${piece}` : piece;
+			if (content.trim().length > minChunkSize) {
+				chunks.push({ content, metadata: { ...section.metadata } });
+			}
+		}
+	}
+	return chunks;
+}
@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import { PromptLanguage, PromptSelection, PromptTemplate } from "./types/index.js";
+
+/**
+ * Thrown when a request asks for a persona, language or version we don't have.
+ * `issues` has one readable line per problem.
+ */
+export class PromptSelectionError extends Error {
+	issues: string[];
+
+	constructor(issues: string[]) {
+		super(`Invalid prompt selection: ${issues.join("; ")}`);
+		this.name = "PromptSelectionError";
+		this.issues = issues;
+	}
+}
+
+export interface PromptRegistry {
+	readonly defaultPersona: string;
+	readonly defaultLanguage: string;
+	/** Everything a client can choose from. */
+	list(): {
+		defaultPersona: string;
+		defaultLanguage: string;
+		personas: { persona: string; description: string; versions: number[]; latest: number }[];
+		languages: { code: string; name: string }[];
+	};
+	/**
+	 * Picks a template and language. Unset fields fall back to the defaults and
+	 * the persona's latest version. Throws PromptSelectionError.
+	 */
+	select(request: { persona?: unknown; language?: unknown; version?: unknown }): PromptSelection;
+	/** The full system prompt for a selection, with the context filled in. */
+	render(selection: PromptSelection, context: string): string;
+}
+
+/**
+ * Splits a "---" header of `key: value` lines off the top of a file.
+ */
+function parseHeader(text: string): { header: Record<string, string>; body: string } {
+	const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+	if (!match) return { header: {}, body: text };
+	const header: Record<string, string> = {};
+	for (const line of match[1].split(/\r?\n/)) {
+		const i = line.indexOf(":");
+		if (i > 0) header[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+	}
+	return { header, body: text.slice(match[0].length) };
+}
+
+/**
+ * Loads the prompt templates from a folder laid out as:
+ *   registry.json            defaults and languages
+ *   <persona>/v<N>.md        one file per version
+ * Throws if anything is malformed, so a bad prompt fails startup.
+ * @param dir The prompts folder
+ */
+export const loadPromptRegistry = (dir: string): PromptRegistry => {
+	const root = path.resolve(dir);
+	const config = JSON.parse(fs.readFileSync(path.join(root, "registry.json"), "utf8"));
+
+	// 1. Languages
+	const languages = new Map<string, PromptLanguage>();
+	for (const [code, value] of Object.entries<any>(config.languages || {})) {
+		for (const field of ["name", "instruction", "refusal"]) {
+			if (typeof value?.[field] !== "string") {
+				throw new Error(`${root}/registry.json: languages.${code}.${field} must be a string`);
+			}
+		}
+		languages.set(code, { code, name: value.name, instruction: value.instruction, refusal: value.refusal });
+	}
+
+	// 2. Templates, newest version first
+	const personas = new Map<string, PromptTemplate[]>();
+	for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+		if (!entry.isDirectory()) continue;
+		const versions: PromptTemplate[] = [];
+		for (const file of fs.readdirSync(path.join(root, entry.name))) {
+			const version = file.match(/^v(\d+)\.md$/)?.[1];
+			if (!version) continue;
+			const where = `${root}/${entry.name}/${file}`;
+			const { header, body } = parseHeader(fs.readFileSync(path.join(root, entry.name, file), "utf8"));
+			if (!body.includes("{context}")) throw new Error(`${where}: template has no {context}`);
+			if (!header.ack) throw new Error(`${where}: header needs an "ack" line`);
+			const allowed = header.languages ? header.languages.split(",").map((l) => l.trim()) : null;
+			const unknown = allowed?.find((l) => !languages.has(l));
+			if (unknown) throw new Error(`${where}: unknown language '${unknown}'`);
+			versions.push({
+				persona: entry.name,
+				version: Number(version),
+				description: header.description || "",
+				ack: header.ack,
+				languages: allowed,
+				body,
+			});
+		}
+		if (versions.length) personas.set(entry.name, versions.sort((a, b) => b.version - a.version));
+	}
+
+	const defaultPersona: string = config.defaultPersona;
+	const defaultLanguage: string = config.defaultLanguage;
+	if (!personas.has(defaultPersona)) throw new Error(`${root}: default persona '${defaultPersona}' not found`);
+	if (!languages.has(defaultLanguage)) throw new Error(`${root}: default language '${defaultLanguage}' not found`);
+
+	return {
+		defaultPersona,
+		defaultLanguage,
+
+		list() {
+			return {
+				defaultPersona,
+				defaultLanguage,
+				personas: [...personas.values()].map((versions) => ({
+					persona: versions[0].persona,
+					description: versions[0].description,
+					versions: versions.map((t) => t.version),
+					latest: versions[0].version,
+				})),
+				languages: [...languages.values()].map(({ code, name }) => ({ code, name })),
+			};
+		},
+
+		select({ persona = defaultPersona, language = defaultLanguage, version }) {
+			const issues: string[] = [];
+			const versions = typeof persona === "string" ? personas.get(persona) : undefined;
+			if (!versions) {
+				issues.push(`persona: must be one of ${[...personas.keys()].join(", ")}`);
+			}
+			const lang = typeof language === "string" ? languages.get(language) : undefined;
+			if (!lang) {
+				issues.push(`language: must be one of ${[...languages.keys()].join(", ")}`);
+			}
+			let template = versions?.[0];
+			if (versions && version !== undefined) {
+				template = versions.find((t) => t.version === version);
+				if (!template) {
+					issues.push(`promptVersion: ${persona} has versions ${versions.map((t) => t.version).join(", ")}`);
+				}
+			}
+			if (template && lang && template.languages && !template.languages.includes(lang.code)) {
+				issues.push(`language: ${template.persona} speaks ${template.languages.join(", ")}`);
+			}
+			if (issues.length || !template || !lang) throw new PromptSelectionError(issues);
+
+			return {
+				template,
+				language: lang,
+				id: `${template.persona}@${template.version}/${lang.code}`,
+			};
+		},
+
+		render({ template, language }, context) {
+			// One pass, so a placeholder inside the context is never expanded
+			return template.body.replace(/\{(context|language|refusal)\}/g, (_, key) =>
+				key === "context" ? context : key === "language" ? language.instruction : language.refusal
+			);
+		},
+	};
+};
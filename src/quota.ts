@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from "express";
+import { User } from "@supabase/supabase-js";
+import { DailyUsage, PlanLimits } from "./types/index.js";
+import { UsageStore, usageDay } from "./usageStore.js";
+import { log } from "./logger.js";
+
+/**
+ * Daily quotas per plan. A user's plan is `app_metadata.plan` in Supabase
+ * (set with the service key); anyone without one is on "free".
+ */
+export const defaultPlans: Record<string, PlanLimits> = {
+	free: { requestsPerDay: 50, tokensPerDay: 100_000 },
+	plus: { requestsPerDay: 300, tokensPerDay: 750_000 },
+	pro: { requestsPerDay: 2000, tokensPerDay: 5_000_000 },
+};
+
+export const DEFAULT_PLAN = "free";
+
+export const planOf = (user: User | undefined, plans: Record<string, PlanLimits>) => {
+	const plan = user?.app_metadata?.plan;
+	return typeof plan === "string" && plans[plan] ? plan : DEFAULT_PLAN;
+};
+
+/** When today's counters reset: the next midnight, UTC. */
+export const quotaResetsAt = (now = new Date()) =>
+	new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+export interface QuotaStatus {
+	plan: string;
+	limits: PlanLimits;
+	usage: DailyUsage;
+	remaining: { requests: number; tokens: number };
+	resetsAt: string;
+}
+
+export const quotaStatus = (plan: string, limits: PlanLimits, usage: DailyUsage): QuotaStatus => ({
+	plan,
+	limits,
+	usage,
+	remaining: {
+		requests: Math.max(limits.requestsPerDay - usage.requests, 0),
+		tokens: Math.max(limits.tokensPerDay - usage.totalTokens, 0),
+	},
+	resetsAt: quotaResetsAt().toISOString(),
+});
+
+/**
+ * Factory function to create the daily quota middleware.
+ * Counts the request up front; tokens are added by the handler once it knows them.
+ * Must run after the auth middleware.
+ * @param usageStore Where the counters live
+ * @param plans Limits per plan name
+ */
+export const createQuotaMiddleware = (
+	usageStore: UsageStore,
+	plans: Record<string, PlanLimits> = defaultPlans
+) => {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		const userId = req.user!.id;
+		const plan = planOf(req.user, plans);
+		const day = usageDay();
+
+		let usage: DailyUsage;
+		try {
+			usage = await usageStore.get(userId, day);
+		} catch (err: any) {
+			// Don't lock everyone out because the usage table is down
+			log.error("Usage lookup failed, skipping quota check", { error: err.message });
+			return next();
+		}
+
+		const status = quotaStatus(plan, plans[plan], usage);
+		const over = !status.remaining.requests ? "requests" : !status.remaining.tokens ? "tokens" : null;
+		if (over) {
+			res.setHeader(
+				"Retry-After",
+				Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000)
+			);
+			return res.status(429).json({
+				error: `Daily ${over === "requests" ? "request" : "token"} limit reached for the ${plan} plan.`,
+				reply:
+					over === "requests"
+						? "Aiyoo! 🙈 Aaj ke saare sawaal khatam ho gaye! Pixie thoda aaram kar leti hai, kal phir milte hain trip plan karne! 🌙✨"
+						: "Uff! 😵‍💫 Aaj Pixie ne itna bol diya ki dimaag ki battery low ho gayi! Kal fresh hoke milte hain, pakka! 🔋💖",
+				...status,
+			});
+		}
+
+		try {
+			await usageStore.record(userId, day, { requests: 1 });
+		} catch (err: any) {
+			log.error("Failed to record usage", { error: err.message });
+		}
+		next();
+	};
+};
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { Bm25Index, buildBm25Index } from "./bm25.js";
+import { VectorStore } from "./vectorStore.js";
+import { StoredChunk } from "./types/index.js";
+import { cityFromSource, estimateTokens, isSameCityName } from "./utils.js";
+
+export interface RetrievalOptions {
+	/** How many candidates each ranker (vector, keyword) contributes. */
+	candidateCount: number;
+	/** Vector hits below this cosine similarity are dropped. */
+	minSimilarity: number;
+	/** Keyword-only hits must score at least this fraction of the best keyword hit. */
+	minKeywordRatio: number;
+	/** Max (estimated) tokens of chunk text handed to the model. */
+	tokenBudget: number;
+	/** Reciprocal rank fusion constant. */
+	rrfK: number;
+	/** Extra fused score for chunks about a city the query is about. */
+	cityBoost: number;
+	/** How long the keyword index is reused before re-reading the store. */
+	corpusTtlMs: number;
+}
+
+export const defaultRetrievalOptions: RetrievalOptions = {
+	candidateCount: 20,
+	minSimilarity: 0.5,
+	minKeywordRatio: 0.5,
+	tokenBudget: 1200,
+	rrfK: 60,
+	cityBoost: 1 / 60, // Worth as much as a first place in one ranker
+	corpusTtlMs: 5 * 60 * 1000,
+};
+
+export interface RetrievedChunk extends StoredChunk {
+	city: string;
+	/** Cosine similarity, or null if only the keyword ranker found it. */
+	similarity: number | null;
+	keywordScore: number;
+	score: number;
+}
+
+export interface Retriever {
+	/**
+	 * Hybrid search: vector + BM25, fused with RRF, then city-filtered,
+	 * deduplicated and cut to the token budget.
+	 * @param query The user's question
+	 * @param queryVector The embedded question
+	 * @param cities Lowercase city names the query is known to be about (e.g. from searchCity)
+	 */
+	retrieve(
+		query: string,
+		queryVector: number[],
+		cities?: string[]
+	): Promise<RetrievedChunk[]>;
+	/**
+	 * Fingerprint of the chunks in the store (as of the last corpus load).
+	 * Changes when ingestion adds, edits or removes chunks.
+	 * Only waits for a load when nothing is loaded yet; a due reload runs in the background.
+	 */
+	version(): Promise<string>;
+	/** Drops the cached keyword index, e.g. after ingestion. */
+	refresh(): void;
+}
+
+interface Corpus {
+	loadedAt: number;
+	version: string;
+	chunks: Map<string, StoredChunk & { city: string }>;
+	index: Bm25Index;
+	cities: Set<string>;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+/**
+ * Factory function to create the hybrid retriever.
+ * @param vectorStore Where the chunks live
+ * @param options Overrides for defaultRetrievalOptions
+ */
+export const createRetriever = (
+	vectorStore: VectorStore,
+	options: Partial<RetrievalOptions> = {}
+): Retriever => {
+	const opts = { ...defaultRetrievalOptions, ...options };
+	let corpus: Promise<Corpus> | null = null;
+	let latest: Corpus | null = null; // The last corpus that finished loading
+
+	const loadCorpus = async (): Promise<Corpus> => {
+		const list = await vectorStore.list();
+		const chunks = new Map(
+			list.map((c) => [
+				c.id,
+				{ ...c, city: c.metadata.city || cityFromSource(c.metadata.source || "") },
+			])
+		);
+		const fingerprint = createHash("sha256");
+		list
+			.map((c) => `${c.id}:${c.metadata.chunkHash || ""}`)
+			.sort()
+			.forEach((key) => fingerprint.update(key + "\n"));
+		return {
+			loadedAt: Date.now(),
+			version: fingerprint.digest("hex").slice(0, 16),
+			chunks,
+			index: buildBm25Index(list.map((c) => ({ id: c.id, text: c.content }))),
+			cities: new Set([...chunks.values()].map((c) => c.city).filter(Boolean)),
+		};
+	};
+
+	const getCorpus = async () => {
+		if (corpus) {
+			const current = await corpus.catch(() => null);
+			if (current && Date.now() - current.loadedAt < opts.corpusTtlMs) return current;
+		}
+		const loading = (corpus = loadCorpus());
+		// Unless refresh() dropped it meanwhile: it may predate the latest ingest
+		loading.then((loaded) => corpus === loading && (latest = loaded)).catch(() => {});
+		return loading;
+	};
+
+	return {
+		async retrieve(query, queryVector, cities = []) {
+			const [{ chunks, index, cities: knownCities }, vectorHits] = await Promise.all([
+				getCorpus(),
+				vectorStore.search(queryVector, opts.candidateCount),
+			]);
+
+			// 1. Rank by keywords
+			const keywordHits = [...index.score(query)]
+				.sort((a, b) => b[1] - a[1])
+				.slice(0, opts.candidateCount);
+			const bestKeyword = keywordHits[0]?.[1] || 0;
+
+			// 2. Fuse both rankings (reciprocal rank fusion)
+			const fused = new Map<string, RetrievedChunk>();
+			const entry = (id: string, fallback?: StoredChunk) => {
+				let e = fused.get(id);
+				if (!e) {
+					const c = chunks.get(id) || fallback;
+					if (!c) return null;
+					e = {
+						id,
+						content: c.content,
+						metadata: c.metadata,
+						city: c.metadata.city || cityFromSource(c.metadata.source || ""),
+						similarity: null,
+						keywordScore: 0,
+						score: 0,
+					};
+					fused.set(id, e);
+				}
+				return e;
+			};
+
+			vectorHits
+				.filter((hit) => hit.similarity >= opts.minSimilarity)
+				.forEach((hit, rank) => {
+					const e = entry(hit.id, hit);
+					if (!e) return;
+					e.similarity = hit.similarity;
+					e.score += 1 / (opts.rrfK + rank + 1);
+				});
+
+			keywordHits
+				.filter(([, s]) => s >= bestKeyword * opts.minKeywordRatio)
+				.forEach(([id, s], rank) => {
+					const e = entry(id);
+					if (!e) return;
+					e.keywordScore = s;
+					e.score += 1 / (opts.rrfK + rank + 1);
+				});
+
+			// 3. City awareness: boost the query's city, drop other cities' plans
+			const q = query.toLowerCase();
+			const queryCities = new Set([
+				...cities.map((c) => c.toLowerCase()),
+				...[...knownCities].filter((c) => q.includes(c)),
+			]);
+			// Fuzzy, since file names aren't always spelled right ("hydrabad")
+			const isQueryCity = (city: string) =>
+				[...queryCities].some((qc) => isSameCityName(qc, city));
+			let results = [...fused.values()];
+			if (queryCities.size) {
+				results.forEach((r) => {
+					if (isQueryCity(r.city)) r.score += opts.cityBoost;
+				});
+				// Only filter when we actually have chunks for that city
+				if (results.some((r) => isQueryCity(r.city))) {
+					results = results.filter(
+						(r) => isQueryCity(r.city) || !knownCities.has(r.city)
+					);
+				}
+			}
+			results.sort((a, b) => b.score - a.score);
+
+			// 4. Deduplicate and fit the token budget
+			const seen = new Set<string>();
+			const selected: RetrievedChunk[] = [];
+			let tokens = 0;
+			for (const r of results) {
+				const key = normalize(r.content);
+				if (seen.has(key)) continue;
+				seen.add(key);
+				const cost = estimateTokens(r.content);
+				if (tokens + cost > opts.tokenBudget) continue; // A smaller chunk may still fit
+				tokens += cost;
+				selected.push(r);
+			}
+			return selected;
+		},
+
+		async version() {
+			// An answer cache hit shouldn't wait on listing every chunk in the store
+			if (!latest) return (await getCorpus()).version;
+			if (Date.now() - latest.loadedAt >= opts.corpusTtlMs) getCorpus().catch(() => {});
+			return latest.version;
+		},
+
+		refresh() {
+			corpus = null;
+			latest = null;
+		},
+	};
+};
@@ -0,0 +1,252 @@
+import { City, RouteLeg, RouteOptions, RoutePlan, RouteStop } from "./types/index.js";
+import { estimateDetailedTripCost } from "./costEstimator.js";
+
+const EARTH_RADIUS_KM = 6371;
+// Roads are longer than the straight line; ~1.3 fits Indian highways well
+export const ROAD_FACTOR = 1.3;
+// Up to this many cities we try every order; beyond it, a heuristic
+const MAX_EXACT_STOPS = 8;
+
+type Point = { lat: number; lng: number };
+
+export const hasCoordinates = (city: City): city is City & Point =>
+	typeof city.lat === "number" && typeof city.lng === "number";
+
+/**
+ * Great-circle distance between two points, in km.
+ */
+export function haversineKm(a: Point, b: Point): number {
+	const rad = (deg: number) => (deg * Math.PI) / 180;
+	const dLat = rad(b.lat - a.lat);
+	const dLng = rad(b.lng - a.lng);
+	const h =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Estimated road distance between two cities, in km (rounded).
+ * Throws if either city has no coordinates.
+ */
+export function roadDistanceKm(a: City, b: City): number {
+	if (!hasCoordinates(a) || !hasCoordinates(b)) {
+		throw new Error(`No coordinates for ${hasCoordinates(a) ? b.city : a.city}.`);
+	}
+	return Math.round(haversineKm(a, b) * ROAD_FACTOR);
+}
+
+const pathLength = (order: number[], dist: number[][], loop: boolean) => {
+	let total = 0;
+	for (let i = 1; i < order.length; i++) total += dist[order[i - 1]][order[i]];
+	if (loop && order.length > 1) total += dist[order[order.length - 1]][order[0]];
+	return total;
+};
+
+/**
+ * Finds a short visiting order. Index 0 is kept first.
+ * Exact (every permutation) for small trips, else nearest neighbour + 2-opt.
+ */
+export function bestOrder(dist: number[][], loop: boolean): number[] {
+	const rest = dist.map((_, i) => i).slice(1);
+
+	if (rest.length <= MAX_EXACT_STOPS) {
+		let best = [0, ...rest];
+		let bestLength = pathLength(best, dist, loop);
+		const permute = (prefix: number[], left: number[]) => {
+			if (!left.length) {
+				const length = pathLength(prefix, dist, loop);
+				if (length < bestLength) [best, bestLength] = [prefix, length];
+				return;
+			}
+			left.forEach((n, i) => permute([...prefix, n], left.filter((_, j) => j !== i)));
+		};
+		permute([0], rest);
+		return best;
+	}
+
+	// 1. Nearest neighbour
+	const order = [0];
+	const left = new Set(rest);
+	while (left.size) {
+		const last = order[order.length - 1];
+		const next = [...left].reduce((a, b) => (dist[last][a] <= dist[last][b] ? a : b));
+		order.push(next);
+		left.delete(next);
+	}
+
+	// 2. 2-opt: reverse any segment that makes the path shorter
+	let improved = true;
+	while (improved) {
+		improved = false;
+		for (let i = 1; i < order.length - 1; i++) {
+			for (let j = i + 1; j < order.length; j++) {
+				const candidate = [
+					...order.slice(0, i),
+					...order.slice(i, j + 1).reverse(),
+					...order.slice(j + 1),
+				];
+				if (pathLength(candidate, dist, loop) < pathLength(order, dist, loop)) {
+					order.splice(0, order.length, ...candidate);
+					improved = true;
+				}
+			}
+		}
+	}
+	return order;
+}
+
+/**
+ * Splits nights across stops: one each, the rest by how much there is to see
+ * (number of top spots). With fewer nights than stops, the best stops get them.
+ */
+export function splitNights(stops: City[], nights: number): number[] {
+	const weights = stops.map((c) => Math.max(c.topSpots.length, 1));
+	const result = stops.map(() => 0);
+	const byWeight = stops.map((_, i) => i).sort((a, b) => weights[b] - weights[a]);
+
+	if (nights < stops.length) {
+		byWeight.slice(0, nights).forEach((i) => (result[i] = 1));
+		return result;
+	}
+
+	// Largest remainder method on what's left after one night each
+	const extra = nights - stops.length;
+	const totalWeight = weights.reduce((a, b) => a + b, 0);
+	const shares = weights.map((w) => (extra * w) / totalWeight);
+	shares.forEach((s, i) => (result[i] = 1 + Math.floor(s)));
+	let left = nights - result.reduce((a, b) => a + b, 0);
+	const byRemainder = stops
+		.map((_, i) => i)
+		.sort((a, b) => shares[b] - Math.floor(shares[b]) - (shares[a] - Math.floor(shares[a])));
+	for (const i of byRemainder) {
+		if (left-- <= 0) break;
+		result[i]++;
+	}
+	return result;
+}
+
+/**
+ * Plans a multi-city trip: visiting order, nights per stop, legs and cost.
+ * Every city (and the start) needs coordinates.
+ * @param stops The cities to visit, in any order
+ * @param options Start city, nights, mode, group and budget
+ */
+export function planRoute(stops: City[], options: RouteOptions): RoutePlan {
+	const {
+		start,
+		nights,
+		mode = "car",
+		travellers = 1,
+		peoplePerRoom,
+		tier,
+		seasonMultiplier,
+	} = options;
+	const returnToStart = options.returnToStart ?? !!start;
+	const visits = start
+		? stops.filter((c) => c.city.toLowerCase() !== start.city.toLowerCase())
+		: stops;
+	if (!visits.length) throw new Error("Need at least one city to visit.");
+	const points = start ? [start, ...visits] : visits;
+	const missing = points.find((c) => !hasCoordinates(c));
+	if (missing) throw new Error(`No coordinates for ${missing.city}.`);
+
+	// 1. Distances. Flights go straight; everything else by road.
+	const measure = (a: City, b: City) =>
+		mode === "flight" ? Math.round(haversineKm(a as Point, b as Point)) : roadDistanceKm(a, b);
+	const dist = points.map((a) => points.map((b) => measure(a, b)));
+
+	// 2. Visiting order. An open trip with no start can begin anywhere: a dummy
+	// first point, 0 km from everything, lets bestOrder choose.
+	const order =
+		start || returnToStart
+			? bestOrder(dist, returnToStart)
+			: bestOrder([points.map(() => 0), ...dist].map((row) => [0, ...row]), false)
+					.slice(1)
+					.map((i) => i - 1);
+	const route = order.map((i) => points[i]);
+	const loops = returnToStart && points.length > 1;
+	if (loops) route.push(route[0]);
+	const stopCities = route.slice(start ? 1 : 0, loops ? -1 : undefined);
+
+	// 3. Legs
+	const rates = { travellers, peoplePerRoom, tier, seasonMultiplier };
+	const legs: RouteLeg[] = [];
+	for (let i = 1; i < route.length; i++) {
+		const from = route[i - 1];
+		const to = route[i];
+		const distanceKm = measure(from, to);
+		const { transport } = estimateDetailedTripCost({
+			...rates,
+			legs: [{ mode, distanceKm, from: from.city, to: to.city }],
+			nights: 0,
+			days: 0,
+			hotelPerNight: from.avgHotelPerNight,
+			foodPerDay: from.avgFoodPerDay,
+			petrolPerKm: from.petrolPerKm, // Fill up where you set off
+		});
+		legs.push({ from: from.city, to: to.city, mode, distanceKm, cost: transport });
+	}
+
+	// 4. Nights and the cost of each stop (the last day's meals go to the last stop)
+	const split = splitNights(stopCities, nights);
+	const planStops: RouteStop[] = stopCities.map((city, i) => ({
+		city: city.city,
+		nights: split[i],
+		estimate: estimateDetailedTripCost({
+			...rates,
+			legs: [],
+			nights: split[i],
+			days: split[i] + (i === stopCities.length - 1 ? 1 : 0),
+			hotelPerNight: city.avgHotelPerNight,
+			foodPerDay: city.avgFoodPerDay,
+			petrolPerKm: city.petrolPerKm,
+		}),
+	}));
+
+	const transport = legs.reduce((sum, l) => sum + l.cost, 0);
+	const stay = planStops.reduce((sum, s) => sum + s.estimate.total, 0);
+	return {
+		start: start?.city ?? null,
+		returnToStart: loops,
+		stops: planStops,
+		legs,
+		totalDistanceKm: legs.reduce((sum, l) => sum + l.distanceKm, 0),
+		nights,
+		travellers,
+		transport,
+		stay,
+		total: transport + stay,
+		perPerson: Math.round((transport + stay) / travellers),
+	};
+}
+
+/**
+ * Reads a trip length out of a chat message, e.g. "7-day", "5 nights", "4 din", "3 raat".
+ * @returns Nights, or null if the message doesn't say.
+ */
+export function parseTripNights(query: string): number | null {
+	const nights = query.match(/(\d+)\s*-?\s*(?:nights?|raat)\b/i);
+	if (nights) return Number(nights[1]);
+	const days = query.match(/(\d+)\s*-?\s*(?:days?|din)\b/i);
+	if (days) return Math.max(Number(days[1]) - 1, 0);
+	return null;
+}
+
+/**
+ * One-paragraph summary of a plan, for the model's context.
+ */
+export function formatRoutePlan(plan: RoutePlan): string {
+	const path = plan.legs.length
+		? [plan.legs[0].from, ...plan.legs.map((l) => `${l.to} (${l.distanceKm} km)`)]
+		: plan.stops.map((s) => s.city);
+	const mode = plan.legs[0]?.mode ?? "car";
+	return (
+		`ROUTE PLAN (${mode}, ${plan.nights} nights, ${plan.travellers} traveller${
+			plan.travellers === 1 ? "" : "s"
+		}): ${path.join(" → ")}. ` +
+		`TOTAL DISTANCE:${plan.totalDistanceKm} km. ` +
+		`NIGHTS: ${plan.stops.map((s) => `${s.city} ${s.nights}`).join(", ")}. ` +
+		`TRANSPORT:${plan.transport}, STAY+FOOD+FUN:${plan.stay}, TOTAL:${plan.total}, PER PERSON:${plan.perPerson}`
+	);
+}
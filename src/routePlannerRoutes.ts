@@ -0,0 +1,105 @@
+import { Router, Request, Response } from "express";
+import { City, Season } from "./types/index.js";
+import { searchCity } from "./utils.js";
+import { BUDGET_TIERS, SEASON_MULTIPLIERS, TRAVEL_MODES } from "./costEstimator.js";
+import { hasCoordinates, planRoute } from "./routePlanner.js";
+
+const MAX_ROUTE_CITIES = 12;
+
+/**
+ * Factory function to create the multi-city route planner route.
+ * Body: { cities: string[], start?, returnToStart?, nights? | days?, mode?,
+ * travellers?, peoplePerRoom?, tier?, season? }
+ * Without nights or days, two nights per city are assumed.
+ * @param cities The live cities array
+ * @returns An Express router for /api/route.
+ */
+export const createRoutePlannerRouter = (cities: City[]): Router => {
+	const router = Router();
+	const find = (name: unknown) =>
+		typeof name === "string" ? searchCity(name, cities)[0] : undefined;
+
+	router.post("/", (req: Request, res: Response) => {
+		const body = req.body || {};
+		const issues: string[] = [];
+
+		// 1. Cities
+		const stops: City[] = [];
+		if (!Array.isArray(body.cities) || !body.cities.length) {
+			issues.push("cities: must be a non-empty array of city names");
+		} else if (body.cities.length > MAX_ROUTE_CITIES) {
+			issues.push(`cities: at most ${MAX_ROUTE_CITIES} cities`);
+		} else {
+			body.cities.forEach((name: unknown, i: number) => {
+				const city = find(name);
+				if (!city) issues.push(`cities[${i}]: unknown city '${name}'`);
+				else if (!hasCoordinates(city)) issues.push(`cities[${i}]: no coordinates for ${city.city}`);
+				else if (!stops.includes(city)) stops.push(city);
+			});
+		}
+		const start = body.start !== undefined ? find(body.start) : undefined;
+		if (body.start !== undefined && !start) {
+			issues.push(`start: unknown city '${body.start}'`);
+		} else if (start && !hasCoordinates(start)) {
+			issues.push(`start: no coordinates for ${start.city}`);
+		}
+
+		// 2. Trip shape
+		const visits = stops.filter((c) => c !== start);
+		let nights = visits.length * 2;
+		if (body.nights !== undefined) {
+			if (!Number.isInteger(body.nights) || body.nights < 0) {
+				issues.push("nights: must be a whole number >= 0");
+			} else {
+				nights = body.nights;
+			}
+		} else if (body.days !== undefined) {
+			if (!Number.isInteger(body.days) || body.days < 1) {
+				issues.push("days: must be a whole number >= 1");
+			} else {
+				nights = body.days - 1;
+			}
+		}
+		if (body.returnToStart !== undefined && typeof body.returnToStart !== "boolean") {
+			issues.push("returnToStart: must be true or false");
+		}
+		if (body.mode !== undefined && !TRAVEL_MODES.includes(body.mode)) {
+			issues.push(`mode: must be one of ${TRAVEL_MODES.join(", ")}`);
+		}
+		if (body.travellers !== undefined && (!Number.isInteger(body.travellers) || body.travellers < 1)) {
+			issues.push("travellers: must be a whole number >= 1");
+		}
+		if (body.peoplePerRoom !== undefined && (!Number.isInteger(body.peoplePerRoom) || body.peoplePerRoom < 1)) {
+			issues.push("peoplePerRoom: must be a whole number >= 1");
+		}
+		if (body.tier !== undefined && !BUDGET_TIERS.includes(body.tier)) {
+			issues.push(`tier: must be one of ${BUDGET_TIERS.join(", ")}`);
+		}
+		const seasonMultiplier =
+			body.season !== undefined ? SEASON_MULTIPLIERS[body.season as Season] : undefined;
+		if (body.season !== undefined && seasonMultiplier === undefined) {
+			issues.push(`season: must be one of ${Object.keys(SEASON_MULTIPLIERS).join(", ")}`);
+		}
+		if (stops.length && !visits.length) {
+			issues.push("cities: need at least one city besides the start");
+		}
+
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid route request.", issues });
+		}
+
+		const plan = planRoute(stops, {
+			start,
+			returnToStart: body.returnToStart,
+			nights,
+			mode: body.mode,
+			travellers: body.travellers,
+			peoplePerRoom: body.peoplePerRoom,
+			tier: body.tier,
+			seasonMultiplier,
+		});
+		res.json({ plan });
+	});
+
+	return router;
+};
@@ -1,12 +1,61 @@
 // --- This is now the main entrypoint ---
 import dotenv from "dotenv";
 import path from "path";
-import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
 import { createClient } from "@supabase/supabase-js";
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
-import { loadTravelData } from "./utils.js";
+import { createTravelDataStore } from "./travelDataStore.js";
+import { loadPromptRegistry } from "./promptRegistry.js";
+import { loadAttractions } from "./attractions.js";
+import { KnowledgeBase, createKnowledgeBase } from "./knowledgeBase.js";
+import { IngestJobRunner, createIngestJobRunner } from "./ingestJobs.js";
+import {
+	ManifestStore,
+	createFileManifestStore,
+	createSupabaseManifestStore,
+} from "./ingestManifest.js";
+import {
+	DocumentStore,
+	createLocalDocumentStore,
+	createSupabaseDocumentStore,
+} from "./documentStore.js";
+import { runIngestion } from "./ingestPipeline.js";
+import { TokenVerifier, createJwtVerifier, createSupabaseTokenVerifier } from "./tokenVerifier.js";
+import { createApiKeyRegistry, loadApiKeys } from "./apiKeys.js";
 import { createApp } from "./index.js"; // Import the factory function
+import { log } from "./logger.js";
+import {
+	ConversationStore,
+	createInMemoryConversationStore,
+	createSupabaseConversationStore,
+} from "./conversationStore.js";
+import {
+	VectorStore,
+	createLocalVectorStore,
+	createSupabaseVectorStore,
+} from "./vectorStore.js";
+import {
+	UsageStore,
+	createInMemoryUsageStore,
+	createSupabaseUsageStore,
+} from "./usageStore.js";
+import {
+	FeedbackStore,
+	createInMemoryFeedbackStore,
+	createSupabaseFeedbackStore,
+} from "./feedbackStore.js";
+import {
+	TripStore,
+	createInMemoryTripStore,
+	createSupabaseTripStore,
+} from "./tripStore.js";
+import { RetrievalOptions } from "./retrieval.js";
+import { CacheOptions } from "./cache.js";
+import { StreamOptions } from "./sse.js";
+import {
+	createChatProvider,
+	createEmbedder,
+	embedderName,
+	loadProviderConfig,
+} from "./llmProvider.js";
 
 /**
  * Starts the application server.
@@ -15,67 +64,242 @@ const startServer = async () => {
 	try {
 		// 1. Load env vars and check them
 		dotenv.config();
-		console.log("Loading environment variables...");
+		log.info("Loading environment variables...");
 
 		const PORT = process.env.PORT || 8080;
-		const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY as string;
 		const SUPABASE_URL = process.env.SUPABASE_URL as string;
 		const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY as string;
 		const DB_PATH = path.resolve("./travelData.json");
+		const PROMPTS_DIR = process.env.PROMPTS_DIR || "./prompts";
+		// Written by npm run attractions (or ingest); the Docker build generates it
+		const ATTRACTIONS_PATH = process.env.ATTRACTIONS_PATH || "./attractions.json";
 		const RAG_TABLE_NAME = "documents";
 		const RAG_QUERY_NAME = "match_documents";
+		// "supabase" (default) or "local"
+		const VECTOR_STORE = process.env.VECTOR_STORE || "supabase";
+		const LOCAL_VECTOR_STORE_PATH =
+			process.env.LOCAL_VECTOR_STORE_PATH || "./vectorStore.json";
+		// The documents ingest reads and the admin knowledge endpoints edit: with VECTOR_STORE=local,
+		// this folder and a manifest file; with Supabase, a storage bucket and the ingest_manifests table
+		const KNOWLEDGE_DIR = process.env.KNOWLEDGE_DIR || "./knowledge_base";
+		// Same default as npm run ingest, so both see the same state
+		const INGEST_MANIFEST_PATH = process.env.INGEST_MANIFEST_PATH || "./ingestManifest.local.json";
+		const KNOWLEDGE_BUCKET = process.env.KNOWLEDGE_BUCKET || "knowledge";
+		// Retrieval tuning (see defaultRetrievalOptions)
+		const retrievalOptions: Partial<RetrievalOptions> = {};
+		if (process.env.RAG_TOKEN_BUDGET)
+			retrievalOptions.tokenBudget = Number(process.env.RAG_TOKEN_BUDGET);
+		if (process.env.RAG_MIN_SIMILARITY)
+			retrievalOptions.minSimilarity = Number(process.env.RAG_MIN_SIMILARITY);
+		// Caching (see defaultCacheOptions); ANSWER_CACHE_SIZE=0 turns the answer cache off
+		const cacheOptions: Partial<CacheOptions> = {};
+		if (process.env.EMBEDDING_CACHE_SIZE)
+			cacheOptions.embeddingCacheSize = Number(process.env.EMBEDDING_CACHE_SIZE);
+		if (process.env.ANSWER_CACHE_SIZE)
+			cacheOptions.answerCacheSize = Number(process.env.ANSWER_CACHE_SIZE);
+		if (process.env.ANSWER_CACHE_TTL_MS)
+			cacheOptions.answerTtlMs = Number(process.env.ANSWER_CACHE_TTL_MS);
+		if (process.env.ANSWER_CACHE_SIMILARITY)
+			cacheOptions.answerSimilarity = Number(process.env.ANSWER_CACHE_SIMILARITY);
+		// Chat streams (see defaultStreamOptions); SSE_RESUME_GRACE_MS=0 aborts as soon as the client leaves
+		const streamOptions: Partial<StreamOptions> = {};
+		if (process.env.SSE_HEARTBEAT_MS)
+			streamOptions.heartbeatMs = Number(process.env.SSE_HEARTBEAT_MS);
+		if (process.env.SSE_RESUME_TTL_MS)
+			streamOptions.resumeTtlMs = Number(process.env.SSE_RESUME_TTL_MS);
+		if (process.env.SSE_RESUME_GRACE_MS)
+			streamOptions.resumeGraceMs = Number(process.env.SSE_RESUME_GRACE_MS);
+		// "memory" (default) or "supabase"
+		const CONVERSATION_STORE = process.env.CONVERSATION_STORE || "memory";
+		// "memory" (default) or "supabase"
+		const USAGE_STORE = process.env.USAGE_STORE || "memory";
+		// "memory" (default) or "supabase"
+		const FEEDBACK_STORE = process.env.FEEDBACK_STORE || "memory";
+		// "memory" (default) or "supabase"
+		const TRIP_STORE = process.env.TRIP_STORE || "memory";
+		const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY as string;
+		// "remote" (default): ask Supabase on every request; "local": check token signatures here,
+		// against the project's JWKS, or SUPABASE_JWT_SECRET for projects on the HS256 secret
+		const AUTH_VERIFY = process.env.AUTH_VERIFY || "remote";
+		// Only for projects still signing with the legacy HS256 secret
+		const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET;
+		const JWT_AUDIENCE = process.env.JWT_AUDIENCE || "authenticated";
+		// Hashed service keys (npm run apikey); no file means no keys
+		const API_KEYS_PATH = process.env.API_KEYS_PATH || "./apiKeys.json";
 
-		if (!GOOGLE_API_KEY) throw new Error("Missing: GOOGLE_API_KEY");
+		const providerConfig = loadProviderConfig(); // Checks GOOGLE_API_KEY if needed
 		if (!SUPABASE_URL) throw new Error("Missing: SUPABASE_URL");
 		if (!SUPABASE_ANON_KEY) throw new Error("Missing: SUPABASE_ANON_KEY");
-		console.log("Environment variables loaded.");
+		if (CONVERSATION_STORE === "supabase" && !SUPABASE_SERVICE_KEY)
+			throw new Error("Missing: SUPABASE_SERVICE_KEY (needed for CONVERSATION_STORE=supabase)");
+		if (USAGE_STORE === "supabase" && !SUPABASE_SERVICE_KEY)
+			throw new Error("Missing: SUPABASE_SERVICE_KEY (needed for USAGE_STORE=supabase)");
+		if (FEEDBACK_STORE === "supabase" && !SUPABASE_SERVICE_KEY)
+			throw new Error("Missing: SUPABASE_SERVICE_KEY (needed for FEEDBACK_STORE=supabase)");
+		if (TRIP_STORE === "supabase" && !SUPABASE_SERVICE_KEY)
+			throw new Error("Missing: SUPABASE_SERVICE_KEY (needed for TRIP_STORE=supabase)");
+		if (AUTH_VERIFY !== "local" && AUTH_VERIFY !== "remote")
+			throw new Error(`Invalid AUTH_VERIFY: '${AUTH_VERIFY}' (expected 'local' or 'remote')`);
+		log.info("Environment variables loaded.");
 
 		// 2. Load static data
-		console.log("Loading structured data from travelData.json...");
-		const cities = loadTravelData(DB_PATH);
-		console.log("Structured data loaded.");
+		log.info("Loading structured data from travelData.json...");
+		const travelDataStore = createTravelDataStore(DB_PATH); // Throws if invalid
+		travelDataStore.watch(); // Hot reload on edits
+		const cities = travelDataStore.cities;
+		log.info(`Structured data loaded (${cities.length} cities).`);
+
+		const attractions = loadAttractions(ATTRACTIONS_PATH); // Throws if broken
+		if (attractions.length) log.info(`Attractions loaded (${attractions.length}).`);
+		else log.warn(`No attractions in ${ATTRACTIONS_PATH}; run npm run attractions to extract them.`);
+
+		log.info(`Loading prompt templates from ${PROMPTS_DIR}...`);
+		const prompts = loadPromptRegistry(PROMPTS_DIR); // Throws if a template is broken
+		const { personas, languages } = prompts.list();
+		log.info(`Prompts loaded (${personas.length} personas, ${languages.length} languages).`);
 
 		// 3. Initialize all external services
-		console.log("Initializing Gemini...");
-		const genAI = new GoogleGenerativeAI(GOOGLE_API_KEY);
-		const chatModel = genAI.getGenerativeModel({
-			model: "gemini-2.0-flash",
-		});
+		log.info(`Initializing chat provider (${providerConfig.llmProvider})...`);
+		const chatProvider = createChatProvider(providerConfig);
 
-		console.log("Initializing Supabase client...");
+		log.info("Initializing Supabase client...");
 		const supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 
-		console.log("Initializing Gemini Embedder...");
-		const geminiEmbedder = new GoogleGenerativeAIEmbeddings({
-			apiKey: GOOGLE_API_KEY,
-			model: "embedding-001",
-			taskType: TaskType.SEMANTIC_SIMILARITY,
-		});
+		log.info(`Initializing token verification (${AUTH_VERIFY})...`);
+		const authUrl = `${SUPABASE_URL.replace(/\/+$/, "")}/auth/v1`; // Also the tokens' issuer
+		const tokenVerifier: TokenVerifier =
+			AUTH_VERIFY === "remote"
+				? createSupabaseTokenVerifier(supabaseClient)
+				: createJwtVerifier({
+						jwksUri: `${authUrl}/.well-known/jwks.json`,
+						secret: SUPABASE_JWT_SECRET,
+						audience: JWT_AUDIENCE,
+						issuer: authUrl,
+				  });
 
-		console.log("Initializing Supabase Vector Store...");
-		const vectorStore = new SupabaseVectorStore(geminiEmbedder, {
-			client: supabaseClient,
-			tableName: RAG_TABLE_NAME,
-			queryName: RAG_QUERY_NAME,
-		});
-		console.log("Services initialized successfully.");
+		const apiKeys = loadApiKeys(API_KEYS_PATH); // Throws if broken
+		if (apiKeys.length) log.info(`API keys loaded (${apiKeys.map((k) => k.name).join(", ")}).`);
+
+		log.info(`Initializing embedder (${providerConfig.embeddingProvider})...`);
+		const embedder = createEmbedder(providerConfig);
+
+		log.info(`Initializing vector store (${VECTOR_STORE})...`);
+		const vectorStore: VectorStore =
+			VECTOR_STORE === "local"
+				? createLocalVectorStore(LOCAL_VECTOR_STORE_PATH)
+				: createSupabaseVectorStore(supabaseClient, {
+						tableName: RAG_TABLE_NAME,
+						queryName: RAG_QUERY_NAME,
+				  });
+
+		// Use the SERVICE key: the server writes chats, usage, feedback and trips on behalf of users
+		const adminClient = SUPABASE_SERVICE_KEY
+			? createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+					auth: {
+						persistSession: false,
+						autoRefreshToken: false,
+					},
+			  })
+			: null;
+
+		log.info(`Initializing conversation store (${CONVERSATION_STORE})...`);
+		const conversationStore: ConversationStore =
+			CONVERSATION_STORE === "supabase"
+				? createSupabaseConversationStore(adminClient!)
+				: createInMemoryConversationStore();
+
+		log.info(`Initializing usage store (${USAGE_STORE})...`);
+		const usageStore: UsageStore =
+			USAGE_STORE === "supabase"
+				? createSupabaseUsageStore(adminClient!)
+				: createInMemoryUsageStore();
+
+		log.info(`Initializing feedback store (${FEEDBACK_STORE})...`);
+		const feedbackStore: FeedbackStore =
+			FEEDBACK_STORE === "supabase"
+				? createSupabaseFeedbackStore(adminClient!)
+				: createInMemoryFeedbackStore();
+
+		log.info(`Initializing trip store (${TRIP_STORE})...`);
+		const tripStore: TripStore =
+			TRIP_STORE === "supabase"
+				? createSupabaseTripStore(adminClient!)
+				: createInMemoryTripStore();
+
+		// The documents and the manifest live with the vector store, so every instance
+		// sees the same ones. Re-ingesting writes to Supabase, which needs the service key.
+		let knowledgeBase: KnowledgeBase | undefined;
+		let ingestJobs: IngestJobRunner | undefined;
+		if (VECTOR_STORE === "local" || adminClient) {
+			const documents: DocumentStore =
+				VECTOR_STORE === "local"
+					? createLocalDocumentStore(KNOWLEDGE_DIR)
+					: createSupabaseDocumentStore(adminClient!, KNOWLEDGE_BUCKET);
+			const manifest: ManifestStore =
+				VECTOR_STORE === "local"
+					? createFileManifestStore(INGEST_MANIFEST_PATH)
+					: createSupabaseManifestStore(adminClient!, RAG_TABLE_NAME);
+			const ingestStore: VectorStore =
+				VECTOR_STORE === "local"
+					? vectorStore // Same instance, so searches see the new chunks
+					: createSupabaseVectorStore(adminClient!, {
+							tableName: RAG_TABLE_NAME,
+							queryName: RAG_QUERY_NAME,
+					  });
+			knowledgeBase = createKnowledgeBase(documents, cities, manifest);
+			ingestJobs = createIngestJobRunner(async ({ force, report, onProgress }) => {
+				const result = await runIngestion({
+					documents,
+					vectorStore: ingestStore,
+					storeName: VECTOR_STORE,
+					embedder,
+					embedderName: embedderName(providerConfig),
+					manifest,
+					attractionsPath: ATTRACTIONS_PATH,
+					cities,
+					force,
+					report,
+					onProgress,
+				});
+				// In place: the app holds on to this array
+				attractions.splice(0, attractions.length, ...result.attractions);
+				return result.summary;
+			});
+		} else {
+			log.warn("No SUPABASE_SERVICE_KEY; the admin knowledge endpoints are disabled.");
+		}
+		log.info("Services initialized successfully.");
 
 		// 4. Create the app by passing dependencies
-		const app = createApp({ chatModel, geminiEmbedder, supabaseClient, cities, dbQueryName: RAG_QUERY_NAME });
+		const app = createApp({
+			chatProvider,
+			embedder,
+			supabaseClient,
+			tokenVerifier,
+			apiKeys: createApiKeyRegistry(apiKeys),
+			cities,
+			travelDataStore,
+			attractions,
+			vectorStore,
+			knowledgeBase,
+			ingestJobs,
+			retrievalOptions,
+			cacheOptions,
+			streamOptions,
+			conversationStore,
+			usageStore,
+			feedbackStore,
+			tripStore,
+			prompts,
+		});
 
 		// 5. Start the server
 		app.listen(PORT, () => {
-			console.log("-----------------------------------------");
-			console.log(
-				`✅ Gemini Travel AI running at http://localhost:${PORT}`
-			);
-			console.log("-----------------------------------------");
+			log.info(`✅ Gemini Travel AI running at http://localhost:${PORT}`, { port: Number(PORT) });
 		});
 	} catch (err: any) {
 		// --- THIS WILL CATCH THE REAL ERROR ---
-		console.error("🔥 FAILED TO INITIALIZE SERVER 🔥");
-		console.error(`Error: ${err.message}`);
-		console.error(err.stack); // Print the full stack trace
+		log.error("🔥 FAILED TO INITIALIZE SERVER 🔥", { error: err }); // Includes the full stack trace
 		process.exit(1);
 	}
 };
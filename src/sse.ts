@@ -0,0 +1,152 @@
+import { Response } from "express";
+import { ChatStreamEventName, ChatStreamEvents } from "./types/index.js";
+import { createLruCache } from "./cache.js";
+import { log } from "./logger.js";
+
+export interface ChatStream {
+	/** Writes one named event: `id: <requestId>:<n>\nevent: <name>\ndata: <json>\n\n`. */
+	send<E extends ChatStreamEventName>(event: E, data: ChatStreamEvents[E]): void;
+	end(): void;
+	/** Aborted when the client is gone for good; pass it on to the model call. */
+	readonly signal: AbortSignal;
+}
+
+export interface StreamOptions {
+	/** How often an idle stream gets a `: heartbeat` comment, so proxies keep it open. */
+	heartbeatMs: number;
+	/** How long a stream's events stay around for a reconnect. */
+	resumeTtlMs: number;
+	/** How long a dropped client has to reconnect before the generation is aborted (0 = at once). */
+	resumeGraceMs: number;
+	/** Streams kept for resuming; the oldest are dropped first. */
+	maxStreams: number;
+}
+
+export const defaultStreamOptions: StreamOptions = {
+	heartbeatMs: 15 * 1000,
+	resumeTtlMs: 5 * 60 * 1000,
+	resumeGraceMs: 5 * 1000,
+	maxStreams: 1000,
+};
+
+/** Splits a Last-Event-ID ("<requestId>:<n>") into its parts. */
+export const parseLastEventId = (value: string | undefined) => {
+	const match = value?.match(/^(.+):(\d+)$/);
+	return match ? { requestId: match[1], seq: Number(match[2]) } : null;
+};
+
+interface BufferedStream {
+	userId: string;
+	events: string[]; // Already framed, events[i] has id i + 1
+	attach(res: Response, afterSeq: number): void;
+}
+
+export interface ChatStreamHub {
+	/** Starts the SSE response for a new request. */
+	open(res: Response, requestId: string, userId: string): ChatStream;
+	/**
+	 * Re-attaches a reconnecting client: replays the events after `lastEventId`,
+	 * then follows the stream live if it's still going.
+	 * Returns false if the stream is unknown, expired or someone else's.
+	 */
+	resume(res: Response, lastEventId: string, userId: string): boolean;
+}
+
+/**
+ * Factory function to create the registry of live and recently finished chat streams.
+ * Every event is kept (for resumeTtlMs) so a dropped connection can pick up where it
+ * left off without generating the answer again.
+ * @param options Heartbeat and resume settings
+ */
+export const createChatStreamHub = (options: Partial<StreamOptions> = {}): ChatStreamHub => {
+	const { heartbeatMs, resumeTtlMs, resumeGraceMs, maxStreams } = {
+		...defaultStreamOptions,
+		...options,
+	};
+	const streams = createLruCache<string, BufferedStream>(maxStreams, resumeTtlMs);
+
+	const startResponse = (res: Response) => {
+		res.setHeader("Content-Type", "text/event-stream");
+		res.setHeader("Cache-Control", "no-cache");
+		res.setHeader("Connection", "keep-alive");
+		res.flushHeaders(); // Send headers immediately
+	};
+
+	return {
+		open(res, requestId, userId) {
+			const controller = new AbortController();
+			const events: string[] = [];
+			let client: Response | null = null;
+			let heartbeat: NodeJS.Timeout | undefined;
+			let grace: NodeJS.Timeout | undefined;
+			let finished = false;
+
+			const detach = () => {
+				clearInterval(heartbeat);
+				client = null;
+			};
+
+			const stream: BufferedStream = {
+				userId,
+				events,
+				attach(res, afterSeq) {
+					if (client) {
+						// Only one reader at a time
+						const old = client;
+						detach();
+						old.end();
+					}
+					clearTimeout(grace);
+					startResponse(res);
+					for (const frame of events.slice(afterSeq)) res.write(frame);
+					if (finished) return void res.end();
+
+					const onClose = () => {
+						if (client !== res) return; // Replaced by a newer connection
+						detach();
+						if (finished) return;
+						// Give the client a moment to reconnect, then stop paying for tokens nobody reads
+						grace = setTimeout(() => {
+							log.info("Client disconnected, aborting generation", { streamId: requestId });
+							controller.abort();
+						}, resumeGraceMs);
+					};
+					client = res;
+					heartbeat = setInterval(() => res.write(": heartbeat\n\n"), heartbeatMs);
+					res.on("close", onClose);
+					if (res.destroyed) onClose(); // Gone before the stream even started
+				},
+			};
+
+			streams.set(requestId, stream);
+			stream.attach(res, 0);
+
+			return {
+				signal: controller.signal,
+				send(event, data) {
+					if (finished) return;
+					const frame = `id: ${requestId}:${events.length + 1}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+					events.push(frame);
+					client?.write(frame);
+				},
+				end() {
+					if (finished) return;
+					finished = true;
+					clearTimeout(grace);
+					streams.set(requestId, stream); // Keep it for resumeTtlMs from now
+					const last = client;
+					detach();
+					last?.end();
+				},
+			};
+		},
+
+		resume(res, lastEventId, userId) {
+			const parsed = parseLastEventId(lastEventId);
+			const stream = parsed && streams.get(parsed.requestId);
+			if (!stream || stream.userId !== userId) return false;
+			stream.attach(res, Math.min(parsed.seq, stream.events.length));
+			return true;
+		},
+	};
+};
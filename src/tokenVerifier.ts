@@ -0,0 +1,134 @@
+import jwt, { Algorithm, GetPublicKeyOrSecret, JwtHeader, JwtPayload, Secret } from "jsonwebtoken";
+import jwksRsa from "jwks-rsa";
+import { SupabaseClient, User } from "@supabase/supabase-js";
+
+/**
+ * Thrown when a token is missing a valid signature, has expired, or is for
+ * another audience. The auth middleware answers 401; anything else it throws is a 500.
+ */
+export class InvalidTokenError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InvalidTokenError";
+	}
+}
+
+/** Checks a bearer token and returns the user it was issued to. */
+export type TokenVerifier = (token: string) => Promise<User>;
+
+export interface JwtVerifierOptions {
+	// Signing keys for RS256/ES256 tokens, e.g. https://<project>.supabase.co/auth/v1/.well-known/jwks.json
+	jwksUri?: string;
+	// The legacy shared secret, for HS256 tokens
+	secret?: string;
+	audience: string; // Supabase: "authenticated"
+	issuer?: string; // Supabase: https://<project>.supabase.co/auth/v1
+	jwksCacheMaxAgeMs?: number;
+}
+
+// Keys rotate rarely; a cached key keeps auth working while the JWKS endpoint is down
+const DEFAULT_JWKS_CACHE_MAX_AGE_MS = 10 * 60 * 1000;
+const ASYMMETRIC_ALGORITHMS: Algorithm[] = ["RS256", "ES256"];
+
+/**
+ * Builds the Supabase user from the token's claims.
+ * Only what the claims carry: no identities, no confirmation dates.
+ */
+export const userFromClaims = (claims: JwtPayload): User => {
+	if (typeof claims.sub !== "string" || !claims.sub) {
+		throw new InvalidTokenError("Token has no subject");
+	}
+	return {
+		id: claims.sub,
+		aud: Array.isArray(claims.aud) ? claims.aud[0] : claims.aud || "",
+		email: claims.email,
+		phone: claims.phone,
+		role: claims.role,
+		app_metadata: claims.app_metadata || {},
+		user_metadata: claims.user_metadata || {},
+		is_anonymous: claims.is_anonymous,
+		created_at: "", // Not in the token
+	};
+};
+
+/**
+ * Verifies tokens locally: signature, expiry, audience and issuer, with no
+ * call to Supabase. HS256 tokens are checked against the secret, RS256/ES256
+ * ones against the (cached) JWKS, so both work while a project migrates.
+ * @param options At least one of `jwksUri` and `secret`
+ */
+export const createJwtVerifier = (options: JwtVerifierOptions): TokenVerifier => {
+	const { jwksUri, secret, audience, issuer } = options;
+	if (!jwksUri && !secret) throw new Error("JWT verifier needs a JWKS URI or a secret");
+
+	const jwks =
+		jwksUri &&
+		jwksRsa({
+			jwksUri,
+			cache: true,
+			cacheMaxAge: options.jwksCacheMaxAgeMs ?? DEFAULT_JWKS_CACHE_MAX_AGE_MS,
+			// Unknown key ids trigger a refetch; don't let bad tokens hammer the endpoint
+			rateLimit: true,
+			jwksRequestsPerMinute: 10,
+		});
+	const algorithms: Algorithm[] = [
+		...(secret ? (["HS256"] as Algorithm[]) : []),
+		...(jwks ? ASYMMETRIC_ALGORITHMS : []),
+	];
+
+	const keyFor = (header: JwtHeader): Promise<Secret> => {
+		if (header.alg.startsWith("HS")) {
+			if (!secret) throw new InvalidTokenError("HS256 tokens are not accepted");
+			return Promise.resolve(secret);
+		}
+		if (!jwks) throw new InvalidTokenError(`${header.alg} tokens are not accepted`);
+		return jwks.getSigningKey(header.kid).then(
+			(key) => key.getPublicKey(),
+			(err) => {
+				if (err instanceof jwksRsa.SigningKeyNotFoundError) {
+					throw new InvalidTokenError(`Unknown signing key '${header.kid}'`);
+				}
+				throw err; // The JWKS endpoint is down (and nothing cached)
+			}
+		);
+	};
+
+	return (token) =>
+		new Promise<User>((resolve, reject) => {
+			// jsonwebtoken only keeps the message of a key lookup error, so remember the error itself
+			let keyError: unknown;
+			const getKey: GetPublicKeyOrSecret = (header, callback) => {
+				Promise.resolve()
+					.then(() => keyFor(header))
+					.then(
+						(key) => callback(null, key),
+						(err) => {
+							keyError = err;
+							callback(err);
+						}
+					);
+			};
+			jwt.verify(token, getKey, { algorithms, audience, issuer }, (err, claims) => {
+				try {
+					if (keyError) throw keyError;
+					if (err instanceof jwt.JsonWebTokenError) throw new InvalidTokenError(err.message);
+					if (err) throw err;
+					resolve(userFromClaims(claims as JwtPayload));
+				} catch (error) {
+					reject(error);
+				}
+			});
+		});
+};
+
+/**
+ * Asks Supabase auth about every token (one network round trip per request).
+ * Notices revoked sessions straight away, which local verification only does at expiry.
+ */
+export const createSupabaseTokenVerifier =
+	(supabase: SupabaseClient): TokenVerifier =>
+	async (token) => {
+		const { data, error } = await supabase.auth.getUser(token);
+		if (error || !data.user) throw new InvalidTokenError(error?.message || "No user for token");
+		return data.user;
+	};
@@ -0,0 +1,127 @@
+import { FunctionDeclaration, SchemaType } from "@google/generative-ai";
+import { City, ToolCall } from "./types/index.js";
+import { estimateDetailedTripCost, parseEstimateRequest } from "./costEstimator.js";
+import { searchCity } from "./utils.js";
+
+/**
+ * Tool declarations Gemini can call while answering.
+ * Names are snake_case so they read naturally to the model.
+ */
+export const travelToolDeclarations: FunctionDeclaration[] = [
+	{
+		name: "estimate_trip_cost",
+		description:
+			"Estimates the total cost (in INR) of a trip by car, train, bus or flight: transport, hotel, food, " +
+			"entry tickets and a fun budget, with a line-item breakdown. " +
+			"Call this whenever the user asks how much a trip will cost. " +
+			"If a known city is given, its hotel, food and petrol rates and spot entry fees are used unless overridden.",
+		parameters: {
+			type: SchemaType.OBJECT,
+			properties: {
+				city: {
+					type: SchemaType.STRING,
+					description: "Destination city name, e.g. 'Goa'.",
+				},
+				distanceKm: {
+					type: SchemaType.NUMBER,
+					description: "Total travel distance in kilometres (there and back).",
+				},
+				mode: {
+					type: SchemaType.STRING,
+					description: "How they travel: 'car' (default), 'train', 'bus' or 'flight'.",
+				},
+				nights: {
+					type: SchemaType.NUMBER,
+					description: "Number of nights of stay.",
+				},
+				travellers: {
+					type: SchemaType.NUMBER,
+					description: "Number of people (default 1).",
+				},
+				tier: {
+					type: SchemaType.STRING,
+					description: "'budget', 'mid' (default) or 'luxury'.",
+				},
+				season: {
+					type: SchemaType.STRING,
+					description: "'peak', 'shoulder' or 'off' season, if known.",
+				},
+				spots: {
+					type: SchemaType.ARRAY,
+					items: { type: SchemaType.STRING },
+					description: "Names of the city's top spots they plan to visit, to add entry tickets.",
+				},
+				hotelPerNight: {
+					type: SchemaType.NUMBER,
+					description: "Hotel cost per night in INR (overrides the city rate).",
+				},
+				foodPerDay: {
+					type: SchemaType.NUMBER,
+					description: "Food cost per day in INR (overrides the city rate).",
+				},
+				petrolPerKm: {
+					type: SchemaType.NUMBER,
+					description: "Fuel cost per km in INR (overrides the city rate).",
+				},
+			},
+			required: ["distanceKm", "nights"],
+		},
+	},
+	{
+		name: "search_city",
+		description:
+			"Looks up a city or state in Pixie's travel database and returns its hotel, food and petrol rates, top spots and reviews.",
+		parameters: {
+			type: SchemaType.OBJECT,
+			properties: {
+				query: {
+					type: SchemaType.STRING,
+					description: "City or state name, e.g. 'Mumbai'.",
+				},
+			},
+			required: ["query"],
+		},
+	},
+];
+
+export type ToolExecutor = (call: ToolCall) => object;
+
+/**
+ * Factory function to create the server-side tool executor.
+ * It never throws: failures are returned as { error } so the model can recover.
+ * @param cities The structured travel data the tools read from.
+ * @returns A function that runs one function call and returns its result.
+ */
+export const createToolExecutor = (cities: City[]): ToolExecutor => {
+	return (call: ToolCall) => {
+		const args = call.args;
+
+		switch (call.name) {
+			case "estimate_trip_cost": {
+				const { params, city, issues, warnings } = parseEstimateRequest(
+					args,
+					(name) => searchCity(name, cities)[0]
+				);
+				if (!params) {
+					return {
+						error: `Need distanceKm, nights and either a known city or hotelPerNight, foodPerDay and petrolPerKm. ${issues.join("; ")}`,
+					};
+				}
+				return {
+					city: city?.city ?? null,
+					params,
+					estimate: estimateDetailedTripCost(params),
+					...(warnings.length ? { warnings } : {}),
+				};
+			}
+
+			case "search_city": {
+				const hits = searchCity(String(args.query || ""), cities);
+				return { cities: hits };
+			}
+
+			default:
+				return { error: `Unknown tool: ${call.name}` };
+		}
+	};
+};
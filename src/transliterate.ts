@@ -0,0 +1,113 @@
+// Devanagari -> Latin, the way people actually type Hindi place names
+// ("jaipur", not "jayapura"). Long vowels collapse to one letter on purpose:
+// users write "mumbai", not "mumbaee".
+
+const CONSONANTS: Record<string, string> = {
+	"क": "k", "ख": "kh", "ग": "g", "घ": "gh", "ङ": "n",
+	"च": "ch", "छ": "chh", "ज": "j", "झ": "jh", "ञ": "n",
+	"ट": "t", "ठ": "th", "ड": "d", "ढ": "dh", "ण": "n",
+	"त": "t", "थ": "th", "द": "d", "ध": "dh", "न": "n",
+	"प": "p", "फ": "ph", "ब": "b", "भ": "bh", "म": "m",
+	"य": "y", "र": "r", "ल": "l", "व": "v", "श": "sh",
+	"ष": "sh", "स": "s", "ह": "h", "ळ": "l",
+};
+
+// Consonant + nukta
+const NUKTA_CONSONANTS: Record<string, string> = {
+	"क": "q", "ख": "kh", "ग": "g", "ज": "z", "फ": "f", "ड": "r", "ढ": "rh",
+};
+
+const VOWELS: Record<string, string> = {
+	"अ": "a", "आ": "a", "इ": "i", "ई": "i", "उ": "u", "ऊ": "u",
+	"ऋ": "ri", "ए": "e", "ऐ": "ai", "ओ": "o", "औ": "au",
+};
+
+const MATRAS: Record<string, string> = {
+	"ा": "a", "ि": "i", "ी": "i", "ु": "u", "ू": "u",
+	"ृ": "ri", "े": "e", "ै": "ai", "ो": "o", "ौ": "au",
+};
+
+const VIRAMA = "्";
+const NUKTA = "़";
+const ANUSVARA = new Set(["ं", "ँ"]);
+const VISARGA = "ः";
+const LABIALS = new Set(["प", "फ", "ब", "भ", "म"]);
+
+interface Syllable {
+	consonant: string; // Latin consonant cluster, "" for a bare vowel
+	vowel: string; // "a" = inherent schwa (may be dropped)
+	inherent: boolean;
+	coda: string; // Anusvara / visarga sound
+}
+
+/**
+ * Transliterates Devanagari text to lowercase Latin.
+ * Non-Devanagari characters pass through unchanged.
+ * Applies the usual Hindi schwa deletion: the inherent "a" is dropped at the
+ * end of a word and between two syllables that keep their vowels (ja-ya-pur -> jaypur).
+ */
+export function transliterateDevanagari(text: string): string {
+	return text.replace(/[ऀ-ॿ]+/g, (word) => transliterateWord(word));
+}
+
+/**
+ * True if the text contains any Devanagari.
+ */
+export function hasDevanagari(text: string): boolean {
+	return /[ऀ-ॿ]/.test(text);
+}
+
+function transliterateWord(word: string): string {
+	const chars = [...word];
+	const syllables: Syllable[] = [];
+	let cluster = "";
+
+	for (let i = 0; i < chars.length; i++) {
+		const ch = chars[i];
+		const next = chars[i + 1];
+
+		if (CONSONANTS[ch]) {
+			let latin = CONSONANTS[ch];
+			if (next === NUKTA) {
+				latin = NUKTA_CONSONANTS[ch] || latin;
+				i++;
+			}
+			const after = chars[i + 1];
+			if (after === VIRAMA) {
+				cluster += latin; // Half consonant, joins the next one
+				i++;
+			} else if (after && MATRAS[after]) {
+				syllables.push({ consonant: cluster + latin, vowel: MATRAS[after], inherent: false, coda: "" });
+				cluster = "";
+				i++;
+			} else {
+				syllables.push({ consonant: cluster + latin, vowel: "a", inherent: true, coda: "" });
+				cluster = "";
+			}
+		} else if (VOWELS[ch]) {
+			syllables.push({ consonant: cluster, vowel: VOWELS[ch], inherent: false, coda: "" });
+			cluster = "";
+		} else if (ANUSVARA.has(ch) && syllables.length) {
+			// Anusvara sounds like "m" before p/b/m, otherwise "n" (mumbai, dilli)
+			syllables[syllables.length - 1].coda = LABIALS.has(next) ? "m" : "n";
+			syllables[syllables.length - 1].inherent = false;
+		} else if (ch === VISARGA && syllables.length) {
+			syllables[syllables.length - 1].coda = "h";
+		}
+	}
+
+	// Schwa deletion
+	syllables.forEach((s, i) => {
+		if (!s.inherent || i === 0) return;
+		const isLast = i === syllables.length - 1;
+		const prevHasVowel = !!syllables[i - 1].vowel;
+		const nextHasVowel = !isLast && !!syllables[i + 1].consonant && !!syllables[i + 1].vowel;
+		if (isLast || (prevHasVowel && nextHasVowel && !syllables[i + 1].inherent)) {
+			s.vowel = "";
+		}
+	});
+
+	return (
+		syllables.map((s) => s.consonant + s.vowel + s.coda).join("") + cluster
+	).toLowerCase();
+}
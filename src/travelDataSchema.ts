@@ -0,0 +1,160 @@
+import { City } from "./types/index.js";
+
+/**
+ * Thrown when travel data doesn't match the schema.
+ * `issues` has one readable line per problem, e.g. `cities[2].topSpots[0].rating: must be between 0 and 5`.
+ */
+export class TravelDataError extends Error {
+	issues: string[];
+
+	constructor(message: string, issues: string[]) {
+		super(`${message}\n  - ${issues.join("\n  - ")}`);
+		this.name = "TravelDataError";
+		this.issues = issues;
+	}
+}
+
+type Issues = string[];
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+	typeof v === "object" && v !== null && !Array.isArray(v);
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], at: string, issues: Issues) {
+	for (const key of Object.keys(value)) {
+		if (!allowed.includes(key)) issues.push(`${at}.${key}: unknown field`);
+	}
+}
+
+function checkString(value: unknown, at: string, issues: Issues) {
+	if (typeof value !== "string" || !value.trim()) {
+		issues.push(`${at}: must be a non-empty string`);
+	}
+}
+
+function checkNumber(
+	value: unknown,
+	at: string,
+	issues: Issues,
+	{ min, max }: { min?: number; max?: number } = {}
+) {
+	if (typeof value !== "number" || !Number.isFinite(value)) {
+		issues.push(`${at}: must be a number`);
+	} else if (min !== undefined && max !== undefined && (value < min || value > max)) {
+		issues.push(`${at}: must be between ${min} and ${max}`);
+	} else if (min !== undefined && value < min) {
+		issues.push(`${at}: must be at least ${min}`);
+	}
+}
+
+function checkArray(
+	value: unknown,
+	at: string,
+	issues: Issues,
+	each: (item: unknown, at: string) => void
+) {
+	if (!Array.isArray(value)) {
+		issues.push(`${at}: must be an array`);
+		return;
+	}
+	value.forEach((item, i) => each(item, `${at}[${i}]`));
+}
+
+function checkTopSpot(value: unknown, at: string, issues: Issues) {
+	if (!isObject(value)) return void issues.push(`${at}: must be an object`);
+	checkKeys(value, ["name", "type", "rating", "entryFee"], at, issues);
+	checkString(value.name, `${at}.name`, issues);
+	checkString(value.type, `${at}.type`, issues);
+	checkNumber(value.rating, `${at}.rating`, issues, { min: 0, max: 5 });
+	if (value.entryFee !== undefined) {
+		checkNumber(value.entryFee, `${at}.entryFee`, issues, { min: 0 });
+	}
+}
+
+function checkReview(value: unknown, at: string, issues: Issues) {
+	if (!isObject(value)) return void issues.push(`${at}: must be an object`);
+	checkKeys(value, ["user", "text", "rating"], at, issues);
+	checkString(value.user, `${at}.user`, issues);
+	checkString(value.text, `${at}.text`, issues);
+	checkNumber(value.rating, `${at}.rating`, issues, { min: 1, max: 5 });
+}
+
+/**
+ * Collects every schema problem with one city. Empty = valid.
+ * @param at Path prefix used in the messages, e.g. "cities[3]"
+ */
+export function cityIssues(value: unknown, at = "city"): string[] {
+	const issues: Issues = [];
+	if (!isObject(value)) return [`${at}: must be an object`];
+
+	checkKeys(
+		value,
+		[
+			"city",
+			"state",
+			"aliases",
+			"lat",
+			"lng",
+			"avgHotelPerNight",
+			"avgFoodPerDay",
+			"petrolPerKm",
+			"topSpots",
+			"reviews",
+		],
+		at,
+		issues
+	);
+	checkString(value.city, `${at}.city`, issues);
+	checkString(value.state, `${at}.state`, issues);
+	if (value.aliases !== undefined) {
+		checkArray(value.aliases, `${at}.aliases`, issues, (a, p) => checkString(a, p, issues));
+	}
+	// Coordinates are optional, but a city can't have just one of them
+	if (value.lat !== undefined || value.lng !== undefined) {
+		checkNumber(value.lat, `${at}.lat`, issues, { min: -90, max: 90 });
+		checkNumber(value.lng, `${at}.lng`, issues, { min: -180, max: 180 });
+	}
+	checkNumber(value.avgHotelPerNight, `${at}.avgHotelPerNight`, issues, { min: 0 });
+	checkNumber(value.avgFoodPerDay, `${at}.avgFoodPerDay`, issues, { min: 0 });
+	checkNumber(value.petrolPerKm, `${at}.petrolPerKm`, issues, { min: 0 });
+	checkArray(value.topSpots, `${at}.topSpots`, issues, (s, p) => checkTopSpot(s, p, issues));
+	checkArray(value.reviews, `${at}.reviews`, issues, (r, p) => checkReview(r, p, issues));
+	return issues;
+}
+
+/**
+ * Validates one city, throwing a TravelDataError listing every problem.
+ */
+export function parseCity(value: unknown): City {
+	const issues = cityIssues(value);
+	if (issues.length) throw new TravelDataError("Invalid city", issues);
+	return value as City;
+}
+
+/**
+ * Validates the whole travelData.json document.
+ * Also rejects two cities with the same name (case-insensitive).
+ */
+export function parseTravelData(value: unknown): City[] {
+	if (!isObject(value)) {
+		throw new TravelDataError("Invalid travel data", ["root: must be an object"]);
+	}
+	const issues: Issues = [];
+	checkKeys(value, ["cities"], "root", issues);
+	checkArray(value.cities, "cities", issues, (c, p) => issues.push(...cityIssues(c, p)));
+
+	if (Array.isArray(value.cities)) {
+		const seen = new Map<string, number>();
+		value.cities.forEach((c, i) => {
+			if (!isObject(c) || typeof c.city !== "string") return;
+			const name = c.city.toLowerCase();
+			if (seen.has(name)) {
+				issues.push(`cities[${i}].city: duplicate of cities[${seen.get(name)}] (${c.city})`);
+			} else {
+				seen.set(name, i);
+			}
+		});
+	}
+
+	if (issues.length) throw new TravelDataError("Invalid travel data", issues);
+	return value.cities as City[];
+}
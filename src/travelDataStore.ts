@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import { City } from "./types/index.js";
+import { loadTravelData } from "./utils.js";
+import { parseCity, parseTravelData } from "./travelDataSchema.js";
+import { log } from "./logger.js";
+
+/**
+ * Thrown by create and update when the city's name is already taken.
+ * The admin routes answer 409.
+ */
+export class CityExistsError extends Error {
+	constructor(name: string) {
+		super(`City '${name}' already exists.`);
+		this.name = "CityExistsError";
+	}
+}
+
+/**
+ * The structured city data, backed by travelData.json.
+ * `cities` is a live array: writes and reloads update it in place, so anything
+ * holding a reference to it (createApp, the tool executor) always sees current data.
+ *
+ * Writes only change this instance's copy of the file. With several instances, or a
+ * container whose filesystem resets on restart (Cloud Run), admin edits are temporary:
+ * commit travelData.json and redeploy to keep them.
+ */
+export interface TravelDataStore {
+	readonly cities: City[];
+	get(name: string): City | undefined;
+	/** Adds a city. Throws TravelDataError if invalid, CityExistsError if the name is taken. */
+	create(input: unknown): Promise<City>;
+	/**
+	 * Replaces a city (it may be renamed). Null if it doesn't exist.
+	 * Throws CityExistsError when renaming onto another city, which would merge them.
+	 */
+	update(name: string, input: unknown): Promise<City | null>;
+	remove(name: string): Promise<boolean>;
+	/** Re-reads the file. Invalid data is rejected and the old data kept. */
+	reload(): void;
+	/** Reloads whenever the file changes on disk. Returns a function that stops watching. */
+	watch(): () => void;
+}
+
+/**
+ * Factory function to create the travel data store.
+ * Loads (and validates) the file immediately, so a bad file fails startup.
+ * @param filePath Path to travelData.json
+ */
+export const createTravelDataStore = (filePath: string): TravelDataStore => {
+	const resolved = path.resolve(filePath);
+	const cities: City[] = loadTravelData(resolved);
+	let writing: Promise<unknown> = Promise.resolve();
+	let lastWritten = "";
+
+	const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+	const indexOf = (name: string) => cities.findIndex((c) => sameName(c.city, name));
+
+	// Runs one write at a time, in order. Each change reads `cities` inside its turn,
+	// so a write never overwrites one that was queued before it.
+	const queue = <T>(change: () => Promise<T>): Promise<T> => {
+		const result = writing.then(change, change);
+		writing = result.catch(() => {});
+		return result;
+	};
+
+	// Validates the whole list, then writes it atomically (temp file + rename)
+	const persist = async (next: City[]) => {
+		parseTravelData({ cities: next });
+		const json = JSON.stringify({ cities: next }, null, 2) + "\n";
+		const tmp = `${resolved}.tmp`;
+		await fs.promises.writeFile(tmp, json);
+		await fs.promises.rename(tmp, resolved);
+		lastWritten = json;
+		cities.splice(0, cities.length, ...next);
+	};
+
+	const store: TravelDataStore = {
+		cities,
+
+		get(name) {
+			return cities.find((c) => sameName(c.city, name));
+		},
+
+		async create(input) {
+			const city = parseCity(input);
+			return queue(async () => {
+				if (indexOf(city.city) !== -1) throw new CityExistsError(city.city);
+				await persist([...cities, city]);
+				return city;
+			});
+		},
+
+		async update(name, input) {
+			const city = parseCity(input);
+			return queue(async () => {
+				const i = indexOf(name);
+				if (i === -1) return null;
+				const other = indexOf(city.city);
+				if (other !== -1 && other !== i) throw new CityExistsError(city.city);
+				const next = [...cities];
+				next[i] = city;
+				await persist(next);
+				return city;
+			});
+		},
+
+		async remove(name) {
+			return queue(async () => {
+				const i = indexOf(name);
+				if (i === -1) return false;
+				await persist(cities.filter((_, j) => j !== i));
+				return true;
+			});
+		},
+
+		reload() {
+			try {
+				const raw = fs.readFileSync(resolved, "utf8");
+				if (raw === lastWritten) return; // Our own write
+				const next = loadTravelData(resolved);
+				cities.splice(0, cities.length, ...next);
+				log.info("Reloaded travel data", { cities: next.length, path: resolved });
+			} catch (err: any) {
+				log.error("Kept old travel data, reload failed", { error: err.message });
+			}
+		},
+
+		watch() {
+			let timer: NodeJS.Timeout | undefined;
+			// Watch the folder, not the file: editors (and persist) replace the file,
+			// and a watch on the old file would go quiet. Editors also fire several
+			// events per save, so wait for things to settle.
+			const watcher = fs.watch(path.dirname(resolved), (_, name) => {
+				if (name !== path.basename(resolved)) return;
+				clearTimeout(timer);
+				timer = setTimeout(() => store.reload(), 200);
+			});
+			return () => {
+				clearTimeout(timer);
+				watcher.close();
+			};
+		},
+	};
+	return store;
+};
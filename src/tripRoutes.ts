@@ -0,0 +1,428 @@
+import { Router, Request, Response, RequestHandler } from "express";
+import { ChatMessage, City, Conversation, Trip, TripActivity, TripDay } from "./types/index.js";
+import { TripFields, TripStore } from "./tripStore.js";
+import { ConversationStore } from "./conversationStore.js";
+import { ChatProvider } from "./llmProvider.js";
+import { UsageStore, usageDay } from "./usageStore.js";
+import {
+	MAX_ACTIVITIES_PER_DAY,
+	MAX_TRIP_DAYS,
+	TripError,
+	TripInput,
+	daysBetween,
+	emptyDays,
+	endDateFor,
+	extractItinerary,
+	isDate,
+	itineraryDays,
+	newActivity,
+	parseActivity,
+	parseItinerary,
+	parseTripInput,
+	renumberDays,
+	tripDetails,
+	tripToIcs,
+	tripToMarkdown,
+} from "./trips.js";
+import { log } from "./logger.js";
+
+export interface TripRouterOptions {
+	cities: City[]; // Live array: trips are validated and budgeted against it
+	conversationStore: ConversationStore; // Where /from-chat finds the answer
+	chatProvider: ChatProvider; // Turns that answer into itinerary JSON
+	usageStore?: UsageStore; // Counts the tokens /from-chat uses
+	quota?: RequestHandler; // Runs once /from-chat has found the answer, just before the model call
+}
+
+// What checkFromChat found, for the /from-chat handler
+interface FromChatRequest {
+	input: TripInput;
+	conversation: Conversation;
+	answer: ChatMessage;
+}
+
+/** "3 days in Jaipur!" -> "3-days-in-jaipur", for download file names */
+const slug = (title: string) =>
+	title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "trip";
+
+const hasActivities = (days: TripDay[]) => days.some((d) => d.activities.length);
+
+/**
+ * Factory function to create the saved trip routes.
+ * Trips are built by hand (days and activities) or from a chat answer,
+ * and export to iCalendar and Markdown.
+ * Must be mounted behind the auth middleware, since every route reads req.user.
+ * @param store The trip store to read from and write to.
+ * @param options Cities, and what /from-chat needs
+ * @returns An Express router for /api/trips.
+ */
+export const createTripRouter = (store: TripStore, options: TripRouterOptions): Router => {
+	const { cities, conversationStore, chatProvider, usageStore, quota } = options;
+	const router = Router();
+
+	const fail = (res: Response, err: any, action: string) => {
+		if (err instanceof TripError) {
+			return res.status(400).json({ error: err.message.split("\n")[0], issues: err.issues });
+		}
+		log.error(`ERROR while trying to ${action}`, { error: err.message });
+		res.status(500).json({ error: `Failed to ${action}.` });
+	};
+
+	const sendTrip = (res: Response, trip: Trip, status = 200) =>
+		res.status(status).json({ trip: tripDetails(trip, cities) });
+
+	/**
+	 * Wraps a handler that works on one of the user's trips (req.params.id).
+	 * Answers 404 if there's no such trip, and maps errors like `fail`.
+	 */
+	const withTrip =
+		(action: string, handler: (trip: Trip, req: Request, res: Response) => Promise<unknown>) =>
+		async (req: Request, res: Response) => {
+			try {
+				const trip = await store.get(req.user!.id, req.params.id);
+				if (!trip) {
+					return res.status(404).json({ error: "Trip not found." });
+				}
+				await handler(trip, req, res);
+			} catch (err: any) {
+				fail(res, err, action);
+			}
+		};
+
+	/** Saves the changes and answers with the updated trip. */
+	const save = async (req: Request, res: Response, changes: Partial<TripFields>, status = 200) => {
+		const trip = await store.update(req.user!.id, req.params.id, changes);
+		if (!trip) {
+			return res.status(404).json({ error: "Trip not found." });
+		}
+		sendTrip(res, trip, status);
+	};
+
+	/** The day in req.params.day, or null (having answered 404). */
+	const findDay = (trip: Trip, req: Request, res: Response): TripDay | null => {
+		const day = trip.days.find((d) => String(d.day) === req.params.day);
+		if (!day) res.status(404).json({ error: "Day not found." });
+		return day || null;
+	};
+
+	/** The trip's days with `day` replaced by `change(day)`. */
+	const replaceDay = (trip: Trip, day: TripDay, change: (day: TripDay) => TripDay) =>
+		trip.days.map((d) => (d.day === day.day ? change(d) : d));
+
+	// --- Trips ---
+	router.get("/", async (req: Request, res: Response) => {
+		try {
+			res.json({ trips: await store.list(req.user!.id) });
+		} catch (err: any) {
+			fail(res, err, "list trips");
+		}
+	});
+
+	// Body: { city, startDate, endDate?, travellers?, tier?, title?, itinerary? }
+	// Without an endDate, the trip is as long as the itinerary (or one day)
+	router.post("/", async (req: Request, res: Response) => {
+		const body = req.body || {};
+		const { input, issues } = parseTripInput(body, cities);
+		const parsed = body.itinerary !== undefined ? parseItinerary(body.itinerary) : null;
+		if (parsed) issues.push(...parsed.issues);
+
+		let length = parsed?.itinerary?.days.length || 1;
+		if (input.startDate && input.endDate) {
+			length = daysBetween(input.startDate, input.endDate) + 1;
+			if (length < 1) issues.push("endDate: must not be before startDate");
+			else if (parsed?.itinerary && parsed.itinerary.days.length > length) {
+				issues.push(`itinerary.days: has ${parsed.itinerary.days.length} days, the dates only ${length}`);
+			}
+		}
+		if (length > MAX_TRIP_DAYS) issues.push(`endDate: a trip can be at most ${MAX_TRIP_DAYS} days`);
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid trip.", issues });
+		}
+
+		try {
+			const trip = await store.create(req.user!.id, {
+				title: input.title || parsed?.itinerary?.title || `${input.city} trip`,
+				city: input.city!,
+				startDate: input.startDate!,
+				endDate: endDateFor(input.startDate!, length),
+				travellers: input.travellers!,
+				...(input.tier && { tier: input.tier }),
+				days: parsed?.itinerary ? itineraryDays(parsed.itinerary, length) : emptyDays(length),
+			});
+			log.info("Trip created", { tripId: trip.id, city: trip.city, days: length });
+			sendTrip(res, trip, 201);
+		} catch (err: any) {
+			fail(res, err, "create trip");
+		}
+	});
+
+	// Finds the answer /from-chat converts. Everything is checked before the quota,
+	// so a request that never reaches the model doesn't use one up.
+	const checkFromChat: RequestHandler = async (req, res, next) => {
+		const userId = req.user!.id;
+		const body = req.body || {};
+		const { input, issues } = parseTripInput(
+			{ startDate: body.startDate, travellers: body.travellers, tier: body.tier, title: body.title, city: body.city },
+			cities,
+			{ partial: true }
+		);
+		if (typeof body.conversationId !== "string") issues.push("conversationId: must be a string");
+		if (body.requestId !== undefined && typeof body.requestId !== "string") {
+			issues.push("requestId: must be a string");
+		}
+		if (!isDate(body.startDate)) issues.push("startDate: must be a date as YYYY-MM-DD");
+		if (issues.length) {
+			return res.status(400).json({ error: "Invalid trip request.", issues: [...new Set(issues)] });
+		}
+
+		try {
+			const conversation = await conversationStore.get(userId, body.conversationId);
+			if (!conversation) {
+				return res.status(404).json({ error: "Conversation not found." });
+			}
+			const answers = conversation.messages.filter((m) => m.role === "model" && !m.blocked);
+			const answer = body.requestId
+				? answers.find((m) => m.requestId === body.requestId)
+				: answers[answers.length - 1];
+			if (!answer) {
+				return res.status(404).json({ error: "No answer to turn into a trip." });
+			}
+			res.locals.fromChat = { input, conversation, answer };
+			next();
+		} catch (err: any) {
+			fail(res, err, "create trip from chat");
+		}
+	};
+
+	// Body: { conversationId, requestId?, startDate, travellers?, tier?, title?, city? }
+	// Turns a chat answer (the one with requestId, or the latest) into a trip
+	const fromChatHandlers: RequestHandler[] = quota ? [checkFromChat, quota] : [checkFromChat];
+	router.post("/from-chat", ...fromChatHandlers, async (req: Request, res: Response) => {
+		const userId = req.user!.id;
+		const { input, conversation, answer }: FromChatRequest = res.locals.fromChat;
+		try {
+			// 1. Answer -> itinerary JSON, validated (the model gets one retry)
+			const { itinerary, issues: extractIssues, usage } = await extractItinerary(chatProvider, answer.text);
+			await usageStore
+				?.record(userId, usageDay(), { tokens: usage })
+				.catch((err) => log.error("Failed to record token usage", { error: err.message }));
+			if (!itinerary) {
+				log.warn("Itinerary extraction failed", { conversationId: conversation.id, issues: extractIssues });
+				return res
+					.status(422)
+					.json({ error: "Couldn't turn that answer into an itinerary.", issues: extractIssues });
+			}
+
+			// 2. The city: asked for, or the itinerary's, or the one the answer was about
+			const city = parseTripInput(
+				{ city: input.city ?? itinerary.city ?? answer.sources?.cities[0]?.city },
+				cities,
+				{ partial: true }
+			);
+			if (city.issues.length || !city.input.city) {
+				return res.status(422).json({
+					error: "Couldn't tell which city that itinerary is for.",
+					issues: city.issues.length ? city.issues : ["city: not in the answer; send one"],
+				});
+			}
+
+			// 3. Save it
+			const trip = await store.create(userId, {
+				title: input.title || itinerary.title || `${city.input.city} trip`,
+				city: city.input.city,
+				startDate: input.startDate!,
+				endDate: endDateFor(input.startDate!, itinerary.days.length),
+				travellers: input.travellers ?? 1,
+				...(input.tier && { tier: input.tier }),
+				days: itineraryDays(itinerary),
+				conversationId: conversation.id,
+			});
+			log.info("Trip created from chat", { tripId: trip.id, city: trip.city, days: trip.days.length, usage });
+			sendTrip(res, trip, 201);
+		} catch (err: any) {
+			fail(res, err, "create trip from chat");
+		}
+	});
+
+	router.get("/:id", withTrip("fetch trip", async (trip, req, res) => sendTrip(res, trip)));
+
+	// Body: any of { title, city, startDate, endDate, travellers, tier (null clears) }
+	// A new startDate moves the whole trip; a new endDate adds or drops days at the end
+	router.patch(
+		"/:id",
+		withTrip("update trip", async (trip, req, res) => {
+			const { input, issues } = parseTripInput(req.body, cities, { partial: true });
+			if (issues.length) throw new TripError("Invalid trip", issues);
+
+			const startDate = input.startDate ?? trip.startDate;
+			let days = trip.days;
+			if (input.endDate) {
+				const length = daysBetween(startDate, input.endDate) + 1;
+				if (length < 1) throw new TripError("Invalid trip", ["endDate: must not be before startDate"]);
+				if (length > MAX_TRIP_DAYS) {
+					throw new TripError("Invalid trip", [`endDate: a trip can be at most ${MAX_TRIP_DAYS} days`]);
+				}
+				if (hasActivities(days.slice(length))) {
+					throw new TripError("Invalid trip", [
+						`endDate: days ${length + 1}-${days.length} have activities; delete them first`,
+					]);
+				}
+				days = [...days.slice(0, length), ...emptyDays(length - days.length, days.length + 1)];
+			}
+
+			const { endDate, tier, ...rest } = input;
+			await save(req, res, {
+				...rest,
+				...(tier !== undefined && { tier: tier ?? undefined }),
+				days,
+				endDate: endDateFor(startDate, days.length),
+			});
+		})
+	);
+
+	router.delete("/:id", async (req: Request, res: Response) => {
+		try {
+			const deleted = await store.remove(req.user!.id, req.params.id);
+			if (!deleted) {
+				return res.status(404).json({ error: "Trip not found." });
+			}
+			res.status(204).end();
+		} catch (err: any) {
+			fail(res, err, "delete trip");
+		}
+	});
+
+	// --- Exports ---
+	router.get(
+		"/:id/calendar.ics",
+		withTrip("export trip", async (trip, req, res) => {
+			res
+				.type("text/calendar; charset=utf-8")
+				.attachment(`${slug(trip.title)}.ics`)
+				.send(tripToIcs(trip));
+		})
+	);
+
+	router.get(
+		"/:id/itinerary.md",
+		withTrip("export trip", async (trip, req, res) => {
+			res
+				.type("text/markdown; charset=utf-8")
+				.attachment(`${slug(trip.title)}.md`)
+				.send(tripToMarkdown(tripDetails(trip, cities)));
+		})
+	);
+
+	// --- Days ---
+	// Body: { title? }. Adds a day at the end; the trip ends a day later
+	router.post(
+		"/:id/days",
+		withTrip("add day", async (trip, req, res) => {
+			const issues: string[] = [];
+			const { title } = req.body || {};
+			if (title !== undefined && (typeof title !== "string" || title.length > 100)) {
+				issues.push("title: must be a string of at most 100 characters");
+			}
+			if (trip.days.length >= MAX_TRIP_DAYS) issues.push(`days: a trip can be at most ${MAX_TRIP_DAYS} days`);
+			if (issues.length) throw new TripError("Invalid day", issues);
+
+			const day: TripDay = { day: trip.days.length + 1, ...(title?.trim() && { title: title.trim() }), activities: [] };
+			const days = [...trip.days, day];
+			await save(req, res, { days, endDate: endDateFor(trip.startDate, days.length) }, 201);
+		})
+	);
+
+	// Body: { title } (null or "" clears it)
+	router.patch(
+		"/:id/days/:day",
+		withTrip("update day", async (trip, req, res) => {
+			const day = findDay(trip, req, res);
+			if (!day) return;
+			const { title } = req.body || {};
+			if (title !== null && (typeof title !== "string" || title.length > 100)) {
+				throw new TripError("Invalid day", ["title: must be a string of at most 100 characters, or null"]);
+			}
+			const days = replaceDay(trip, day, ({ title: _, ...d }) => ({
+				...d,
+				...(title?.trim() && { title: title.trim() }),
+			}));
+			await save(req, res, { days });
+		})
+	);
+
+	// Removes a day with its activities; later days move up and the trip ends a day earlier
+	router.delete(
+		"/:id/days/:day",
+		withTrip("delete day", async (trip, req, res) => {
+			const day = findDay(trip, req, res);
+			if (!day) return;
+			if (trip.days.length === 1) {
+				throw new TripError("Invalid day", ["days: a trip needs at least one day"]);
+			}
+			const days = renumberDays(trip.days.filter((d) => d !== day));
+			await save(req, res, { days, endDate: endDateFor(trip.startDate, days.length) });
+		})
+	);
+
+	// --- Activities ---
+	// Body: { title, time?, durationMinutes?, location?, notes?, cost? }
+	router.post(
+		"/:id/days/:day/activities",
+		withTrip("add activity", async (trip, req, res) => {
+			const day = findDay(trip, req, res);
+			if (!day) return;
+			const { activity, issues } = parseActivity(req.body);
+			if (day.activities.length >= MAX_ACTIVITIES_PER_DAY) {
+				issues.push(`activities: at most ${MAX_ACTIVITIES_PER_DAY} per day`);
+			}
+			if (issues.length) throw new TripError("Invalid activity", issues);
+
+			const added = newActivity(activity as Omit<TripActivity, "id">);
+			const days = replaceDay(trip, day, (d) => ({ ...d, activities: [...d.activities, added] }));
+			await save(req, res, { days }, 201);
+		})
+	);
+
+	// Body: any activity fields; null clears an optional one
+	router.patch(
+		"/:id/days/:day/activities/:activityId",
+		withTrip("update activity", async (trip, req, res) => {
+			const day = findDay(trip, req, res);
+			if (!day) return;
+			const current = day.activities.find((a) => a.id === req.params.activityId);
+			if (!current) {
+				return res.status(404).json({ error: "Activity not found." });
+			}
+			const { activity: changes, issues } = parseActivity(req.body, "activity", { partial: true });
+			if (issues.length) throw new TripError("Invalid activity", issues);
+
+			const updated: TripActivity = { ...current, ...changes };
+			for (const key of Object.keys(changes) as (keyof TripActivity)[]) {
+				if (updated[key] === undefined) delete updated[key]; // Cleared with null
+			}
+			const days = replaceDay(trip, day, (d) => ({
+				...d,
+				activities: d.activities.map((a) => (a.id === current.id ? updated : a)),
+			}));
+			await save(req, res, { days });
+		})
+	);
+
+	router.delete(
+		"/:id/days/:day/activities/:activityId",
+		withTrip("delete activity", async (trip, req, res) => {
+			const day = findDay(trip, req, res);
+			if (!day) return;
+			if (!day.activities.some((a) => a.id === req.params.activityId)) {
+				return res.status(404).json({ error: "Activity not found." });
+			}
+			const days = replaceDay(trip, day, (d) => ({
+				...d,
+				activities: d.activities.filter((a) => a.id !== req.params.activityId),
+			}));
+			await save(req, res, { days });
+		})
+	);
+
+	return router;
+};
@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Trip, TripSummary } from "./types/index.js";
+import { isUuid } from "./utils.js";
+
+// What a caller can set; ids, owner and timestamps are the store's
+export type TripFields = Omit<Trip, "id" | "userId" | "createdAt" | "updatedAt">;
+
+/**
+ * Storage for saved trips.
+ * Every method is scoped by userId, so one user can never see another user's trips.
+ * The store doesn't validate; the routes do (see trips.ts).
+ */
+export interface TripStore {
+	list(userId: string): Promise<TripSummary[]>;
+	get(userId: string, id: string): Promise<Trip | null>;
+	create(userId: string, fields: TripFields): Promise<Trip>;
+	update(userId: string, id: string, changes: Partial<TripFields>): Promise<Trip | null>;
+	remove(userId: string, id: string): Promise<boolean>;
+	/** Cheap reachability check for /readyz. Throws if the store can't be used. */
+	ping(): Promise<void>;
+}
+
+const toSummary = (t: Trip): TripSummary => ({
+	id: t.id,
+	title: t.title,
+	city: t.city,
+	startDate: t.startDate,
+	endDate: t.endDate,
+	travellers: t.travellers,
+	activityCount: t.days.reduce((n, d) => n + d.activities.length, 0),
+	updatedAt: t.updatedAt,
+});
+
+/**
+ * In-memory store. Used for local dev and tests; everything is lost on restart.
+ */
+export const createInMemoryTripStore = (): TripStore => {
+	const trips = new Map<string, Trip>();
+
+	const find = (userId: string, id: string) => {
+		const t = trips.get(id);
+		return t && t.userId === userId ? t : null;
+	};
+
+	return {
+		async list(userId) {
+			return [...trips.values()]
+				.filter((t) => t.userId === userId)
+				.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+				.map(toSummary);
+		},
+
+		async get(userId, id) {
+			return find(userId, id);
+		},
+
+		async create(userId, fields) {
+			const now = new Date().toISOString();
+			const trip: Trip = { id: randomUUID(), userId, ...fields, createdAt: now, updatedAt: now };
+			trips.set(trip.id, trip);
+			return trip;
+		},
+
+		async update(userId, id, changes) {
+			const t = find(userId, id);
+			if (!t) return null;
+			Object.assign(t, changes, { updatedAt: new Date().toISOString() });
+			return t;
+		},
+
+		async remove(userId, id) {
+			if (!find(userId, id)) return false;
+			return trips.delete(id);
+		},
+
+		async ping() {},
+	};
+};
+
+/**
+ * Supabase-backed store.
+ * Expects a `trips` table with columns:
+ * id (uuid, default gen_random_uuid()), user_id (uuid), title (text), city (text),
+ * start_date (date), end_date (date), travellers (int), tier (text, nullable),
+ * days (jsonb), conversation_id (uuid, nullable), created_at (timestamptz), updated_at (timestamptz).
+ * The client must use the SERVICE key, since the server writes on behalf of users.
+ */
+export const createSupabaseTripStore = (
+	supabase: SupabaseClient,
+	tableName = "trips"
+): TripStore => {
+	const fromRow = (row: any): Trip => ({
+		id: row.id,
+		userId: row.user_id,
+		title: row.title,
+		city: row.city,
+		startDate: row.start_date,
+		endDate: row.end_date,
+		travellers: row.travellers,
+		...(row.tier && { tier: row.tier }),
+		days: row.days || [],
+		...(row.conversation_id && { conversationId: row.conversation_id }),
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	});
+
+	const toRow = (fields: Partial<TripFields>) => {
+		const columns: Record<string, unknown> = {
+			title: fields.title,
+			city: fields.city,
+			start_date: fields.startDate,
+			end_date: fields.endDate,
+			travellers: fields.travellers,
+			days: fields.days,
+		};
+		// Optional fields: present but undefined clears the column
+		if ("tier" in fields) columns.tier = fields.tier ?? null;
+		if ("conversationId" in fields) columns.conversation_id = fields.conversationId ?? null;
+		return Object.fromEntries(Object.entries(columns).filter(([, v]) => v !== undefined));
+	};
+
+	return {
+		async list(userId) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.select("*")
+				.eq("user_id", userId)
+				.order("updated_at", { ascending: false });
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+			return (data || []).map((row) => toSummary(fromRow(row)));
+		},
+
+		// Ids that aren't UUIDs can't exist (and Postgres would fail on them)
+		async get(userId, id) {
+			if (!isUuid(id)) return null;
+			const { data, error } = await supabase
+				.from(tableName)
+				.select("*")
+				.eq("user_id", userId)
+				.eq("id", id)
+				.maybeSingle();
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+			return data ? fromRow(data) : null;
+		},
+
+		async create(userId, fields) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.insert({ user_id: userId, ...toRow(fields) })
+				.select("*")
+				.single();
+			if (error) throw new Error(`Supabase insert error: ${error.message}`);
+			return fromRow(data);
+		},
+
+		async update(userId, id, changes) {
+			if (!isUuid(id)) return null;
+			const { data, error } = await supabase
+				.from(tableName)
+				.update({ ...toRow(changes), updated_at: new Date().toISOString() })
+				.eq("user_id", userId)
+				.eq("id", id)
+				.select("*")
+				.maybeSingle();
+			if (error) throw new Error(`Supabase update error: ${error.message}`);
+			return data ? fromRow(data) : null;
+		},
+
+		async remove(userId, id) {
+			if (!isUuid(id)) return false;
+			const { data, error } = await supabase
+				.from(tableName)
+				.delete()
+				.eq("user_id", userId)
+				.eq("id", id)
+				.select("id");
+			if (error) throw new Error(`Supabase delete error: ${error.message}`);
+			return (data || []).length > 0;
+		},
+
+		async ping() {
+			const { error } = await supabase.from(tableName).select("id").limit(1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+		},
+	};
+};
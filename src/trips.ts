@@ -0,0 +1,570 @@
+import { randomUUID } from "crypto";
+import {
+	BudgetTier,
+	City,
+	Itinerary,
+	TokenUsage,
+	Trip,
+	TripActivity,
+	TripDay,
+	TripDetails,
+} from "./types/index.js";
+import { ChatProvider } from "./llmProvider.js";
+import { BUDGET_TIERS, estimateDetailedTripCost, parseEstimateRequest } from "./costEstimator.js";
+import { searchCity } from "./utils.js";
+
+export const MAX_TRIP_DAYS = 30;
+export const MAX_ACTIVITIES_PER_DAY = 20;
+const MAX_TRAVELLERS = 50;
+const MAX_TITLE_LENGTH = 100;
+const MAX_TEXT_LENGTH = 500;
+const DEFAULT_DURATION_MINUTES = 60;
+// Trips are in India: times are IST, which has no daylight saving
+const IST_OFFSET_MINUTES = 330;
+
+/**
+ * Thrown when a trip, day or activity doesn't pass validation.
+ * `issues` has one readable line per problem, e.g. `days[1].activities[0].time: must be HH:MM`.
+ */
+export class TripError extends Error {
+	issues: string[];
+
+	constructor(message: string, issues: string[]) {
+		super(`${message}\n  - ${issues.join("\n  - ")}`);
+		this.name = "TripError";
+		this.issues = issues;
+	}
+}
+
+type Issues = string[];
+
+const isObject = (v: unknown): v is Record<string, any> =>
+	typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isWholeNumber = (v: unknown, min: number, max: number): v is number =>
+	Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], at: string, issues: Issues) {
+	for (const key of Object.keys(value)) {
+		if (!allowed.includes(key)) issues.push(`${at}.${key}: unknown field`);
+	}
+}
+
+/** A trimmed string, or undefined (with an issue if it was there but wrong). */
+function readText(
+	value: unknown,
+	at: string,
+	issues: Issues,
+	{ required = false, max = MAX_TEXT_LENGTH } = {}
+): string | undefined {
+	if (value === undefined || value === null) {
+		if (required) issues.push(`${at}: must be a non-empty string`);
+		return undefined;
+	}
+	if (typeof value !== "string" || (required && !value.trim())) {
+		issues.push(`${at}: must be a${required ? " non-empty" : ""} string`);
+		return undefined;
+	}
+	if (value.length > max) issues.push(`${at}: must be at most ${max} characters`);
+	return value.trim() || undefined;
+}
+
+// --- DATES ---
+// Plain calendar dates ("2026-10-20"), always handled in UTC so no timezone shifts them
+
+/** True for a real "YYYY-MM-DD" date (not "2026-02-30"). */
+export function isDate(value: unknown): value is string {
+	if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+	return new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+/** The date `days` after `date`. */
+export const addDays = (date: string, days: number): string =>
+	new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+
+/** How many days `to` is after `from` (negative if before). */
+export const daysBetween = (from: string, to: string): number =>
+	Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/** Pads "9:30" to "09:30"; anything that isn't a time of day is null. */
+function parseTime(value: string): string | null {
+	const match = value.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+	return match ? `${match[1].padStart(2, "0")}:${match[2]}` : null;
+}
+
+// --- VALIDATION ---
+const ACTIVITY_FIELDS = ["title", "time", "durationMinutes", "location", "notes", "cost"];
+
+/**
+ * Validates one activity (without its id). Used for both hand-made
+ * activities and the ones a chat answer was turned into.
+ * @param partial For updates: every field is optional, and null clears one
+ */
+export function parseActivity(
+	value: unknown,
+	at = "activity",
+	{ partial = false } = {}
+): { activity: Partial<Omit<TripActivity, "id">>; issues: string[] } {
+	const issues: Issues = [];
+	if (!isObject(value)) return { activity: {}, issues: [`${at}: must be an object`] };
+	checkKeys(value, ACTIVITY_FIELDS, at, issues);
+
+	const activity: Partial<Omit<TripActivity, "id">> = {};
+	if (!partial || value.title !== undefined) {
+		activity.title = readText(value.title, `${at}.title`, issues, {
+			required: true,
+			max: MAX_TITLE_LENGTH,
+		});
+	}
+	if (value.time !== undefined && value.time !== null) {
+		const time = typeof value.time === "string" ? parseTime(value.time) : null;
+		if (!time) issues.push(`${at}.time: must be a time of day as HH:MM, e.g. "09:30"`);
+		else activity.time = time;
+	}
+	if (value.durationMinutes !== undefined && value.durationMinutes !== null) {
+		if (!isWholeNumber(value.durationMinutes, 1, 24 * 60)) {
+			issues.push(`${at}.durationMinutes: must be a whole number between 1 and 1440`);
+		} else {
+			activity.durationMinutes = value.durationMinutes;
+		}
+	}
+	activity.location = readText(value.location, `${at}.location`, issues, { max: MAX_TITLE_LENGTH });
+	activity.notes = readText(value.notes, `${at}.notes`, issues);
+	if (value.cost !== undefined && value.cost !== null) {
+		if (typeof value.cost !== "number" || !Number.isFinite(value.cost) || value.cost < 0) {
+			issues.push(`${at}.cost: must be a number >= 0 (INR per person)`);
+		} else {
+			activity.cost = value.cost;
+		}
+	}
+
+	// Updates only touch what was sent, and null (or "") clears an optional field.
+	// Elsewhere, fields that ended up empty are left out.
+	for (const key of ACTIVITY_FIELDS as (keyof typeof activity)[]) {
+		if (partial && key in value) {
+			if (!(key in activity)) activity[key] = undefined;
+		} else if (partial || activity[key] === undefined) {
+			delete activity[key];
+		}
+	}
+	return { activity, issues };
+}
+
+/** Validates a day-by-day plan (see Itinerary), collecting every problem. */
+export function parseItinerary(value: unknown): { itinerary: Itinerary | null; issues: string[] } {
+	const issues: Issues = [];
+	if (!isObject(value)) return { itinerary: null, issues: ["itinerary: must be an object"] };
+	checkKeys(value, ["title", "city", "days"], "itinerary", issues);
+
+	const title = readText(value.title, "itinerary.title", issues, { max: MAX_TITLE_LENGTH });
+	const city = readText(value.city, "itinerary.city", issues, { max: MAX_TITLE_LENGTH });
+	const days: Itinerary["days"] = [];
+	if (!Array.isArray(value.days) || !value.days.length) {
+		issues.push("itinerary.days: must be a non-empty array");
+	} else if (value.days.length > MAX_TRIP_DAYS) {
+		issues.push(`itinerary.days: at most ${MAX_TRIP_DAYS} days`);
+	} else {
+		value.days.forEach((day: unknown, i: number) => {
+			const at = `itinerary.days[${i}]`;
+			if (!isObject(day)) return void issues.push(`${at}: must be an object`);
+			checkKeys(day, ["title", "activities"], at, issues);
+			const dayTitle = readText(day.title, `${at}.title`, issues, { max: MAX_TITLE_LENGTH });
+			if (!Array.isArray(day.activities)) {
+				return void issues.push(`${at}.activities: must be an array`);
+			}
+			if (day.activities.length > MAX_ACTIVITIES_PER_DAY) {
+				issues.push(`${at}.activities: at most ${MAX_ACTIVITIES_PER_DAY} per day`);
+			}
+			const activities = day.activities.map((a: unknown, j: number) => {
+				const parsed = parseActivity(a, `${at}.activities[${j}]`);
+				issues.push(...parsed.issues);
+				return parsed.activity as Omit<TripActivity, "id">;
+			});
+			days.push({ ...(dayTitle && { title: dayTitle }), activities });
+		});
+	}
+
+	if (issues.length) return { itinerary: null, issues };
+	return { itinerary: { ...(title && { title }), ...(city && { city }), days }, issues };
+}
+
+export interface TripInput {
+	title?: string;
+	city?: string;
+	startDate?: string;
+	endDate?: string;
+	travellers?: number;
+	tier?: BudgetTier | null;
+}
+
+/**
+ * Validates the trip-level fields of a create or update request.
+ * The city must be one we have data for; it's stored under its canonical name.
+ * @param partial For updates: every field is optional
+ */
+export function parseTripInput(
+	value: unknown,
+	cities: City[],
+	{ partial = false } = {}
+): { input: TripInput; issues: string[] } {
+	const issues: Issues = [];
+	if (!isObject(value)) return { input: {}, issues: ["trip: must be an object"] };
+	const input: TripInput = {};
+
+	if (!partial || value.title !== undefined) {
+		input.title = readText(value.title, "title", issues, { required: partial, max: MAX_TITLE_LENGTH });
+	}
+	if (!partial || value.city !== undefined) {
+		if (typeof value.city !== "string" || !value.city.trim()) {
+			issues.push("city: must be a non-empty string");
+		} else {
+			const city = searchCity(value.city, cities)[0];
+			if (!city) issues.push(`city: no travel data for '${value.city}'`);
+			else input.city = city.city;
+		}
+	}
+	if (!partial || value.startDate !== undefined) {
+		if (!isDate(value.startDate)) issues.push("startDate: must be a date as YYYY-MM-DD");
+		else input.startDate = value.startDate;
+	}
+	if (value.endDate !== undefined) {
+		if (!isDate(value.endDate)) issues.push("endDate: must be a date as YYYY-MM-DD");
+		else input.endDate = value.endDate;
+	}
+	if (!partial || value.travellers !== undefined) {
+		const travellers = value.travellers ?? 1;
+		if (!isWholeNumber(travellers, 1, MAX_TRAVELLERS)) {
+			issues.push(`travellers: must be a whole number between 1 and ${MAX_TRAVELLERS}`);
+		} else {
+			input.travellers = travellers;
+		}
+	}
+	if (value.tier !== undefined) {
+		if (value.tier !== null && !BUDGET_TIERS.includes(value.tier)) {
+			issues.push(`tier: must be one of ${BUDGET_TIERS.join(", ")}`);
+		} else {
+			input.tier = value.tier;
+		}
+	}
+	return { input, issues };
+}
+
+// --- BUILDING ---
+export const newActivity = (fields: Omit<TripActivity, "id">): TripActivity => ({
+	id: randomUUID(),
+	...fields,
+});
+
+/** Empty days numbered from `from`, e.g. for a trip's first dates or when it gets longer. */
+export const emptyDays = (count: number, from = 1): TripDay[] =>
+	Array.from({ length: count }, (_, i) => ({ day: from + i, activities: [] }));
+
+/**
+ * Turns an itinerary into trip days (with fresh activity ids),
+ * padded with empty days up to `length`.
+ */
+export const itineraryDays = (itinerary: Itinerary, length = itinerary.days.length): TripDay[] => [
+	...itinerary.days.map((d, i) => ({
+		day: i + 1,
+		...(d.title && { title: d.title }),
+		activities: d.activities.map(newActivity),
+	})),
+	...emptyDays(Math.max(length - itinerary.days.length, 0), itinerary.days.length + 1),
+];
+
+/** Renumbers days 1..n after one was removed. */
+export const renumberDays = (days: TripDay[]): TripDay[] =>
+	days.map((d, i) => ({ ...d, day: i + 1 }));
+
+/** The last date of a trip that starts on `startDate` and has `days` days. */
+export const endDateFor = (startDate: string, days: number): string =>
+	addDays(startDate, Math.max(days, 1) - 1);
+
+/** Earliest first; untimed activities go last, in the order they were added. */
+export const sortActivities = (activities: TripActivity[]): TripActivity[] =>
+	activities
+		.map((a, i) => ({ a, i }))
+		.sort((x, y) =>
+			x.a.time && y.a.time
+				? x.a.time.localeCompare(y.a.time) || x.i - y.i
+				: x.a.time ? -1 : y.a.time ? 1 : x.i - y.i
+		)
+		.map(({ a }) => a);
+
+// --- BUDGET ---
+
+/**
+ * Attaches the city's current data and a budget to a trip.
+ * The budget is the cost estimator's, for the trip's nights, travellers and tier,
+ * with every activity cost as an entry fee. Travel to the city isn't included.
+ */
+export function tripDetails(trip: Trip, cities: City[]): TripDetails {
+	const findCity = (name: string) => searchCity(name, cities)[0];
+	const cityData = findCity(trip.city) || null;
+	if (!cityData) {
+		return {
+			...trip,
+			cityData,
+			budget: null,
+			budgetWarnings: [`No travel data for '${trip.city}' anymore, so no budget.`],
+		};
+	}
+
+	const entryFees = trip.days.flatMap((d) =>
+		d.activities
+			.filter((a) => a.cost !== undefined)
+			.map((a) => ({ name: a.title, fee: a.cost! }))
+	);
+	const { params, issues, warnings } = parseEstimateRequest(
+		{
+			city: trip.city,
+			legs: [],
+			nights: Math.max(trip.days.length - 1, 0),
+			days: trip.days.length,
+			travellers: trip.travellers,
+			...(trip.tier && { tier: trip.tier }),
+			entryFees,
+		},
+		findCity
+	);
+	return {
+		...trip,
+		cityData,
+		budget: params ? estimateDetailedTripCost(params) : null,
+		budgetWarnings: [...issues, ...warnings],
+	};
+}
+
+// --- ICALENDAR ---
+// RFC 5545: CRLF line endings, lines folded at 75 octets, text escaped
+
+const icsText = (text: string) =>
+	text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/** Folds a content line into 75-octet pieces without splitting a UTF-8 character. */
+function foldLine(line: string): string {
+	const parts: string[] = [];
+	let current = "";
+	let bytes = 0;
+	for (const char of line) {
+		const size = Buffer.byteLength(char);
+		// Continuation lines start with a space, which counts toward their 75
+		if (bytes + size > (parts.length ? 74 : 75)) {
+			parts.push(current);
+			current = "";
+			bytes = 0;
+		}
+		current += char;
+		bytes += size;
+	}
+	parts.push(current);
+	return parts.join("\r\n ");
+}
+
+/** "2026-10-20" + "09:30" (IST) -> "20261020T040000Z" */
+function icsUtc(date: string, time: string, plusMinutes = 0): string {
+	const [h, m] = time.split(":").map(Number);
+	const ms = Date.parse(`${date}T00:00:00Z`) + (h * 60 + m - IST_OFFSET_MINUTES + plusMinutes) * 60_000;
+	return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+const icsDate = (date: string) => date.replace(/-/g, "");
+
+/**
+ * Exports a trip as an iCalendar file with one event per activity.
+ * Timed activities become events in UTC (from IST); untimed ones become all-day events.
+ * @param now The DTSTAMP; defaults to the current time
+ */
+export function tripToIcs(trip: Trip, now = new Date()): string {
+	const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//Ghumakkad//Trips//EN",
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${icsText(trip.title)}`,
+	];
+
+	for (const day of trip.days) {
+		const date = addDays(trip.startDate, day.day - 1);
+		for (const activity of sortActivities(day.activities)) {
+			const description = [
+				day.title && `Day ${day.day}: ${day.title}`,
+				activity.notes,
+				activity.cost !== undefined && `Cost: ₹${activity.cost} per person`,
+			].filter(Boolean).join("\n");
+
+			lines.push("BEGIN:VEVENT", `UID:${activity.id}@ghumakkad`, `DTSTAMP:${stamp}`);
+			if (activity.time) {
+				const duration = activity.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+				lines.push(
+					`DTSTART:${icsUtc(date, activity.time)}`,
+					`DTEND:${icsUtc(date, activity.time, duration)}`
+				);
+			} else {
+				lines.push(
+					`DTSTART;VALUE=DATE:${icsDate(date)}`,
+					`DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`
+				);
+			}
+			lines.push(`SUMMARY:${icsText(activity.title)}`);
+			if (activity.location) lines.push(`LOCATION:${icsText(`${activity.location}, ${trip.city}`)}`);
+			else lines.push(`LOCATION:${icsText(trip.city)}`);
+			if (description) lines.push(`DESCRIPTION:${icsText(description)}`);
+			lines.push("END:VEVENT");
+		}
+	}
+
+	lines.push("END:VCALENDAR");
+	return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// --- MARKDOWN ---
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** "2026-12-01" -> "Tue 1 Dec 2026" */
+function longDate(date: string): string {
+	const d = new Date(`${date}T00:00:00Z`);
+	return `${WEEKDAYS[d.getUTCDay()]} ${d.getUTCDate()} ${MONTHS[d.getUTCMonth()]} ${d.getUTCFullYear()}`;
+}
+
+const rupees = (amount: number) => `₹${Math.round(amount).toLocaleString("en-IN")}`;
+
+function formatDuration(minutes: number): string {
+	const h = Math.floor(minutes / 60);
+	const m = minutes % 60;
+	return [h && `${h}h`, m && `${m}m`].filter(Boolean).join(" ");
+}
+
+const cell = (text: string) => text.replace(/\|/g, "\\|");
+
+/**
+ * Exports a trip as a Markdown document to share: the plan day by day, then the budget.
+ */
+export function tripToMarkdown(trip: TripDetails): string {
+	const days = trip.days.length;
+	const place = trip.cityData ? `${trip.cityData.city}, ${trip.cityData.state}` : trip.city;
+	const out = [
+		`# ${trip.title}`,
+		"",
+		`**Where:** ${place}  `,
+		`**When:** ${longDate(trip.startDate)} to ${longDate(trip.endDate)} (${days} ${days === 1 ? "day" : "days"})  `,
+		`**Travellers:** ${trip.travellers}`,
+	];
+
+	for (const day of trip.days) {
+		out.push("", `## Day ${day.day}: ${longDate(addDays(trip.startDate, day.day - 1))}`);
+		if (day.title) out.push("", `*${day.title}*`);
+		out.push("");
+		if (!day.activities.length) {
+			out.push("Nothing planned yet.");
+			continue;
+		}
+		for (const a of sortActivities(day.activities)) {
+			const details = [
+				a.durationMinutes && formatDuration(a.durationMinutes),
+				a.location,
+				a.cost !== undefined && (a.cost ? `${rupees(a.cost)} per person` : "free"),
+			].filter(Boolean);
+			out.push(
+				`- ${a.time ? `**${a.time}** ` : ""}${a.title}${details.length ? ` (${details.join(", ")})` : ""}`
+			);
+			if (a.notes) out.push(`  ${a.notes.replace(/\n+/g, " ")}`);
+		}
+	}
+
+	if (trip.budget) {
+		const b = trip.budget;
+		out.push(
+			"",
+			`## Budget (${b.tier} tier, estimate)`,
+			"",
+			"| Item | Qty | Rate | Amount |",
+			"| --- | ---: | ---: | ---: |",
+			...b.lineItems.map(
+				(i) => `| ${cell(i.label)} | ${i.quantity} | ${rupees(i.unitCost)} | ${rupees(i.amount)} |`
+			),
+			`| **Total** | | | **${rupees(b.total)}** |`,
+			"",
+			`About ${rupees(b.perPerson)} per person. Getting to ${trip.city} isn't included.`
+		);
+	}
+
+	return out.join("\n") + "\n";
+}
+
+// --- ITINERARY FROM CHAT ---
+
+const ITINERARY_PROMPT = `Turn the travel answer below into a day-by-day itinerary.
+Reply with JSON only (no prose, no code fence), matching exactly:
+{
+  "title": string,            // short trip name, e.g. "3 days in Jaipur"
+  "city": string,             // the main city
+  "days": [                   // one entry per day, in order
+    {
+      "title": string,        // optional theme of the day
+      "activities": [
+        {
+          "title": string,           // required, e.g. "Amber Fort"
+          "time": "HH:MM",           // optional 24-hour start time
+          "durationMinutes": number, // optional
+          "location": string,        // optional area or address
+          "notes": string,           // optional tips from the answer
+          "cost": number             // optional entry fee in INR per person
+        }
+      ]
+    }
+  ]
+}
+Only include what the answer says; leave optional fields out rather than guessing.
+No other fields.`;
+
+/** The JSON object in a model reply, with any code fence or chatter around it removed. */
+function jsonFromReply(text: string): unknown {
+	const unfenced = text.replace(/```(?:json)?/gi, "");
+	const start = unfenced.indexOf("{");
+	const end = unfenced.lastIndexOf("}");
+	if (start === -1 || end < start) throw new Error("no JSON object in the reply");
+	return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * Asks the model to turn a chat answer into an itinerary, and validates it.
+ * If the first reply doesn't pass, the problems are sent back once for a fix.
+ * @param chatProvider The chat model
+ * @param answer The model answer to convert
+ * @returns The itinerary (null if it still didn't validate), the last reply's issues and the tokens used
+ */
+export async function extractItinerary(
+	chatProvider: ChatProvider,
+	answer: string
+): Promise<{ itinerary: Itinerary | null; issues: string[]; usage: TokenUsage }> {
+	const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+	const chat = chatProvider.startChat({ history: [] });
+	let message = `${ITINERARY_PROMPT}\n\nAnswer:\n${answer}`;
+	let issues: string[] = [];
+
+	for (let attempt = 0; attempt < 2; attempt++) {
+		const response = await (await chat.send(message)).response;
+		usage.promptTokens += response.usage?.promptTokens ?? 0;
+		usage.completionTokens += response.usage?.completionTokens ?? 0;
+		usage.totalTokens += response.usage?.totalTokens ?? 0;
+
+		let json: unknown;
+		try {
+			json = jsonFromReply(response.text);
+		} catch (err: any) {
+			issues = [`reply: not valid JSON (${err.message})`];
+		}
+		if (json !== undefined) {
+			const parsed = parseItinerary(json);
+			if (parsed.itinerary) return { itinerary: parsed.itinerary, issues: [], usage };
+			issues = parsed.issues;
+		}
+		message = `That doesn't match the format:\n- ${issues.join("\n- ")}\nReply with the corrected JSON only.`;
+	}
+	return { itinerary: null, issues, usage };
+}
@@ -0,0 +1,46 @@
+export type AttractionType =
+	| "fort"
+	| "palace"
+	| "religious"
+	| "museum"
+	| "market"
+	| "food"
+	| "nature"
+	| "monument"
+	| "experience"
+	| "other";
+
+export interface OpeningHours {
+	open: string; // "09:00", 24-hour clock
+	close: string; // "16:30"; "24:00" for midnight, earlier than open if it runs past midnight
+}
+
+/**
+ * One attraction from a plan file: the "🕰️ Timings / 💸 Entry Fee / 📍 Location / 🎯 Tips"
+ * block under its heading, parsed. The text as written is kept next to each parsed value.
+ */
+export interface Attraction {
+	id: string; // "jaipur/hawa-mahal-palace-of-winds"
+	city: string; // The City it belongs to (City.city)
+	name: string;
+	type: AttractionType;
+	source: string; // Plan file it was extracted from
+	day?: number; // Day of the plan it's visited on
+	timings?: string; // "10:00 AM – 5:00 PM (Closed on Fridays)"
+	hours: OpeningHours[]; // Empty if the timings aren't a plain range
+	closedOn: string[]; // Lowercase weekdays, e.g. ["friday"]
+	entryFee?: string; // "₹50 (Indians), ₹200 (Foreigners)"
+	feeIndian?: number; // INR per person, 0 = free
+	feeForeign?: number;
+	location?: string;
+	tips: string[];
+}
+
+export interface AttractionFilters {
+	openAt?: string; // "HH:MM"
+	on?: string; // Weekday for openAt, e.g. "monday"
+	maxFee?: number; // INR
+	visitor?: "indian" | "foreign"; // Which fee maxFee applies to; defaults to indian
+	types?: AttractionType[];
+	day?: number;
+}
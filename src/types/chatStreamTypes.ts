@@ -0,0 +1,83 @@
+import { LLMMessage, TokenUsage } from "./llmTypes.js";
+import { GuardrailReason } from "./guardrailTypes.js";
+
+export interface CitedChunk {
+	id: string;
+	source: string; // File the chunk came from, e.g. "jaipur_plan.txt"
+	city: string;
+	day?: number; // From the plan's "Day 1" heading, if the chunk is inside one
+	attraction?: string; // e.g. "Hawa Mahal (Palace of Winds)"
+	similarity: number | null; // Null if only the keyword search found it
+	score: number; // Fused retrieval score
+}
+
+export interface CitedCity {
+	city: string;
+	confidence: number;
+	matchedOn: string;
+}
+
+/**
+ * Every event the /api/chat stream can send, keyed by its SSE `event:` name.
+ * Order: meta, sources, then delta / tool_call / tool_result, usage, done.
+ * `error` can replace anything after meta.
+ * Each event has an `id:` of "<requestId>:<n>"; re-POST with that as Last-Event-ID
+ * to replay what was missed (see createChatStreamHub).
+ */
+export interface ChatStreamEvents {
+	// promptVersion: which template answered, e.g. "pixie@1/hinglish"
+	// cached: the answer is a replay of an earlier one to a near-identical question
+	// blocked: the guardrails refused the question without asking the model
+	// conversationId: not set for stateless calls, which save nothing
+	meta: {
+		conversationId?: string;
+		requestId: string;
+		promptVersion: string;
+		cached: boolean;
+		blocked?: GuardrailReason;
+	};
+	sources: {
+		chunks: CitedChunk[];
+		cities: CitedCity[];
+		// Nothing retrieved and no city data: the answer is general knowledge (Rule 2b)
+		generalKnowledge: boolean;
+		// Cities the question named beyond the few we give data for; the answer says so
+		leftOutCities?: string[];
+	};
+	delta: { text: string };
+	tool_call: { name: string; args: Record<string, any> };
+	tool_result: { name: string; result: object };
+	usage: TokenUsage;
+	done: { conversationId?: string };
+	error: { error: string };
+}
+
+export type ChatStreamEventName = keyof ChatStreamEvents;
+
+/** One event and its data; switching on `event` narrows `data`. */
+export type ChatStreamEvent = {
+	[E in ChatStreamEventName]: { event: E; data: ChatStreamEvents[E] };
+}[ChatStreamEventName];
+
+/** One question for the chat pipeline, from /api/chat or /v1/chat/completions. */
+export interface ChatRequest {
+	query: string;
+	conversationId?: string;
+	persona?: string;
+	language?: string;
+	promptVersion?: number;
+	// Earlier turns the client keeps itself (OpenAI style); replayed after the stored ones
+	history?: LLMMessage[];
+	// Answer without saving a conversation (ignored when continuing one)
+	stateless?: boolean;
+}
+
+/** Everything one answer sent, gathered from its events (the non-streaming responses). */
+export interface ChatResult {
+	meta?: ChatStreamEvents["meta"];
+	sources?: ChatStreamEvents["sources"];
+	answer: string;
+	toolCalls: { name: string; args: Record<string, any>; result?: object }[];
+	usage?: TokenUsage;
+	error?: string; // Failed after the answer had started
+}
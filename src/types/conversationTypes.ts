@@ -0,0 +1,31 @@
+import { ChatStreamEvents } from "./chatStreamTypes.js";
+import { GuardrailReason } from "./guardrailTypes.js";
+
+export type ChatRole = "user" | "model";
+
+export interface ChatMessage {
+	role: ChatRole;
+	text: string;
+	createdAt: string;
+	promptVersion?: string; // Model messages: the prompt that produced them, e.g. "pixie@1/hinglish"
+	requestId?: string; // Model messages: the request that produced them (what feedback refers to)
+	sources?: ChatStreamEvents["sources"]; // Model messages: the chunks and cities the answer used
+	blocked?: GuardrailReason; // Refused by the guardrails; never replayed to the model
+}
+
+export interface Conversation {
+	id: string;
+	userId: string;
+	title: string;
+	messages: ChatMessage[];
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface ConversationSummary {
+	id: string;
+	title: string;
+	messageCount: number;
+	createdAt: string;
+	updatedAt: string;
+}
@@ -13,3 +13,51 @@ export interface CostEstimate {
 	fun: number;
 	total: number;
 }
+
+export type TravelMode = "car" | "train" | "bus" | "flight";
+export type BudgetTier = "budget" | "mid" | "luxury";
+export type Season = "peak" | "shoulder" | "off";
+
+export interface TravelLeg {
+	mode: TravelMode;
+	distanceKm: number;
+	from?: string;
+	to?: string;
+}
+
+export interface DetailedCostParams {
+	legs: TravelLeg[];
+	nights: number;
+	days?: number; // Defaults to nights + 1
+	travellers?: number; // Defaults to 1
+	peoplePerRoom?: number; // Defaults to 2
+	tier?: BudgetTier; // Defaults to "mid"
+	hotelPerNight: number; // Per room, mid tier
+	foodPerDay: number; // Per person, mid tier
+	petrolPerKm?: number; // Per car; only needed with a car leg
+	entryFees?: { name: string; fee: number }[]; // Per person
+	seasonMultiplier?: number; // Defaults to 1
+}
+
+export type CostCategory = "transport" | "hotel" | "food" | "entry" | "fun";
+
+export interface CostLineItem {
+	category: CostCategory;
+	label: string;
+	quantity: number;
+	unitCost: number;
+	amount: number;
+}
+
+export interface DetailedCostEstimate extends CostEstimate {
+	transport: number; // All legs, including fuelCost
+	entryFees: number;
+	perPerson: number;
+	travellers: number;
+	rooms: number;
+	nights: number;
+	days: number;
+	tier: BudgetTier;
+	seasonMultiplier: number;
+	lineItems: CostLineItem[];
+}
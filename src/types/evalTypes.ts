@@ -0,0 +1,46 @@
+export interface GoldenCase {
+	id: string;
+	question: string;
+	expectedSources: string[]; // Knowledge base files that answer it, e.g. "jaipur_plan.txt"
+	expectedCities: string[]; // What matchCities should find, best first ([] = none)
+	facts: string[]; // Strings a good answer contains, e.g. "₹50", "9:00 AM"
+}
+
+export interface CaseResult {
+	id: string;
+	question: string;
+	retrievedSources: string[]; // Distinct, in rank order
+	recallAtK: number | null; // Null when no sources are expected
+	reciprocalRank: number | null;
+	expectedCities: string[];
+	matchedCities: string[];
+	cityCorrect: boolean;
+	answer?: {
+		text: string;
+		promptVersion: string;
+		facts: { fact: string; found: boolean }[];
+		factCoverage: number | null; // Null when no facts are expected
+	};
+}
+
+export interface EvalSummary {
+	cases: number;
+	recallAtK: number;
+	mrr: number;
+	cityAccuracy: number;
+	factCoverage: number | null; // Null unless answers were generated
+}
+
+export interface EvalReport {
+	generatedAt: string;
+	config: {
+		dataset: string;
+		k: number;
+		embedder: string;
+		vectorStore: string;
+		corpusVersion: string;
+		promptVersion: string | null;
+	};
+	summary: EvalSummary;
+	cases: CaseResult[];
+}
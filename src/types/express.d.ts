@@ -6,6 +6,8 @@ declare global {
 	namespace Express {
 		export interface Request {
 			user?: User;
+			role?: string; // From app_metadata.role, "user" if unset (see roleOf)
+			requestId?: string; // Set by requestIdMiddleware
 		}
 	}
 }
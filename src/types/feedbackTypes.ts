@@ -0,0 +1,42 @@
+import { CitedChunk, CitedCity } from "./chatStreamTypes.js";
+
+export type FeedbackRating = "up" | "down";
+
+/**
+ * One user's rating of one answer, with everything the answer was built from.
+ * Query, answer and sources are copied from the stored conversation, never the client.
+ */
+export interface Feedback {
+	id: string;
+	userId: string;
+	conversationId: string;
+	requestId: string; // The X-Request-Id / meta.requestId of the rated answer
+	rating: FeedbackRating;
+	reason?: string;
+	correction?: string; // What the answer should have said
+	query: string;
+	answer: string;
+	promptVersion?: string;
+	chunks: CitedChunk[];
+	cities: CitedCity[];
+	createdAt: string;
+}
+
+/** Ratings for one source file or city. */
+export interface FeedbackGroup {
+	key: string;
+	up: number;
+	down: number;
+	/** Chunks of this source/city in downvoted answers, most often first. */
+	chunkIds: { id: string; count: number }[];
+	/** The latest downvotes, for context. */
+	examples: { requestId: string; query: string; reason?: string; correction?: string; createdAt: string }[];
+}
+
+export interface FeedbackReport {
+	since: string | null;
+	total: number;
+	down: number;
+	bySource: FeedbackGroup[];
+	byCity: FeedbackGroup[];
+}
@@ -0,0 +1,9 @@
+// Why a chat message was answered with a refusal instead of the model
+export type GuardrailReason = "off_topic" | "injection";
+
+export interface GuardrailVerdict {
+	allowed: boolean;
+	reason?: GuardrailReason;
+	// What tripped it, for the logs, e.g. "ignore previous instructions"
+	detail?: string;
+}
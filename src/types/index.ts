@@ -1,5 +1,85 @@
-import { City, TopSpot, Review } from "./travelDataTypes.js";
-import { CostEstimate, CostParams } from "./costEstimatorTypes.js";
+import { City, TopSpot, Review, CityMatch } from "./travelDataTypes.js";
+import {
+	CostEstimate,
+	CostParams,
+	TravelMode,
+	BudgetTier,
+	Season,
+	TravelLeg,
+	DetailedCostParams,
+	CostCategory,
+	CostLineItem,
+	DetailedCostEstimate,
+} from "./costEstimatorTypes.js";
 import { SupabaseUser } from "./supabaseTypes.js";
+import {
+	ChatRole,
+	ChatMessage,
+	Conversation,
+	ConversationSummary,
+} from "./conversationTypes.js";
+import { VectorRecord, VectorMatch, StoredChunk } from "./vectorStoreTypes.js";
+import {
+	LLMMessage,
+	ToolCall,
+	ToolResult,
+	TokenUsage,
+	LLMResponse,
+} from "./llmTypes.js";
+import {
+	ManifestChunk,
+	ManifestFile,
+	IngestManifest,
+	IngestStage,
+	IngestProgress,
+	IngestSummary,
+	IngestJobStatus,
+	IngestJob,
+} from "./ingestTypes.js";
+import { RouteOptions, RouteLeg, RouteStop, RoutePlan } from "./routeTypes.js";
+import {
+	CitedChunk,
+	CitedCity,
+	ChatStreamEvents,
+	ChatRequest,
+	ChatResult,
+	ChatStreamEventName,
+	ChatStreamEvent,
+} from "./chatStreamTypes.js";
+import { DailyUsage, PlanLimits } from "./usageTypes.js";
+import { PromptTemplate, PromptLanguage, PromptSelection } from "./promptTypes.js";
+import { GoldenCase, CaseResult, EvalSummary, EvalReport } from "./evalTypes.js";
+import { FeedbackRating, Feedback, FeedbackGroup, FeedbackReport } from "./feedbackTypes.js";
+import {
+	AttractionType,
+	OpeningHours,
+	Attraction,
+	AttractionFilters,
+} from "./attractionTypes.js";
+import { GuardrailReason, GuardrailVerdict } from "./guardrailTypes.js";
+import {
+	TripActivity,
+	TripDay,
+	Trip,
+	TripSummary,
+	TripDetails,
+	Itinerary,
+} from "./tripTypes.js";
 
-export {City, TopSpot, Review, CostEstimate, CostParams, SupabaseUser};
\ No newline at end of file
+export {City, TopSpot, Review, CityMatch, CostEstimate, CostParams, SupabaseUser};
+export {TravelMode, BudgetTier, Season, TravelLeg, DetailedCostParams};
+export {CostCategory, CostLineItem, DetailedCostEstimate};
+export {ChatRole, ChatMessage, Conversation, ConversationSummary};
+export {VectorRecord, VectorMatch, StoredChunk};
+export {LLMMessage, ToolCall, ToolResult, TokenUsage, LLMResponse};
+export {ManifestChunk, ManifestFile, IngestManifest};
+export {IngestStage, IngestProgress, IngestSummary, IngestJobStatus, IngestJob};
+export {RouteOptions, RouteLeg, RouteStop, RoutePlan};
+export {CitedChunk, CitedCity, ChatStreamEvents, ChatStreamEventName, ChatStreamEvent, ChatRequest, ChatResult};
+export {DailyUsage, PlanLimits};
+export {PromptTemplate, PromptLanguage, PromptSelection};
+export {GoldenCase, CaseResult, EvalSummary, EvalReport};
+export {FeedbackRating, Feedback, FeedbackGroup, FeedbackReport};
+export {AttractionType, OpeningHours, Attraction, AttractionFilters};
+export {GuardrailReason, GuardrailVerdict};
+export {TripActivity, TripDay, Trip, TripSummary, TripDetails, Itinerary};
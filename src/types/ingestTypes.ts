@@ -0,0 +1,52 @@
+export interface ManifestChunk {
+	hash: string;
+	id: string; // Id of the row in the vector store
+}
+
+export interface ManifestFile {
+	hash: string;
+	chunks: ManifestChunk[];
+}
+
+export interface IngestManifest {
+	version: 1;
+	embedder: string; // e.g. "gemini:embedding-001"; vectors from another embedder don't mix
+	splitter?: string; // e.g. "plan-sections@1"; chunks from another splitter are rebuilt
+	updatedAt: string;
+	files: Record<string, ManifestFile>;
+}
+
+export type IngestStage = "reading" | "embedding" | "writing" | "saving" | "done";
+
+export interface IngestProgress {
+	stage: IngestStage;
+	embedded: number; // Chunks embedded so far
+	toEmbed: number;
+}
+
+export interface IngestSummary {
+	rebuild: boolean; // Everything was re-embedded (no manifest, force, new embedder or splitter)
+	dryRun: boolean;
+	added: number; // Chunks
+	removed: number;
+	kept: number;
+	newFiles: string[];
+	changedFiles: string[];
+	deletedFiles: string[];
+	attractions: number;
+}
+
+export type IngestJobStatus = "running" | "succeeded" | "failed";
+
+export interface IngestJob {
+	id: string;
+	status: IngestJobStatus;
+	force: boolean;
+	startedBy: string; // User id
+	startedAt: string;
+	finishedAt?: string;
+	progress: IngestProgress;
+	log: string[]; // What `npm run ingest` would have printed
+	summary?: IngestSummary;
+	error?: string;
+}
@@ -0,0 +1,28 @@
+import { ChatRole } from "./conversationTypes.js";
+
+export interface LLMMessage {
+	role: ChatRole;
+	text: string;
+}
+
+export interface ToolCall {
+	name: string;
+	args: Record<string, any>;
+}
+
+export interface ToolResult {
+	name: string;
+	response: object;
+}
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+export interface LLMResponse {
+	text: string;
+	toolCalls: ToolCall[];
+	usage?: TokenUsage;
+}
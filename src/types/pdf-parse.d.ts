@@ -0,0 +1,5 @@
+// The package's index runs a self-test when imported as ESM, so we import the library file
+declare module "pdf-parse/lib/pdf-parse.js" {
+	import pdfParse from "pdf-parse";
+	export default pdfParse;
+}
@@ -0,0 +1,21 @@
+export interface PromptTemplate {
+	persona: string; // Folder name, e.g. "pixie"
+	version: number; // From the file name, e.g. v2.md -> 2
+	description: string;
+	ack: string; // The model's first reply, confirming the instructions
+	languages: string[] | null; // Allowed language codes, null = all
+	body: string; // Has {context}, {language} and {refusal} placeholders
+}
+
+export interface PromptLanguage {
+	code: string; // e.g. "hinglish", "en", "hi", "ta"
+	name: string;
+	instruction: string;
+	refusal: string; // Example off-topic refusals in this language
+}
+
+export interface PromptSelection {
+	template: PromptTemplate;
+	language: PromptLanguage;
+	id: string; // Recorded with each answer, e.g. "pixie@1/hinglish"
+}
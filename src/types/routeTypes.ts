@@ -0,0 +1,41 @@
+import { City } from "./travelDataTypes.js";
+import { BudgetTier, DetailedCostEstimate, TravelMode } from "./costEstimatorTypes.js";
+
+export interface RouteOptions {
+	start?: City; // Where the trip sets off from; no nights are planned there
+	returnToStart?: boolean; // Defaults to true when there's a start
+	nights: number; // Split across the stops
+	mode?: TravelMode; // Defaults to "car"
+	travellers?: number;
+	peoplePerRoom?: number;
+	tier?: BudgetTier;
+	seasonMultiplier?: number;
+}
+
+export interface RouteLeg {
+	from: string;
+	to: string;
+	mode: TravelMode;
+	distanceKm: number; // Road estimate, or straight line for flights
+	cost: number; // Whole group
+}
+
+export interface RouteStop {
+	city: string;
+	nights: number;
+	estimate: DetailedCostEstimate; // Stay, food and fun at this stop (no transport)
+}
+
+export interface RoutePlan {
+	start: string | null;
+	returnToStart: boolean;
+	stops: RouteStop[]; // In visiting order
+	legs: RouteLeg[];
+	totalDistanceKm: number;
+	nights: number;
+	travellers: number;
+	transport: number;
+	stay: number;
+	total: number;
+	perPerson: number;
+}
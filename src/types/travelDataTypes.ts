@@ -2,6 +2,7 @@ export interface TopSpot {
 	name: string;
 	type: string;
 	rating: number;
+	entryFee?: number; // INR per person (Indian citizens), 0 = free
 }
 
 export interface Review {
@@ -13,9 +14,18 @@ export interface Review {
 export interface City {
 	city: string;
 	state: string;
+	aliases?: string[]; // Old names, nicknames, common misspellings, Devanagari
+	lat?: number; // City centre, for route planning
+	lng?: number;
 	avgHotelPerNight: number;
 	avgFoodPerDay: number;
 	petrolPerKm: number;
 	topSpots: TopSpot[];
 	reviews: Review[];
 }
+
+export interface CityMatch {
+	city: City;
+	confidence: number; // 0..1
+	matchedOn: string; // The name or alias that matched
+}
@@ -0,0 +1,61 @@
+import { City } from "./travelDataTypes.js";
+import { BudgetTier, DetailedCostEstimate } from "./costEstimatorTypes.js";
+
+export interface TripActivity {
+	id: string;
+	title: string; // e.g. "Hawa Mahal"
+	time?: string; // Start, "HH:MM" local time; no time = sometime that day
+	durationMinutes?: number;
+	location?: string;
+	notes?: string;
+	cost?: number; // INR per person (entry fee, tickets...)
+}
+
+export interface TripDay {
+	day: number; // 1-based; day 1 is the start date
+	title?: string; // e.g. "Old City and bazaars"
+	activities: TripActivity[];
+}
+
+export interface Trip {
+	id: string;
+	userId: string;
+	title: string;
+	city: string; // City.city, e.g. "Jaipur"
+	startDate: string; // "YYYY-MM-DD"
+	endDate: string; // Inclusive; one TripDay per date
+	travellers: number;
+	tier?: BudgetTier; // For the budget; "mid" if not set
+	days: TripDay[];
+	conversationId?: string; // The chat it was built from, if any
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface TripSummary {
+	id: string;
+	title: string;
+	city: string;
+	startDate: string;
+	endDate: string;
+	travellers: number;
+	activityCount: number;
+	updatedAt: string;
+}
+
+/** A trip as the API returns it: with today's city data and budget attached. */
+export interface TripDetails extends Trip {
+	cityData: City | null; // Null if the city has since been removed from the travel data
+	budget: DetailedCostEstimate | null;
+	budgetWarnings: string[];
+}
+
+/**
+ * A day-by-day plan, as typed by a user or extracted from a chat answer.
+ * Activity ids are assigned when it's saved.
+ */
+export interface Itinerary {
+	title?: string;
+	city?: string;
+	days: { title?: string; activities: Omit<TripActivity, "id">[] }[];
+}
@@ -0,0 +1,12 @@
+export interface DailyUsage {
+	day: string; // UTC date, YYYY-MM-DD
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+export interface PlanLimits {
+	requestsPerDay: number;
+	tokensPerDay: number;
+}
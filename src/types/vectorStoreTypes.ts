@@ -0,0 +1,18 @@
+export interface VectorRecord {
+	content: string;
+	metadata: Record<string, any>;
+	embedding: number[];
+}
+
+export interface VectorMatch {
+	id: string;
+	content: string;
+	metadata: Record<string, any>;
+	similarity: number;
+}
+
+export interface StoredChunk {
+	id: string;
+	content: string;
+	metadata: Record<string, any>;
+}
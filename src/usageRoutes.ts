@@ -0,0 +1,32 @@
+import { Router, Request, Response } from "express";
+import { PlanLimits } from "./types/index.js";
+import { UsageStore, usageDay } from "./usageStore.js";
+import { defaultPlans, planOf, quotaStatus } from "./quota.js";
+import { log } from "./logger.js";
+
+/**
+ * Factory function to create the "about me" routes.
+ * @param usageStore Where the counters live
+ * @param plans Limits per plan name
+ * @returns An Express router for /api/me.
+ */
+export const createUsageRouter = (
+	usageStore: UsageStore,
+	plans: Record<string, PlanLimits> = defaultPlans
+): Router => {
+	const router = Router();
+
+	// GET /api/me/usage - Today's requests and tokens against the user's plan
+	router.get("/usage", async (req: Request, res: Response) => {
+		try {
+			const plan = planOf(req.user, plans);
+			const usage = await usageStore.get(req.user!.id, usageDay());
+			res.json(quotaStatus(plan, plans[plan], usage));
+		} catch (err: any) {
+			log.error("ERROR while trying to load usage", { error: err.message });
+			res.status(500).json({ error: "Failed to load usage." });
+		}
+	});
+
+	return router;
+};
@@ -0,0 +1,137 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DailyUsage, TokenUsage } from "./types/index.js";
+
+/**
+ * Per-user, per-day request and token counters.
+ */
+export interface UsageStore {
+	get(userId: string, day: string): Promise<DailyUsage>;
+	/** Adds to the day's counters and returns the new totals. */
+	record(
+		userId: string,
+		day: string,
+		delta: { requests?: number; tokens?: TokenUsage }
+	): Promise<DailyUsage>;
+	/** Cheap reachability check for /readyz. Throws if the store can't be used. */
+	ping(): Promise<void>;
+}
+
+/** Today's usage key (UTC), e.g. "2025-03-14". */
+export const usageDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+const emptyUsage = (day: string): DailyUsage => ({
+	day,
+	requests: 0,
+	promptTokens: 0,
+	completionTokens: 0,
+	totalTokens: 0,
+});
+
+const addUsage = (
+	usage: DailyUsage,
+	{ requests = 0, tokens }: { requests?: number; tokens?: TokenUsage }
+): DailyUsage => ({
+	day: usage.day,
+	requests: usage.requests + requests,
+	promptTokens: usage.promptTokens + (tokens?.promptTokens || 0),
+	completionTokens: usage.completionTokens + (tokens?.completionTokens || 0),
+	totalTokens: usage.totalTokens + (tokens?.totalTokens || 0),
+});
+
+/**
+ * In-memory store. Used for local dev and tests; everything is lost on restart.
+ * Only today's counters matter, so older days are dropped as they go stale.
+ */
+export const createInMemoryUsageStore = (): UsageStore => {
+	const usage = new Map<string, DailyUsage>(); // "userId:day" -> usage
+
+	return {
+		async get(userId, day) {
+			return usage.get(`${userId}:${day}`) || emptyUsage(day);
+		},
+
+		async record(userId, day, delta) {
+			const key = `${userId}:${day}`;
+			const next = addUsage(usage.get(key) || emptyUsage(day), delta);
+			usage.set(key, next);
+			for (const [k, u] of usage) if (u.day < day) usage.delete(k);
+			return next;
+		},
+
+		async ping() {},
+	};
+};
+
+/**
+ * Supabase-backed store. Expects a table like:
+ *   create table usage (
+ *     user_id uuid not null, day date not null,
+ *     requests int default 0, prompt_tokens int default 0,
+ *     completion_tokens int default 0, total_tokens int default 0,
+ *     primary key (user_id, day)
+ *   );
+ * Recording goes through a SQL function that adds in one statement, so
+ * concurrent requests can't overwrite each other's counts:
+ *
+ *   create function record_usage(p_user_id uuid, p_day date, p_requests int,
+ *     p_prompt_tokens int, p_completion_tokens int, p_total_tokens int)
+ *   returns setof usage language sql as $$
+ *     insert into usage as u values
+ *       (p_user_id, p_day, p_requests, p_prompt_tokens, p_completion_tokens, p_total_tokens)
+ *     on conflict (user_id, day) do update set
+ *       requests = u.requests + excluded.requests,
+ *       prompt_tokens = u.prompt_tokens + excluded.prompt_tokens,
+ *       completion_tokens = u.completion_tokens + excluded.completion_tokens,
+ *       total_tokens = u.total_tokens + excluded.total_tokens
+ *     returning *;
+ *   $$;
+ *
+ * Needs the service key.
+ * @param recordFunction The SQL function above
+ */
+export const createSupabaseUsageStore = (
+	supabase: SupabaseClient,
+	tableName = "usage",
+	recordFunction = "record_usage"
+): UsageStore => {
+	const fromRow = (row: any): DailyUsage => ({
+		day: row.day,
+		requests: row.requests,
+		promptTokens: row.prompt_tokens,
+		completionTokens: row.completion_tokens,
+		totalTokens: row.total_tokens,
+	});
+
+	return {
+		async get(userId, day) {
+			const { data, error } = await supabase
+				.from(tableName)
+				.select("*")
+				.eq("user_id", userId)
+				.eq("day", day)
+				.maybeSingle();
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+			return data ? fromRow(data) : emptyUsage(day);
+		},
+
+		async record(userId, day, { requests = 0, tokens }) {
+			const { data, error } = await supabase
+				.rpc(recordFunction, {
+					p_user_id: userId,
+					p_day: day,
+					p_requests: requests,
+					p_prompt_tokens: tokens?.promptTokens || 0,
+					p_completion_tokens: tokens?.completionTokens || 0,
+					p_total_tokens: tokens?.totalTokens || 0,
+				})
+				.single();
+			if (error) throw new Error(`Supabase upsert error: ${error.message}`);
+			return fromRow(data);
+		},
+
+		async ping() {
+			const { error } = await supabase.from(tableName).select("user_id").limit(1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+		},
+	};
+};
@@ -1,19 +1,22 @@
 import fs from "fs";
 import path from "path";
-import { City, CostEstimate, CostParams } from "./types/index.js";
+import { City, CityMatch, CostEstimate, CostParams } from "./types/index.js";
+import { hasDevanagari, transliterateDevanagari } from "./transliterate.js";
+import { parseTravelData } from "./travelDataSchema.js";
 
 /**
- * Loads and parses the travelData.json file.
+ * Loads, parses and validates the travelData.json file.
+ * Throws (listing every schema problem) instead of starting with no cities.
  */
 export function loadTravelData(dbPath: string): City[] {
+	const data = fs.readFileSync(path.resolve(dbPath), "utf8");
+	let db: unknown;
 	try {
-		const data = fs.readFileSync(path.resolve(dbPath), "utf8");
-		const db: { cities: City[] } = JSON.parse(data);
-		return db.cities || [];
-	} catch (error) {
-		console.error("Failed to load or parse travelData.json:", error);
-		return [];
+		db = JSON.parse(data);
+	} catch (error: any) {
+		throw new Error(`Failed to parse ${dbPath}: ${error.message}`);
 	}
+	return parseTravelData(db);
 }
 
 /**
@@ -32,23 +35,136 @@ export function estimateTripCost(params: CostParams): CostEstimate {
 	return { fuelCost, hotel, food, fun, total };
 }
 
+/**
+ * Edit distance (Levenshtein, plus adjacent transpositions count as one edit).
+ */
+export function editDistance(a: string, b: string): number {
+	const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+		Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+	);
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return d[a.length][b.length];
+}
+
+/**
+ * How many typos we forgive in a name of this length.
+ * Short names must match exactly, or "go" would find Goa.
+ */
+const allowedEdits = (length: number) => (length <= 4 ? 0 : length <= 7 ? 1 : 2);
+
+/**
+ * True if two place names are the same up to case and a typo or two.
+ * e.g. "hydrabad" and "Hyderabad"
+ */
+export function isSameCityName(a: string, b: string): boolean {
+	const x = a.trim().toLowerCase();
+	const y = b.trim().toLowerCase();
+	return editDistance(x, y) <= allowedEdits(Math.max(x.length, y.length));
+}
+
+// Confidence weights per kind of match
+const STATE_WEIGHT = 0.6; // "Maharashtra" only hints at Mumbai
+const TRANSLITERATED_WEIGHT = 0.9; // Transliteration is a guess
+
+/**
+ * Finds every city the query mentions, ranked by confidence.
+ * Matches the city name, its aliases and its state; exactly, as a phrase,
+ * or fuzzily (typos), in Latin script or in Devanagari.
+ */
+export function matchCities(query: string, cities: City[]): CityMatch[] {
+	const raw = query.normalize("NFC").toLowerCase();
+	const latin = hasDevanagari(raw) ? transliterateDevanagari(raw) : raw;
+	const tokensOf = (text: string) => text.match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+	const rawTokens = tokensOf(raw);
+	const latinTokens = tokensOf(latin);
+
+	// Scores one name against the query: 1 = exact, lower = typos
+	const scoreName = (name: string): number => {
+		const n = name.normalize("NFC").toLowerCase().trim();
+		if (!n) return 0;
+		const words = tokensOf(n);
+		const phrase = words.join(" ");
+
+		// Exact word or phrase match in the original query (any script)
+		if (` ${rawTokens.join(" ")} `.includes(` ${phrase} `)) return 1;
+		if (latin !== raw && ` ${latinTokens.join(" ")} `.includes(` ${phrase} `)) {
+			return TRANSLITERATED_WEIGHT;
+		}
+
+		// Fuzzy: compare against every window of the same number of words
+		const best = (tokens: string[], weight: number) => {
+			let score = 0;
+			for (let i = 0; i + words.length <= tokens.length; i++) {
+				const window = tokens.slice(i, i + words.length).join(" ");
+				const distance = editDistance(window, phrase);
+				if (distance <= allowedEdits(phrase.length)) {
+					score = Math.max(score, weight * (1 - distance / (phrase.length + 1)));
+				}
+			}
+			return score;
+		};
+		return Math.max(
+			best(rawTokens, 1),
+			latin !== raw ? best(latinTokens, TRANSLITERATED_WEIGHT) : 0
+		);
+	};
+
+	const matches: CityMatch[] = [];
+	for (const city of cities) {
+		let confidence = 0;
+		let matchedOn = "";
+		for (const name of [city.city, ...(city.aliases || [])]) {
+			const score = scoreName(name);
+			if (score > confidence) [confidence, matchedOn] = [score, name];
+		}
+		const stateScore = scoreName(city.state) * STATE_WEIGHT;
+		if (stateScore > confidence) [confidence, matchedOn] = [stateScore, city.state];
+
+		if (confidence > 0) {
+			matches.push({ city, confidence: Math.round(confidence * 100) / 100, matchedOn });
+		}
+	}
+	return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
 /**
  * Searches the list of cities for a query match.
+ * Returns every matched city, best match first.
  */
 export function searchCity(query: string, cities: City[]): City[] {
-	const q = query.toLowerCase();
+	return matchCities(query, cities).map((m) => m.city);
+}
 
-	// Direct match in city or state
-	let hits = cities.filter(
-		(c) =>
-			q.includes(c.city.toLowerCase()) ||
-			q.includes(c.state.toLowerCase())
-	);
-	if (hits.length) return hits;
+/**
+ * Rough token count (~4 characters per token), good enough for budgeting.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
 
-	// Word-by-word match in city
-	const words = q.split(/\W+/);
-	return cities.filter((c) =>
-		words.some((word) => c.city.toLowerCase() === word)
-	);
+/**
+ * Derives the city a knowledge file is about from its name.
+ * e.g. "new_delhi_plan.txt" -> "new delhi"
+ */
+export function cityFromSource(source: string): string {
+	return path
+		.basename(source, path.extname(source))
+		.replace(/_plan$/i, "")
+		.replace(/_/g, " ")
+		.toLowerCase();
 }
+
+/**
+ * True for a UUID string. Supabase id columns are uuid, and Postgres rejects
+ * anything else with an error, so a malformed id is checked before querying.
+ */
+export const isUuid = (value: string): boolean =>
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
@@ -0,0 +1,203 @@
+import fs from "fs/promises";
+import path from "path";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { StoredChunk, VectorMatch, VectorRecord } from "./types/index.js";
+
+/**
+ * Where the RAG chunks and their embeddings live.
+ * The server only searches; ingestion adds, removes and clears.
+ */
+export interface VectorStore {
+	search(queryEmbedding: number[], matchCount: number): Promise<VectorMatch[]>;
+	/** Every chunk without its embedding (for keyword search). */
+	list(): Promise<StoredChunk[]>;
+	/** Adds records and returns their new ids, in the same order. */
+	add(records: VectorRecord[]): Promise<string[]>;
+	remove(ids: string[]): Promise<void>;
+	clear(): Promise<void>;
+	/** Cheap reachability check for /readyz. Throws if the store can't be used. */
+	ping(): Promise<void>;
+}
+
+/**
+ * Cosine similarity between two vectors of the same length.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	if (normA === 0 || normB === 0) return 0;
+	return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Supabase (pgvector) store.
+ * Searches through the `match_documents` SQL function and writes to the `documents` table.
+ */
+export const createSupabaseVectorStore = (
+	supabase: SupabaseClient,
+	options: { tableName: string; queryName: string }
+): VectorStore => {
+	const { tableName, queryName } = options;
+	const BATCH_SIZE = 100;
+
+	return {
+		async search(queryEmbedding, matchCount) {
+			const { data, error } = await supabase.rpc(queryName, {
+				query_embedding: queryEmbedding,
+				match_count: matchCount,
+			});
+			if (error) {
+				throw new Error(`Failed to match documents: ${error.message}`);
+			}
+			return (data || []).map((row: any) => ({
+				id: String(row.id),
+				content: row.content,
+				metadata: row.metadata || {},
+				similarity: row.similarity,
+			}));
+		},
+
+		async list() {
+			const chunks: StoredChunk[] = [];
+			const PAGE_SIZE = 1000; // PostgREST's default max rows per request
+			for (let from = 0; ; from += PAGE_SIZE) {
+				const { data, error } = await supabase
+					.from(tableName)
+					.select("id, content, metadata")
+					.order("id")
+					.range(from, from + PAGE_SIZE - 1);
+				if (error) throw new Error(`Supabase select error: ${error.message}`);
+				chunks.push(
+					...(data || []).map((row: any) => ({
+						id: String(row.id),
+						content: row.content,
+						metadata: row.metadata || {},
+					}))
+				);
+				if (!data || data.length < PAGE_SIZE) return chunks;
+			}
+		},
+
+		async add(records) {
+			const ids: string[] = [];
+			for (let i = 0; i < records.length; i += BATCH_SIZE) {
+				const batch = records.slice(i, i + BATCH_SIZE);
+				const { data, error } = await supabase
+					.from(tableName)
+					.insert(batch)
+					.select("id");
+				if (error) throw new Error(`Supabase insert error: ${error.message}`);
+				ids.push(...(data || []).map((row: any) => String(row.id)));
+			}
+			return ids;
+		},
+
+		async remove(ids) {
+			for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+				const batch = ids.slice(i, i + BATCH_SIZE);
+				const { error } = await supabase.from(tableName).delete().in("id", batch);
+				if (error) throw new Error(`Supabase delete error: ${error.message}`);
+			}
+		},
+
+		async clear() {
+			const { error } = await supabase
+				.from(tableName)
+				.delete()
+				.neq("id", 0); // Deletes all rows
+			if (error) throw new Error(`Supabase delete error: ${error.message}`);
+		},
+
+		async ping() {
+			const { error } = await supabase.from(tableName).select("id").limit(1);
+			if (error) throw new Error(`Supabase select error: ${error.message}`);
+		},
+	};
+};
+
+interface LocalStoreFile {
+	nextId: number;
+	records: (VectorRecord & { id: string })[];
+}
+
+/**
+ * Local store: brute-force cosine similarity over a JSON file.
+ * Good enough for a few thousand chunks, and needs no network at all.
+ * @param filePath Where the records are persisted. Missing file = empty store.
+ */
+export const createLocalVectorStore = (filePath: string): VectorStore => {
+	const resolved = path.resolve(filePath);
+	let cache: LocalStoreFile | null = null;
+
+	const load = async (): Promise<LocalStoreFile> => {
+		if (cache) return cache;
+		try {
+			cache = JSON.parse(await fs.readFile(resolved, "utf8")) as LocalStoreFile;
+		} catch (err: any) {
+			if (err.code !== "ENOENT") {
+				throw new Error(`Failed to read local vector store ${resolved}: ${err.message}`);
+			}
+			cache = { nextId: 1, records: [] };
+		}
+		return cache;
+	};
+
+	const save = async (store: LocalStoreFile) => {
+		await fs.mkdir(path.dirname(resolved), { recursive: true });
+		await fs.writeFile(resolved, JSON.stringify(store));
+	};
+
+	return {
+		async search(queryEmbedding, matchCount) {
+			const { records } = await load();
+			return records
+				.map((r) => ({
+					id: r.id,
+					content: r.content,
+					metadata: r.metadata,
+					similarity: cosineSimilarity(queryEmbedding, r.embedding),
+				}))
+				.sort((a, b) => b.similarity - a.similarity)
+				.slice(0, matchCount);
+		},
+
+		async list() {
+			const { records } = await load();
+			return records.map(({ id, content, metadata }) => ({ id, content, metadata }));
+		},
+
+		async add(records) {
+			const store = await load();
+			const ids = records.map((record) => {
+				const id = String(store.nextId++);
+				store.records.push({ ...record, id });
+				return id;
+			});
+			await save(store);
+			return ids;
+		},
+
+		async remove(ids) {
+			const store = await load();
+			const doomed = new Set(ids);
+			store.records = store.records.filter((r) => !doomed.has(r.id));
+			await save(store);
+		},
+
+		async clear() {
+			const store = await load();
+			store.records = [];
+			await save(store);
+		},
+
+		async ping() {
+			await load(); // A missing file is fine (empty store), a corrupt one is not
+		},
+	};
+};
@@ -0,0 +1,213 @@
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+import { auth, createTestApp, users } from "./helpers.js";
+import { InvalidTokenError, createJwtVerifier } from "../src/tokenVerifier.js";
+import {
+	ApiKeyConfigError,
+	createApiKeyRegistry,
+	generateApiKey,
+	hashApiKey,
+	parseApiKeys,
+	serviceUser,
+} from "../src/apiKeys.js";
+
+const SECRET = "super-secret-jwt-token-with-at-least-32-characters";
+const ISSUER = "https://example.supabase.co/auth/v1";
+const claims = { sub: users.alice.id, email: "alice@example.com", app_metadata: { role: "admin" } };
+const hs256 = (options: jwt.SignOptions = {}, payload: object = claims, secret = SECRET) =>
+	jwt.sign(payload, secret, { audience: "authenticated", issuer: ISSUER, expiresIn: "1h", ...options });
+
+describe("createJwtVerifier with a shared secret", () => {
+	const verify = createJwtVerifier({ secret: SECRET, audience: "authenticated", issuer: ISSUER });
+
+	it("returns the user the token was issued to", async () => {
+		expect(await verify(hs256())).toMatchObject({
+			id: users.alice.id,
+			aud: "authenticated",
+			email: "alice@example.com",
+			app_metadata: { role: "admin" },
+		});
+	});
+
+	it.each<[string, () => string, string]>([
+		["an expired token", () => hs256({ expiresIn: -10 }), "jwt expired"],
+		["another audience", () => hs256({ audience: "anon" }), "jwt audience invalid"],
+		["another issuer", () => hs256({ issuer: "https://evil.example" }), "jwt issuer invalid"],
+		["a wrong signature", () => hs256({}, claims, `${SECRET}!`), "invalid signature"],
+		["no subject", () => hs256({}, { email: "alice@example.com" }), "Token has no subject"],
+		["garbage", () => "not.a.jwt", "invalid token"],
+	])("rejects %s", async (_, token, message) => {
+		const err = await verify(token()).catch((e) => e);
+		expect(err).toBeInstanceOf(InvalidTokenError);
+		expect(err.message).toContain(message);
+	});
+
+	it("needs a secret or a JWKS URI", () => {
+		expect(() => createJwtVerifier({ audience: "authenticated" })).toThrow(
+			"JWT verifier needs a JWKS URI or a secret"
+		);
+	});
+});
+
+describe("createJwtVerifier with a JWKS", () => {
+	const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+	const jwk = { ...publicKey.export({ format: "jwk" }), kid: "key-1", alg: "RS256", use: "sig" };
+	const rs256 = (kid = "key-1") =>
+		jwt.sign(claims, privateKey, { algorithm: "RS256", keyid: kid, audience: "authenticated", expiresIn: "1h" });
+
+	let server: http.Server | null = null;
+	afterEach(() => server?.close());
+
+	/** Serves the JWKS and counts the fetches. */
+	async function jwksServer() {
+		const fetches = { count: 0 };
+		server = http.createServer((req, res) => {
+			fetches.count++;
+			res.setHeader("Content-Type", "application/json");
+			res.end(JSON.stringify({ keys: [jwk] }));
+		});
+		await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as AddressInfo;
+		return { jwksUri: `http://127.0.0.1:${port}/.well-known/jwks.json`, fetches };
+	}
+
+	it("fetches the keys once and keeps using them while the endpoint is down", async () => {
+		const { jwksUri, fetches } = await jwksServer();
+		const verify = createJwtVerifier({ jwksUri, audience: "authenticated" });
+		expect((await verify(rs256())).id).toBe(users.alice.id);
+		expect((await verify(rs256())).id).toBe(users.alice.id);
+		expect(fetches.count).toBe(1);
+
+		await new Promise((resolve) => server!.close(resolve));
+		server = null;
+		expect((await verify(rs256())).id).toBe(users.alice.id);
+	});
+
+	it("rejects an unknown key id, and HS256 tokens without a secret", async () => {
+		const { jwksUri } = await jwksServer();
+		const verify = createJwtVerifier({ jwksUri, audience: "authenticated" });
+		await expect(verify(rs256("key-2"))).rejects.toThrow(new InvalidTokenError("Unknown signing key 'key-2'"));
+		await expect(verify(hs256())).rejects.toThrow(new InvalidTokenError("HS256 tokens are not accepted"));
+	});
+
+	it("fails with a non-token error when the keys can't be fetched", async () => {
+		const verify = createJwtVerifier({ jwksUri: "http://127.0.0.1:1/jwks.json", audience: "authenticated" });
+		const err = await verify(rs256()).catch((e) => e);
+		expect(err).toBeInstanceOf(Error);
+		expect(err).not.toBeInstanceOf(InvalidTokenError);
+	});
+});
+
+describe("API keys", () => {
+	it("looks keys up by their hash", () => {
+		const key = generateApiKey();
+		expect(key).toMatch(/^gk_[\w-]{43}$/);
+		expect(hashApiKey("gk_test")).toBe(crypto.createHash("sha256").update("gk_test").digest("hex"));
+
+		const registry = createApiKeyRegistry([{ name: "bot", hash: hashApiKey(key), scopes: ["chat"] }]);
+		expect(registry.find(key)?.name).toBe("bot");
+		expect(registry.find(`${key}x`)).toBeNull();
+		expect(registry.find(hashApiKey(key))).toBeNull(); // The hash isn't a key
+	});
+
+	it("checks the key file, listing every problem", () => {
+		const hash = hashApiKey("gk_test");
+		expect(parseApiKeys({ keys: [{ name: "bot", hash, scopes: ["chat"], plan: "pro" }] })).toEqual([
+			{ name: "bot", hash, scopes: ["chat"], plan: "pro" },
+		]);
+		let err: any;
+		try {
+			parseApiKeys({
+				keys: [
+					{ name: "bot", hash, scopes: ["chat"] },
+					{ name: "bot", hash: "gk_test", scopes: ["everything"], plan: 1 },
+				],
+			});
+		} catch (e) {
+			err = e;
+		}
+		expect(err).toBeInstanceOf(ApiKeyConfigError);
+		expect(err.issues).toEqual([
+			"keys[1].name: 'bot' is used twice",
+			"keys[1].hash: must be the SHA-256 of the key, as 64 hex characters",
+			"keys[1].scopes: must be a list of chat, conversations, trips, data, admin",
+			"keys[1].plan: must be a string",
+		]);
+		expect(() => parseApiKeys({})).toThrow(ApiKeyConfigError);
+	});
+
+	it("gives each service the same UUID every time", () => {
+		const user = serviceUser({ name: "whatsapp-bot", hash: hashApiKey("gk_test"), scopes: ["chat"] });
+		expect(user.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+		expect(serviceUser({ name: "whatsapp-bot", hash: "", scopes: ["data"] }).id).toBe(user.id);
+		expect(serviceUser({ name: "crm", hash: "", scopes: ["chat"] }).id).not.toBe(user.id);
+		expect(user.app_metadata).toEqual({ role: "service", service: "whatsapp-bot", scopes: ["chat"] });
+	});
+});
+
+describe("createAuthMiddleware", () => {
+	const DATA_KEY = "gk_data";
+	const ADMIN_KEY = "gk_admin";
+	const app = async () =>
+		(
+			await createTestApp({
+				apiKeys: createApiKeyRegistry([
+					{ name: "dashboard", hash: hashApiKey(DATA_KEY), scopes: ["data"] },
+					{ name: "ops", hash: hashApiKey(ADMIN_KEY), scopes: ["admin"] },
+				]),
+			})
+		).app;
+
+	it("answers 401 without a valid token or key", async () => {
+		const a = await app();
+		const cases: [Record<string, string>, string][] = [
+			[{}, "No authorization header."],
+			[{ Authorization: "Bearer" }, "Malformed authorization header."],
+			[{ Authorization: "Bearer mallory" }, "Invalid token."],
+			[{ "X-API-Key": "gk_unknown" }, "Invalid API key."],
+			[{ Authorization: "Bearer gk_unknown" }, "Invalid API key."],
+		];
+		for (const [headers, error] of cases) {
+			const res = await request(a).get("/api/cities").set(headers);
+			expect(res.status).toBe(401);
+			expect(res.body).toEqual({ error });
+		}
+	});
+
+	it("answers 403 for a user without the role, or a key without the scope", async () => {
+		const a = await app();
+		let res = await request(a).get("/api/admin/cache").set(auth("alice"));
+		expect(res.status).toBe(403);
+		expect(res.body).toEqual({ error: "Admin access required." });
+		res = await request(a).get("/api/conversations").set("X-API-Key", DATA_KEY);
+		expect(res.status).toBe(403);
+		expect(res.body).toEqual({ error: "API key lacks the 'conversations' scope." });
+		res = await request(a).get("/api/admin/cache").set("X-API-Key", DATA_KEY);
+		expect(res.body).toEqual({ error: "API key lacks the 'admin' scope." });
+	});
+
+	it("lets users and keys in where they belong", async () => {
+		const a = await app();
+		expect((await request(a).get("/api/admin/cache").set(auth("admin"))).status).toBe(200);
+		expect((await request(a).get("/api/cities").set(auth("alice"))).status).toBe(200);
+		expect((await request(a).get("/api/cities").set("X-API-Key", DATA_KEY)).status).toBe(200);
+		expect((await request(a).get("/api/cities").set("Authorization", `Bearer ${DATA_KEY}`)).status).toBe(200);
+		// Roles are for people: the admin scope is enough for a key
+		expect((await request(a).get("/api/admin/cache").set("X-API-Key", ADMIN_KEY)).status).toBe(200);
+	});
+
+	it("answers 500 when the token can't be checked at all", async () => {
+		const { app: a } = await createTestApp({
+			tokenVerifier: async () => {
+				throw new Error("JWKS endpoint down");
+			},
+		});
+		const res = await request(a).get("/api/cities").set(auth("alice"));
+		expect(res.status).toBe(500);
+		expect(res.body).toEqual({ error: "Internal authentication error." });
+	});
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { auth, createTestApp, parseSse, requestsToday } from "./helpers.js";
+
+describe("POST /api/chat (SSE)", () => {
+	it("streams meta, sources, deltas, usage and done, in that order", async () => {
+		const { app } = await createTestApp({
+			script: [{ match: "Jaipur", reply: "Jaipur mein Amber Fort zaroor dekho!" }],
+		});
+
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Jaipur 2 din ka plan batao" });
+
+		expect(res.status).toBe(200);
+		expect(res.headers["content-type"]).toMatch(/^text\/event-stream/);
+		const events = parseSse(res.text);
+		const names = events.map((e) => e.event);
+		expect(names[0]).toBe("meta");
+		expect(names[1]).toBe("sources");
+		expect(names.slice(2, -2).every((n) => n === "delta")).toBe(true);
+		expect(names.slice(-2)).toEqual(["usage", "done"]);
+
+		const [meta, sources] = events;
+		expect(meta.data).toMatchObject({ cached: false, promptVersion: "pixie@1/hinglish" });
+		expect(sources.data.cities[0].city).toBe("Jaipur");
+		expect(sources.data.chunks.length).toBeGreaterThan(0);
+		const text = events.filter((e) => e.event === "delta").map((e) => e.data.text).join("");
+		expect(text).toBe("Jaipur mein Amber Fort zaroor dekho!");
+		expect(events.at(-1)!.data.conversationId).toBe(meta.data.conversationId);
+		// Event ids count up per request, for Last-Event-ID resuming
+		expect(events.map((e) => e.id)).toEqual(
+			events.map((_, i) => `${meta.data.requestId}:${i + 1}`)
+		);
+	});
+
+	it("runs a tool-call round and streams the follow-up answer", async () => {
+		const { app } = await createTestApp({
+			script: [
+				{
+					match: "budget",
+					reply: "Goa ke 2 raat ka kharcha ready hai!",
+					toolCalls: [{ name: "estimate_trip_cost", args: { city: "Goa", nights: 2 } }],
+				},
+			],
+		});
+
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Goa budget for 2 nights" });
+
+		const events = parseSse(res.text);
+		const names = events.map((e) => e.event);
+		expect(names.indexOf("tool_call")).toBeGreaterThan(names.indexOf("sources"));
+		expect(names.indexOf("tool_result")).toBe(names.indexOf("tool_call") + 1);
+		expect(names.indexOf("delta")).toBeGreaterThan(names.indexOf("tool_result"));
+
+		const call = events.find((e) => e.event === "tool_call")!;
+		expect(call.data).toEqual({ name: "estimate_trip_cost", args: { city: "Goa", nights: 2 } });
+		const result = events.find((e) => e.event === "tool_result")!;
+		expect(result.data.result.city).toBe("Goa");
+		expect(result.data.result.estimate.total).toBeGreaterThan(0);
+		const text = events.filter((e) => e.event === "delta").map((e) => e.data.text).join("");
+		expect(text).toBe("Goa ke 2 raat ka kharcha ready hai!");
+	});
+
+	it("replays a near-identical first question from the answer cache", async () => {
+		const { app, histories } = await createTestApp();
+		const ask = () =>
+			request(app).post("/api/chat").set(auth("alice")).send({ query: "Goa beaches kaunse best hain?" });
+
+		const first = parseSse((await ask()).text);
+		const second = parseSse((await ask()).text);
+
+		expect(first[0].data.cached).toBe(false);
+		expect(second[0].data.cached).toBe(true);
+		expect(histories).toHaveLength(1);
+		const text = (events: typeof first) =>
+			events.filter((e) => e.event === "delta").map((e) => e.data.text).join("");
+		expect(text(second)).toBe(text(first));
+	});
+
+	it("doesn't cache answers to questions with contact details in them", async () => {
+		const { app, histories } = await createTestApp();
+		const ask = () =>
+			request(app)
+				.post("/api/chat")
+				.set(auth("alice"))
+				.send({ query: "Goa hotels, mail me at asha@example.com", stream: false });
+
+		await ask();
+		const second = await ask();
+
+		expect(second.body.cached).toBe(false);
+		expect(histories).toHaveLength(2);
+	});
+
+	it("keys the stream by its own id, not the caller's X-Request-Id", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.set("X-Request-Id", "shared-id")
+			.send({ query: "Goa?" });
+
+		const [meta] = parseSse(res.text);
+		expect(meta.data.requestId).not.toBe("shared-id");
+		expect(res.headers["x-request-id"]).toBe(meta.data.requestId);
+	});
+
+	it("needs a token", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app).post("/api/chat").send({ query: "Goa?" });
+		expect(res.status).toBe(401);
+	});
+});
+
+describe("POST /api/chat with stream: false", () => {
+	it("answers with one JSON object", async () => {
+		const { app } = await createTestApp({
+			script: [{ match: "Jaipur", reply: "Amber Fort subah jaldi jao." }],
+		});
+
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Jaipur mein kya dekhein?", stream: false });
+
+		expect(res.status).toBe(200);
+		expect(res.headers["content-type"]).toMatch(/^application\/json/);
+		expect(res.body).toMatchObject({
+			answer: "Amber Fort subah jaldi jao.",
+			cached: false,
+			promptVersion: "pixie@1/hinglish",
+			toolCalls: [],
+		});
+		expect(res.body.conversationId).toEqual(expect.any(String));
+		expect(res.body.sources.cities[0].city).toBe("Jaipur");
+		expect(res.body.usage.totalTokens).toBeGreaterThan(0);
+	});
+
+	it("includes tool calls with their results", async () => {
+		const { app } = await createTestApp({
+			script: [
+				{
+					match: "budget",
+					reply: "Done!",
+					toolCalls: [{ name: "estimate_trip_cost", args: { city: "Goa", nights: 2 } }],
+				},
+			],
+		});
+
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Goa budget for 2 nights", stream: false });
+
+		expect(res.body.answer).toBe("Done!");
+		expect(res.body.toolCalls).toHaveLength(1);
+		expect(res.body.toolCalls[0]).toMatchObject({ name: "estimate_trip_cost", args: { city: "Goa" } });
+		expect(res.body.toolCalls[0].result.estimate.total).toBeGreaterThan(0);
+	});
+
+	it("names the cities left out of a question about too many", async () => {
+		const { app, histories } = await createTestApp();
+		const names = ["Amritsar", "Goa", "Mumbai", "Agra", "Jaipur", "Lucknow", "Puri", "Varanasi"];
+
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: `Trip covering ${names.join(", ")}`, stream: false });
+
+		const { cities, leftOutCities } = res.body.sources;
+		expect(cities).toHaveLength(6);
+		expect(leftOutCities).toHaveLength(2);
+		expect([...cities.map((c: { city: string }) => c.city), ...leftOutCities].sort()).toEqual([...names].sort());
+		expect(histories[0][0].text).toContain(`Not covered here (too many cities in one question): ${leftOutCities.join(", ")}`);
+	});
+
+});
+
+describe("POST /api/chat validation", () => {
+	it.each([
+		[{ query: "Goa?", stream: "no" }, ["stream: must be a boolean"]],
+		[{ query: 42 }, ["query: must be a string"]],
+		[{ query: "Goa?", conversationId: 7 }, ["conversationId: must be a string"]],
+	])("rejects %j without using up quota", async (body, issues) => {
+		const { app } = await createTestApp();
+		const res = await request(app).post("/api/chat").set(auth("alice")).send(body);
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual(issues);
+		expect(await requestsToday(app)).toBe(0);
+	});
+
+	it("rejects an unknown persona without using up quota", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Goa?", persona: "nobody" });
+		expect(res.status).toBe(400);
+		expect(res.body.error).toBe("Invalid prompt selection.");
+		expect(await requestsToday(app)).toBe(0);
+	});
+
+	it("answers 404 for an unknown conversation without using up quota", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Goa?", conversationId: "44444444-4444-4444-8444-444444444444" });
+		expect(res.status).toBe(404);
+		expect(await requestsToday(app)).toBe(0);
+	});
+});
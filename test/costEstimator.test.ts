@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseEstimateRequest } from "../src/costEstimator.js";
+
+const noCity = () => undefined;
+const rates = { hotelPerNight: 2000, foodPerDay: 600, nights: 2 };
+
+describe("parseEstimateRequest", () => {
+	it("needs no petrol rate for a trip without car legs", () => {
+		const { params, issues } = parseEstimateRequest(
+			{ ...rates, legs: [{ mode: "train", distanceKm: 300 }, { mode: "flight", distanceKm: 1200 }] },
+			noCity
+		);
+		expect(issues).toEqual([]);
+		expect(params?.petrolPerKm).toBeUndefined();
+	});
+
+	it("needs a petrol rate for a car leg", () => {
+		const { params, issues } = parseEstimateRequest({ ...rates, mode: "car", distanceKm: 250 }, noCity);
+		expect(params).toBeNull();
+		expect(issues).toEqual(["petrolPerKm: needed for car legs (or a known city)"]);
+	});
+
+	it("accepts zero for rates and distances", () => {
+		const { issues } = parseEstimateRequest(
+			{ ...rates, hotelPerNight: 0, petrolPerKm: 0, legs: [{ mode: "car", distanceKm: 0 }] },
+			noCity
+		);
+		expect(issues).toEqual([]);
+	});
+});
@@ -0,0 +1,98 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+	checkFacts,
+	citiesCorrect,
+	distinctSources,
+	loadGoldenCases,
+	recallAtK,
+	reciprocalRank,
+} from "../src/evaluation.js";
+
+describe("retrieval metrics", () => {
+	const retrieved = distinctSources(["jaipur_plan.txt", "jaipur_plan.txt", "goa_plan.txt", "agra_plan.txt"]);
+
+	it("keeps each source once, in retrieval order", () => {
+		expect(retrieved).toEqual(["jaipur_plan.txt", "goa_plan.txt", "agra_plan.txt"]);
+	});
+
+	it.each<[string[], number, number | null]>([
+		[["jaipur_plan.txt"], 1, 1],
+		[["agra_plan.txt"], 2, 0],
+		[["agra_plan.txt"], 3, 1],
+		[["jaipur_plan.txt", "agra_plan.txt"], 2, 0.5],
+		[["varanasi_plan.txt"], 5, 0],
+		[[], 5, null],
+	])("recall of %j in the top %i is %s", (expected, k, recall) => {
+		expect(recallAtK(retrieved, expected, k)).toBe(recall);
+	});
+
+	it.each<[string[], number | null]>([
+		[["jaipur_plan.txt"], 1],
+		[["agra_plan.txt", "goa_plan.txt"], 0.5], // The first relevant one counts
+		[["agra_plan.txt"], 1 / 3],
+		[["varanasi_plan.txt"], 0],
+		[[], null],
+	])("reciprocal rank of %j is %s", (expected, rank) => {
+		expect(reciprocalRank(retrieved, expected)).toBe(rank);
+	});
+});
+
+describe("citiesCorrect", () => {
+	it.each<[string[], string[], boolean]>([
+		[["Jaipur"], ["jaipur"], true],
+		[["Agra", "New Delhi"], ["New Delhi", "Agra"], true], // Any order
+		[["Agra", "Jaipur", "New Delhi"], ["New Delhi", "Agra"], false], // Only the top matches count
+		[["Mumbai"], ["Goa"], false],
+		[[], [], true],
+		[["Goa"], [], false], // Nothing should match a question about no city
+	])("%j for %j is %s", (matched, expected, correct) => {
+		expect(citiesCorrect(matched, expected)).toBe(correct);
+	});
+});
+
+describe("checkFacts", () => {
+	it("finds facts however the answer writes rupees, commas and dashes", () => {
+		const answer = "Entry is Rs. 1,350 for foreigners, INR 50 for Indians. Open 9:00 AM — 4:30 PM.";
+		const { facts, factCoverage } = checkFacts(answer, ["₹1350", "₹ 50", "9:00 am - 4:30 pm", "₹200"]);
+		expect(facts.map((f) => f.found)).toEqual([true, true, true, false]);
+		expect(factCoverage).toBe(0.75);
+	});
+
+	it("has no coverage without facts to check", () => {
+		expect(checkFacts("Anything", [])).toEqual({ facts: [], factCoverage: null });
+	});
+});
+
+describe("loadGoldenCases", () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-eval-"));
+	const file = (data: unknown) => {
+		const filePath = path.join(dir, "golden.json");
+		fs.writeFileSync(filePath, JSON.stringify(data));
+		return filePath;
+	};
+
+	it("loads the committed dataset", () => {
+		const cases = loadGoldenCases(path.resolve(import.meta.dirname, "..", "eval", "golden.json"));
+		expect(cases.length).toBeGreaterThan(0);
+		expect(new Set(cases.map((c) => c.id)).size).toBe(cases.length);
+	});
+
+	it("fills in the lists a case leaves out", () => {
+		expect(loadGoldenCases(file({ cases: [{ id: "hi", question: "Hello?" }] }))).toEqual([
+			{ id: "hi", question: "Hello?", expectedSources: [], expectedCities: [], facts: [] },
+		]);
+	});
+
+	it.each<[unknown, string]>([
+		[{ questions: [] }, 'expected { "cases": [...] }'],
+		[{ cases: [{ id: "a" }] }, "cases[0]: needs an id and a question"],
+		[{ cases: [{ id: "a", question: "?" }, { id: "a", question: "?" }] }, "cases[1]: duplicate id 'a'"],
+		[{ cases: [{ id: "a", question: "?", facts: "₹50" }] }, "cases[0].facts: must be an array"],
+	])("rejects %j", (data, message) => {
+		const filePath = file(data);
+		expect(() => loadGoldenCases(filePath)).toThrow(`${filePath}: ${message}`);
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { auth, createTestApp, parseSse, users } from "./helpers.js";
+import { buildFeedbackReport } from "../src/feedbackRoutes.js";
+import { CitedChunk, Feedback } from "../src/types/index.js";
+
+const chunk = (id: string, source: string, city: string): CitedChunk => ({
+	id,
+	source,
+	city,
+	similarity: 0.8,
+	score: 0.03,
+});
+
+let nextId = 0;
+const feedback = (rating: "up" | "down", chunks: CitedChunk[], cities: string[]): Feedback => ({
+	id: String(++nextId),
+	userId: users.alice.id,
+	conversationId: "c1",
+	requestId: `r${nextId}`,
+	rating,
+	query: `Question ${nextId}`,
+	answer: "Answer",
+	chunks,
+	cities: cities.map((city) => ({ city, confidence: 1, matchedOn: city })),
+	createdAt: "2026-10-01T00:00:00.000Z",
+});
+
+describe("buildFeedbackReport", () => {
+	const jaipur1 = chunk("j1", "jaipur_plan.txt", "jaipur");
+	const jaipur2 = chunk("j2", "jaipur_plan.txt", "jaipur");
+	const goa = chunk("g1", "goa_plan.txt", "goa");
+
+	it("counts an answer once per source, however many of its chunks it used", () => {
+		const report = buildFeedbackReport([feedback("down", [jaipur1, jaipur2, goa], ["Jaipur", "Goa"])], null);
+		expect(report).toMatchObject({ since: null, total: 1, down: 1 });
+		expect(report.bySource.map((g) => [g.key, g.down])).toEqual([
+			["jaipur_plan.txt", 1],
+			["goa_plan.txt", 1],
+		]);
+		expect(report.bySource[0].chunkIds).toEqual([
+			{ id: "j1", count: 1 },
+			{ id: "j2", count: 1 },
+		]);
+		// Chunks go to the city they are about
+		expect(report.byCity.find((g) => g.key === "Goa")!.chunkIds).toEqual([{ id: "g1", count: 1 }]);
+	});
+
+	it("puts answers without chunks or cities in their own groups", () => {
+		const report = buildFeedbackReport([feedback("down", [], []), feedback("up", [], [])], null);
+		expect(report.bySource).toMatchObject([{ key: "(no sources)", up: 1, down: 1, chunkIds: [] }]);
+		expect(report.byCity).toMatchObject([{ key: "(no city)", up: 1, down: 1 }]);
+		expect(report.bySource[0].examples).toHaveLength(1); // Only for thumbs down
+	});
+
+	it("sorts the worst groups first: most down, then fewest up", () => {
+		const report = buildFeedbackReport(
+			[
+				feedback("up", [goa], ["Goa"]),
+				feedback("down", [goa], ["Goa"]),
+				feedback("down", [jaipur1], ["Jaipur"]),
+				feedback("down", [jaipur1], ["Jaipur"]),
+				feedback("down", [chunk("v1", "varanasi_plan.txt", "varanasi")], ["Varanasi"]),
+			],
+			"2026-09-01T00:00:00.000Z"
+		);
+		expect(report.bySource.map((g) => g.key)).toEqual(["jaipur_plan.txt", "varanasi_plan.txt", "goa_plan.txt"]);
+		expect(report.byCity.map((g) => g.key)).toEqual(["Jaipur", "Varanasi", "Goa"]);
+		expect(report.bySource[0].chunkIds).toEqual([{ id: "j1", count: 2 }]);
+		expect(report).toMatchObject({ since: "2026-09-01T00:00:00.000Z", total: 5, down: 4 });
+	});
+});
+
+describe("POST /api/feedback", () => {
+	/** The user asks about Jaipur; returns the ids of their conversation and the answer. */
+	async function answered(app: Express, user: keyof typeof users = "alice") {
+		const res = await request(app).post("/api/chat").set(auth(user)).send({ query: "Jaipur 2 din ka plan batao" });
+		const meta = parseSse(res.text)[0];
+		return { conversationId: meta.data.conversationId, requestId: meta.data.requestId };
+	}
+
+	const report = async (app: Express) =>
+		(await request(app).get("/api/admin/feedback/report").set(auth("admin"))).body;
+
+	it("saves the rating with the question, answer and sources from the conversation", async () => {
+		const { app } = await createTestApp({ script: [{ match: "Jaipur", reply: "Amber Fort zaroor dekho!" }] });
+		const ids = await answered(app);
+		const res = await request(app)
+			.post("/api/feedback")
+			.set(auth("alice"))
+			.send({ ...ids, rating: "down", reason: " Missing Day 2 ", answer: "Made up" });
+		expect(res.status).toBe(201);
+		expect(res.body.feedback).toMatchObject({
+			...ids,
+			rating: "down",
+			reason: "Missing Day 2",
+			query: "Jaipur 2 din ka plan batao",
+			answer: "Amber Fort zaroor dekho!",
+		});
+		expect(res.body.feedback.chunks.length).toBeGreaterThan(0);
+		expect(res.body.feedback.cities[0].city).toBe("Jaipur");
+	});
+
+	it("replaces an earlier rating of the same answer", async () => {
+		const { app } = await createTestApp();
+		const ids = await answered(app);
+		await request(app).post("/api/feedback").set(auth("alice")).send({ ...ids, rating: "down" });
+		await request(app).post("/api/feedback").set(auth("alice")).send({ ...ids, rating: "up" });
+		expect(await report(app)).toMatchObject({ total: 1, down: 0 });
+	});
+
+	it("answers 404 for an answer from someone else's conversation", async () => {
+		const { app } = await createTestApp();
+		const ids = await answered(app);
+		let res = await request(app).post("/api/feedback").set(auth("bob")).send({ ...ids, rating: "down" });
+		expect(res.status).toBe(404);
+		expect(res.body).toEqual({ error: "Answer not found." });
+
+		// Nor with Bob's own conversation and Alice's request id
+		const own = await answered(app, "bob");
+		res = await request(app)
+			.post("/api/feedback")
+			.set(auth("bob"))
+			.send({ conversationId: own.conversationId, requestId: ids.requestId, rating: "down" });
+		expect(res.status).toBe(404);
+		expect((await report(app)).total).toBe(0);
+	});
+
+	it("answers 400 for a bad body", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/feedback")
+			.set(auth("alice"))
+			.send({ rating: "meh", reason: "x".repeat(501), correction: 42 });
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual([
+			"conversationId: required",
+			"requestId: required",
+			"rating: must be one of up, down",
+			"reason: must be a string of at most 500 characters",
+			"correction: must be a string of at most 2000 characters",
+		]);
+	});
+});
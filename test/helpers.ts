@@ -0,0 +1,108 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { Express } from "express";
+import { User } from "@supabase/supabase-js";
+import { AppDependencies, createApp } from "../src/index.js";
+import { FakeScriptEntry, createFakeChatProvider, createHashEmbedder } from "../src/fakeProvider.js";
+import { createInMemoryConversationStore } from "../src/conversationStore.js";
+import { createInMemoryUsageStore } from "../src/usageStore.js";
+import { createInMemoryFeedbackStore } from "../src/feedbackStore.js";
+import { createInMemoryTripStore } from "../src/tripStore.js";
+import { createLocalVectorStore } from "../src/vectorStore.js";
+import { InvalidTokenError } from "../src/tokenVerifier.js";
+import { loadPromptRegistry } from "../src/promptRegistry.js";
+import { loadTravelData } from "../src/utils.js";
+import { ChatProvider } from "../src/llmProvider.js";
+import { LLMMessage } from "../src/types/index.js";
+
+const root = path.resolve(import.meta.dirname, "..");
+
+// Bearer tokens the test verifier accepts
+export const users: Record<string, User> = {
+	alice: { id: "11111111-1111-4111-8111-111111111111", app_metadata: {} } as User,
+	bob: { id: "22222222-2222-4222-8222-222222222222", app_metadata: {} } as User,
+	admin: { id: "33333333-3333-4333-8333-333333333333", app_metadata: { role: "admin" } } as User,
+};
+
+// A few plan chunks, so retrieval has something to find
+const CHUNKS = [
+	{ source: "jaipur_plan.txt", city: "jaipur", content: "Day 1: Amber Fort in the morning, then Hawa Mahal and the bazaars of Jaipur." },
+	{ source: "jaipur_plan.txt", city: "jaipur", content: "Day 2: City Palace, Jantar Mantar and dinner at Chokhi Dhani in Jaipur." },
+	{ source: "goa_plan.txt", city: "goa", content: "Goa beaches: Baga, Calangute and Palolem. Try the fish curry rice." },
+];
+
+/**
+ * The app with fakes for everything external: scripted chat, hash embeddings,
+ * a local vector store in a temp dir and in-memory stores.
+ * `histories` records the history each model chat was started with.
+ */
+export async function createTestApp(
+	options: { script?: FakeScriptEntry[] } & Partial<AppDependencies> = {}
+) {
+	const { script = [], ...overrides } = options;
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-test-"));
+	const embedder = createHashEmbedder();
+	const vectorStore = createLocalVectorStore(path.join(dir, "vectorStore.json"));
+	const embeddings = await embedder.embedDocuments(CHUNKS.map((c) => c.content));
+	await vectorStore.add(
+		CHUNKS.map(({ source, city, content }, i) => ({
+			content,
+			metadata: { source, city },
+			embedding: embeddings[i],
+		}))
+	);
+
+	const fake = createFakeChatProvider(script);
+	const histories: LLMMessage[][] = [];
+	const chatProvider: ChatProvider = {
+		name: "fake",
+		startChat(chatOptions) {
+			histories.push(chatOptions.history);
+			return fake.startChat(chatOptions);
+		},
+	};
+
+	const dependencies: AppDependencies = {
+		chatProvider,
+		embedder,
+		supabaseClient: {} as AppDependencies["supabaseClient"],
+		tokenVerifier: async (token) => {
+			if (!users[token]) throw new InvalidTokenError("Unknown test token");
+			return users[token];
+		},
+		cities: loadTravelData(path.join(root, "travelData.json")),
+		vectorStore,
+		conversationStore: createInMemoryConversationStore(),
+		usageStore: createInMemoryUsageStore(),
+		feedbackStore: createInMemoryFeedbackStore(),
+		tripStore: createInMemoryTripStore(),
+		prompts: loadPromptRegistry(path.join(root, "prompts")),
+		...overrides,
+	};
+	return { app: createApp(dependencies), histories, dependencies };
+}
+
+export const auth = (user: keyof typeof users) => ({ Authorization: `Bearer ${user}` });
+
+export interface SseEvent {
+	id: string;
+	event: string;
+	data: any;
+}
+
+/** Splits an SSE body into its events (heartbeat comments are skipped). */
+export function parseSse(body: string): SseEvent[] {
+	return body
+		.split("\n\n")
+		.filter((frame) => frame.includes("event: "))
+		.map((frame) => {
+			const field = (name: string) => frame.match(new RegExp(`^${name}: (.*)$`, "m"))?.[1] ?? "";
+			return { id: field("id"), event: field("event"), data: JSON.parse(field("data")) };
+		});
+}
+
+/** How many requests alice's quota has counted today. */
+export const requestsToday = async (app: Express): Promise<number> =>
+	(await request(app).get("/api/me/usage").set(auth("alice"))).body.usage.requests;
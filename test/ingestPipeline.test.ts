@@ -0,0 +1,84 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { runIngestion } from "../src/ingestPipeline.js";
+import { createFileManifestStore } from "../src/ingestManifest.js";
+import { createLocalDocumentStore } from "../src/documentStore.js";
+import { createLocalVectorStore, VectorStore } from "../src/vectorStore.js";
+import { createHashEmbedder } from "../src/fakeProvider.js";
+import { loadTravelData } from "../src/utils.js";
+
+const root = path.resolve(import.meta.dirname, "..");
+const cities = loadTravelData(path.join(root, "travelData.json"));
+
+/**
+ * A temp dir with a copy of the knowledge base, and ingestion options pointing into it.
+ * Setting `manifestWrites.fail` makes saving the manifest fail, after the rows went in.
+ */
+function setup() {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-ingest-"));
+	const knowledgeDir = path.join(dir, "knowledge_base");
+	fs.cpSync(path.join(root, "knowledge_base"), knowledgeDir, { recursive: true });
+	const vectorStore = createLocalVectorStore(path.join(dir, "vectorStore.json"));
+	const manifestWrites = { fail: false };
+	const manifest = createFileManifestStore(path.join(dir, "ingestManifest.json"));
+	const options = {
+		documents: createLocalDocumentStore(knowledgeDir),
+		vectorStore,
+		storeName: "local",
+		embedder: createHashEmbedder(),
+		embedderName: "hash",
+		manifest: {
+			...manifest,
+			async save(next: Parameters<typeof manifest.save>[0]) {
+				if (manifestWrites.fail) throw new Error("disk full");
+				return manifest.save(next);
+			},
+		},
+		attractionsPath: path.join(dir, "attractions.json"),
+		cities,
+	};
+	return { knowledgeDir, vectorStore, manifestWrites, options };
+}
+
+// Lets `n` adds through, then fails every one after
+const failingAfter = (store: VectorStore, n: number): VectorStore => ({
+	...store,
+	async add(records) {
+		if (n-- <= 0) throw new Error("insert failed");
+		return store.add(records);
+	},
+});
+
+const ids = async (store: VectorStore) => (await store.list()).map((c) => c.id).sort();
+
+describe("runIngestion", () => {
+	it("keeps the old chunks when a rebuild fails part way", async () => {
+		const { vectorStore, options } = setup();
+		await runIngestion(options);
+		const before = await ids(vectorStore);
+
+		await expect(
+			runIngestion({ ...options, vectorStore: failingAfter(vectorStore, 1), force: true })
+		).rejects.toThrow("insert failed");
+
+		expect(await ids(vectorStore)).toEqual(before);
+	});
+
+	it("takes back the added chunks when an incremental run fails, so a retry adds them once", async () => {
+		const { knowledgeDir, vectorStore, manifestWrites, options } = setup();
+		await runIngestion(options);
+		const before = await ids(vectorStore);
+		fs.appendFileSync(path.join(knowledgeDir, "jaipur_plan.txt"), "\nP.S. Nahargarh at sunset is a must!\n");
+
+		manifestWrites.fail = true;
+		await expect(runIngestion(options)).rejects.toThrow("disk full");
+		expect(await ids(vectorStore)).toEqual(before);
+
+		manifestWrites.fail = false;
+		const { summary } = await runIngestion(options);
+		expect(summary.added).toBeGreaterThan(0);
+		expect((await ids(vectorStore)).length).toBe(before.length + summary.added - summary.removed);
+	});
+});
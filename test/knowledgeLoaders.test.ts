@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+	htmlToText,
+	knowledgeFormat,
+	markdownToText,
+	parseFrontMatter,
+	parseKnowledgeFile,
+} from "../src/knowledgeLoaders.js";
+
+describe("parseFrontMatter", () => {
+	it("splits the block off and keeps the fields we use", () => {
+		const { frontMatter, body } = parseFrontMatter(
+			"---\ncity: Udaipur \nstate: Rajasthan\ndays: 2\ntags: Lakes, Palaces\nauthor: ignored\n---\n# Udaipur\n",
+			"udaipur.md"
+		);
+		expect(frontMatter).toEqual({ city: "Udaipur", state: "Rajasthan", days: 2, tags: ["lakes", "palaces"] });
+		expect(body).toBe("# Udaipur\n");
+	});
+
+	it("accepts a YAML list of tags, Windows line ends and a BOM", () => {
+		const { frontMatter, body } = parseFrontMatter("\uFEFF---\r\ntags: [Food]\r\n---\r\nText", "a.md");
+		expect(frontMatter).toEqual({ tags: ["food"] });
+		expect(body).toBe("Text");
+	});
+
+	it("leaves a file without a block alone", () => {
+		expect(parseFrontMatter("Title: Goa\n---\n", "goa.txt")).toEqual({ frontMatter: {}, body: "Title: Goa\n---\n" });
+	});
+
+	it.each([
+		["city: [", "a.md: invalid front matter: "],
+		["- city", "a.md: front matter must be key: value pairs"],
+		["city: ' '", "a.md: front matter 'city' must be a non-empty string"],
+		["title: 42", "a.md: front matter 'title' must be a non-empty string"],
+		["days: 1.5", "a.md: front matter 'days' must be a whole number >= 1"],
+		["days: 0", "a.md: front matter 'days' must be a whole number >= 1"],
+		["tags: [1, 2]", "a.md: front matter 'tags' must be a list of strings"],
+	])("throws for %j", (yaml, message) => {
+		expect(() => parseFrontMatter(`---\n${yaml}\n---\nText`, "a.md")).toThrow(message);
+	});
+});
+
+describe("htmlToText", () => {
+	it("turns headings into # lines and list items into - lines", () => {
+		const html =
+			"<html><head><style>p { color: pink }</style></head><body>" +
+			"<h1>Udaipur &amp; its   Lakes</h1><!-- draft --><p>Day one:<br>a boat ride</p>" +
+			"<ul><li>City Palace</li><li>Lake&nbsp;Pichola &rarr; Jag Mandir</li></ul>" +
+			"<h2 class=\"day\">Day 1</h2><table><tr><td>Entry</td><td>&#8377;300</td></tr></table>" +
+			"<script>track()</script></body></html>";
+		expect(htmlToText(html)).toBe(
+			"# Udaipur & its Lakes\n\nDay one:\na boat ride\n\n- City Palace\n- Lake Pichola → Jag Mandir\n\n## Day 1\n\nEntry ₹300"
+		);
+	});
+});
+
+describe("markdownToText", () => {
+	it("keeps headings and list markers, and only the text of the rest", () => {
+		const markdown = "## Day 1\n\n**Bold** and _quiet_ [Hawa Mahal](https://x.in) ![photo](a.jpg) `₹50`\n\n```\ncode\n```\n> Tip\n\n---\n- Go early";
+		expect(markdownToText(markdown)).toBe("## Day 1\n\nBold and quiet Hawa Mahal photo ₹50\n\ncode\nTip\n\n- Go early");
+	});
+});
+
+describe("parseKnowledgeFile", () => {
+	it("picks the format from the extension", async () => {
+		expect(knowledgeFormat("a.MARKDOWN")).toBe("md");
+		expect(knowledgeFormat("a.docx")).toBeNull();
+		await expect(parseKnowledgeFile("a.docx", Buffer.from("x"))).rejects.toThrow("a.docx: unsupported file type");
+	});
+
+	it("takes an HTML title from <title> unless the front matter has one", async () => {
+		const html = "<html><head><title>Goa &amp; Gokarna</title></head><body><h1>Beaches</h1></body></html>";
+		let doc = await parseKnowledgeFile("goa.html", Buffer.from(html));
+		expect(doc).toEqual({
+			source: "goa.html",
+			format: "html",
+			text: "# Beaches",
+			frontMatter: { title: "Goa & Gokarna" },
+		});
+		doc = await parseKnowledgeFile("goa.htm", Buffer.from(`---\ntitle: Goa\ncity: Goa\n---\n${html}`));
+		expect(doc.frontMatter).toEqual({ title: "Goa", city: "Goa" });
+	});
+
+	it("names the file when a PDF can't be read", async () => {
+		await expect(parseKnowledgeFile("broken.pdf", Buffer.from("not a pdf"))).rejects.toThrow(
+			"broken.pdf: could not read PDF:"
+		);
+	});
+});
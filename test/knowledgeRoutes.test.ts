@@ -0,0 +1,208 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { auth, createTestApp } from "./helpers.js";
+import { createKnowledgeBase } from "../src/knowledgeBase.js";
+import { createIngestJobRunner } from "../src/ingestJobs.js";
+import { runIngestion } from "../src/ingestPipeline.js";
+import { createFileManifestStore } from "../src/ingestManifest.js";
+import { createLocalDocumentStore, createSupabaseDocumentStore } from "../src/documentStore.js";
+import { createHashEmbedder } from "../src/fakeProvider.js";
+import { IngestSummary } from "../src/types/index.js";
+
+const root = path.resolve(import.meta.dirname, "..");
+const PLAN = "Title: 2 days in Udaipur\n\nDay 1: City Palace and a boat on Lake Pichola.\n";
+
+/**
+ * An app whose knowledge base is a temp folder with a copy of jaipur_plan.txt.
+ * @param run The ingest job; by default a real ingest into the test app's vector store
+ */
+async function setup(run?: () => Promise<IngestSummary>) {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-knowledge-"));
+	fs.mkdirSync(path.join(dir, "knowledge_base"));
+	fs.copyFileSync(
+		path.join(root, "knowledge_base", "jaipur_plan.txt"),
+		path.join(dir, "knowledge_base", "jaipur_plan.txt")
+	);
+	const documents = createLocalDocumentStore(path.join(dir, "knowledge_base"));
+	const manifest = createFileManifestStore(path.join(dir, "ingestManifest.json"));
+	const { app, dependencies } = await createTestApp();
+	const ingestJobs = createIngestJobRunner(
+		run ||
+			(async ({ force, report, onProgress }) => {
+				const result = await runIngestion({
+					documents,
+					vectorStore: dependencies.vectorStore,
+					storeName: "local",
+					embedder: createHashEmbedder(),
+					embedderName: "hash",
+					manifest,
+					attractionsPath: path.join(dir, "attractions.json"),
+					cities: dependencies.cities,
+					force,
+					report,
+					onProgress,
+				});
+				return result.summary;
+			})
+	);
+	const knowledgeBase = createKnowledgeBase(documents, dependencies.cities, manifest);
+	return { app: (await createTestApp({ ...dependencies, knowledgeBase, ingestJobs })).app, dir };
+}
+
+/** Waits for an ingest job to finish and returns it. */
+async function finished(app: Express, id: string) {
+	for (;;) {
+		const { job } = (await request(app).get(`/api/admin/knowledge/ingest/${id}`).set(auth("admin"))).body;
+		if (job.status !== "running") return job;
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+describe("/api/admin/knowledge", () => {
+	it("is for admins only", async () => {
+		const { app } = await setup();
+		expect((await request(app).get("/api/admin/knowledge")).status).toBe(401);
+		const res = await request(app).get("/api/admin/knowledge").set(auth("alice"));
+		expect(res.status).toBe(403);
+		const upload = await request(app)
+			.post("/api/admin/knowledge/udaipur_plan.txt")
+			.set(auth("alice"))
+			.send({ content: PLAN });
+		expect(upload.status).toBe(403);
+		expect((await request(app).post("/api/admin/knowledge/ingest").set(auth("bob"))).status).toBe(403);
+	});
+
+	it("uploads, replaces and deletes a document", async () => {
+		const { app, dir } = await setup();
+		let res = await request(app)
+			.post("/api/admin/knowledge/udaipur_plan.txt")
+			.set(auth("admin"))
+			.send({ content: PLAN });
+		expect(res.status).toBe(201);
+		expect(res.body.document).toMatchObject({ name: "udaipur_plan.txt", format: "txt", status: "new" });
+		expect(fs.readFileSync(path.join(dir, "knowledge_base", "udaipur_plan.txt"), "utf8")).toBe(PLAN);
+
+		res = await request(app)
+			.post("/api/admin/knowledge/udaipur_plan.txt")
+			.set(auth("admin"))
+			.send({ content: PLAN });
+		expect(res.status).toBe(409);
+
+		res = await request(app)
+			.put("/api/admin/knowledge/udaipur_plan.txt")
+			.set(auth("admin"))
+			.set("Content-Type", "text/plain")
+			.send(`${PLAN}Day 2: Sajjangarh at sunset.\n`);
+		expect(res.status).toBe(200);
+		expect(res.body.document.size).toBe(Buffer.byteLength(PLAN) + 29);
+		res = await request(app).get("/api/admin/knowledge/udaipur_plan.txt").set(auth("admin"));
+		expect(res.text).toContain("Sajjangarh");
+
+		res = await request(app).put("/api/admin/knowledge/goa_plan.txt").set(auth("admin")).send({ content: PLAN });
+		expect(res.status).toBe(404);
+
+		res = await request(app).delete("/api/admin/knowledge/udaipur_plan.txt").set(auth("admin"));
+		expect(res.status).toBe(204);
+		res = await request(app).delete("/api/admin/knowledge/udaipur_plan.txt").set(auth("admin"));
+		expect(res.status).toBe(404);
+		res = await request(app).get("/api/admin/knowledge").set(auth("admin"));
+		expect(res.body.documents.map((d: any) => d.name)).toEqual(["jaipur_plan.txt"]);
+	});
+
+	it("rejects documents it couldn't ingest", async () => {
+		const { app } = await setup();
+		let res = await request(app)
+			.post("/api/admin/knowledge/udaipur.docx")
+			.set(auth("admin"))
+			.send({ content: PLAN });
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual(["name: must end in .txt, .md, .markdown, .html, .htm or .pdf"]);
+
+		res = await request(app)
+			.post("/api/admin/knowledge/udaipur.md")
+			.set(auth("admin"))
+			.send({ content: "---\ndays: two\n---\n# Udaipur" });
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual(["content: udaipur.md: front matter 'days' must be a whole number >= 1"]);
+	});
+
+	it("re-ingests, after which the documents show as ingested", async () => {
+		const { app } = await setup();
+		await request(app)
+			.post("/api/admin/knowledge/udaipur_plan.txt")
+			.set(auth("admin"))
+			.send({ content: PLAN });
+
+		const res = await request(app).post("/api/admin/knowledge/ingest").set(auth("admin")).send({});
+		expect(res.status).toBe(202);
+		const job = await finished(app, res.body.job.id);
+		expect(job).toMatchObject({ status: "succeeded", startedBy: "33333333-3333-4333-8333-333333333333" });
+		expect(job.summary.newFiles).toEqual(["jaipur_plan.txt", "udaipur_plan.txt"]);
+
+		const list = await request(app).get("/api/admin/knowledge").set(auth("admin"));
+		expect(list.body.documents.map((d: any) => d.status)).toEqual(["ingested", "ingested"]);
+	});
+
+	it("runs one ingest job at a time", async () => {
+		let finish!: () => void;
+		const done = new Promise<void>((resolve) => (finish = resolve));
+		const { app } = await setup(async () => {
+			await done;
+			return {} as IngestSummary;
+		});
+
+		const first = await request(app).post("/api/admin/knowledge/ingest").set(auth("admin")).send({});
+		expect(first.status).toBe(202);
+		const second = await request(app)
+			.post("/api/admin/knowledge/ingest")
+			.set(auth("admin"))
+			.send({ force: true });
+		expect(second.status).toBe(409);
+		expect(second.body.job.id).toBe(first.body.job.id);
+
+		let res = await request(app).get(`/api/admin/knowledge/ingest/${first.body.job.id}`).set(auth("admin"));
+		expect(res.body.job.status).toBe("running");
+		finish();
+		expect((await finished(app, first.body.job.id)).status).toBe("succeeded");
+
+		res = await request(app).get("/api/admin/knowledge/ingest/no-such-job").set(auth("admin"));
+		expect(res.status).toBe(404);
+		res = await request(app).post("/api/admin/knowledge/ingest").set(auth("admin")).send({ force: "yes" });
+		expect(res.status).toBe(400);
+	});
+});
+
+describe("createSupabaseDocumentStore", () => {
+	// A bucket with one file and one folder; downloads of anything else are not found
+	const fakeSupabase = {
+		storage: {
+			from: () => ({
+				list: async () => ({
+					data: [
+						{ id: "1", name: "jaipur_plan.txt", updated_at: "2026-10-01T00:00:00Z", metadata: { size: 42 } },
+						{ id: null, name: "drafts", updated_at: null, metadata: null },
+					],
+					error: null,
+				}),
+				download: async (name: string) =>
+					name === "jaipur_plan.txt"
+						? { data: new Blob(["Day 1"]), error: null }
+						: { data: null, error: { message: "Object not found", status: 400, statusCode: "404" } },
+			}),
+		},
+	} as unknown as SupabaseClient;
+
+	it("lists files, not folders, and reads a missing file as null", async () => {
+		const store = createSupabaseDocumentStore(fakeSupabase);
+		expect(await store.list()).toEqual([
+			{ name: "jaipur_plan.txt", size: 42, updatedAt: "2026-10-01T00:00:00Z" },
+		]);
+		expect((await store.read("jaipur_plan.txt"))?.toString()).toBe("Day 1");
+		expect(await store.read("goa_plan.txt")).toBeNull();
+	});
+});
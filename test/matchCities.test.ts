@@ -0,0 +1,79 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { editDistance, isSameCityName, loadTravelData, matchCities } from "../src/utils.js";
+import { hasDevanagari, transliterateDevanagari } from "../src/transliterate.js";
+
+const cities = loadTravelData(path.resolve(import.meta.dirname, "..", "travelData.json"));
+
+describe("editDistance", () => {
+	it.each([
+		["goa", "goa", 0],
+		["", "goa", 3],
+		["hydrabad", "hyderabad", 1], // Missing letter
+		["jiapur", "jaipur", 1], // Swapped letters count once
+		["lucknow", "lakhnau", 5],
+	])("%s -> %s is %i", (a, b, distance) => {
+		expect(editDistance(a, b)).toBe(distance);
+	});
+
+	it("forgives no typo in a short name, one or two in longer ones", () => {
+		expect(isSameCityName("Puri", "pune")).toBe(false);
+		expect(isSameCityName("agra", "Agra ")).toBe(true);
+		expect(isSameCityName("Lucknw", "Lucknow")).toBe(true);
+		expect(isSameCityName("Hiderabaad", "Hyderabad")).toBe(true);
+		expect(isSameCityName("Hidrabaadd", "Hyderabad")).toBe(false);
+	});
+});
+
+describe("transliterateDevanagari", () => {
+	it.each([
+		["जयपुर", "jaypur"], // Schwa dropped between full vowels
+		["दिल्ली", "dilli"], // Half consonant
+		["मुंबई", "mumbai"], // Anusvara before a labial is "m"
+		["बनारस", "banaras"],
+		["अयोध्या", "ayodhya"],
+		["ज़ायका", "zayka"], // Nukta
+		["दुःख", "duhkh"], // Visarga
+		["ताज महल", "taj mahal"],
+		["Trip to जयपुर!", "Trip to jaypur!"], // Everything else passes through
+	])("%s -> %s", (text, latin) => {
+		expect(transliterateDevanagari(text)).toBe(latin);
+	});
+
+	it("spots Devanagari", () => {
+		expect(hasDevanagari("Jaipur")).toBe(false);
+		expect(hasDevanagari("जयपुर trip")).toBe(true);
+	});
+});
+
+describe("matchCities", () => {
+	// [query, [city, confidence, matched on] for every match, best first]
+	it.each<[string, [string, number, string][]]>([
+		// Typos
+		["hydrabad biryani", [["Hyderabad", 1, "Hydrabad"]]],
+		["Lucknw kebabs", [["Lucknow", 0.88, "Lucknow"]]],
+		["Dehli in winter", [["New Delhi", 0.83, "Delhi"]]],
+		["Varansi ghats", [["Varanasi", 0.89, "Varanasi"]]],
+		["pune", []], // Too short to forgive a typo, so not Puri
+		// Devanagari: as an alias, or transliterated and then matched
+		["जयपुर में क्या देखें", [["Jaipur", 1, "जयपुर"]]],
+		["जैपुर घूमना है", [["Jaipur", 0.9, "Jaipur"]]],
+		["बम्बई", [["Mumbai", 0.9, "Bambai"]]],
+		["लखनउ", [["Lucknow", 0.79, "Lakhnau"]]],
+		// Old and local names
+		["Bombay vada pav", [["Mumbai", 1, "Bombay"]]],
+		["Benaras ghats", [["Varanasi", 1, "Benaras"]]],
+		["Kashi Vishwanath", [["Varanasi", 1, "Kashi"]]],
+		["Dilli ki sardi", [["New Delhi", 1, "Dilli"]]],
+		// Two-city trips
+		["Delhi se Agra", [["Agra", 1, "Agra"], ["New Delhi", 1, "Delhi"]]],
+		["हैदराबाद और गोवा", [["Goa", 1, "गोवा"], ["Hyderabad", 1, "हैदराबाद"]]],
+		// Ranking: exact beats a typo, which beats a state
+		["Jaipurr or Agra", [["Agra", 1, "Agra"], ["Jaipur", 0.86, "Jaipur"]]],
+		["Maharashtra and Goa", [["Goa", 1, "Goa"], ["Mumbai", 0.6, "Maharashtra"]]],
+		["Rajasthan desert", [["Jaipur", 0.6, "Rajasthan"]]],
+	])("%s", (query, expected) => {
+		const matches = matchCities(query, cities).map((m) => [m.city.city, m.confidence, m.matchedOn]);
+		expect(matches).toEqual(expected);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { auth, createTestApp, requestsToday } from "./helpers.js";
+
+describe("POST /v1/chat/completions", () => {
+	it("answers a stateless call without saving a conversation", async () => {
+		const { app } = await createTestApp({ script: [{ match: "Goa", reply: "Baga beach jao!" }] });
+
+		const res = await request(app)
+			.post("/v1/chat/completions")
+			.set(auth("alice"))
+			.send({ model: "pixie", messages: [{ role: "user", content: "Goa mein kya karein?" }] });
+
+		expect(res.status).toBe(200);
+		expect(res.body.choices[0].message.content).toBe("Baga beach jao!");
+		expect(res.body).not.toHaveProperty("conversation_id");
+		const list = await request(app).get("/api/conversations").set(auth("alice"));
+		expect(list.body.conversations).toEqual([]);
+	});
+
+	it("continues a saved conversation when given its id", async () => {
+		const { app } = await createTestApp();
+		const first = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "Goa?", stream: false });
+		const id = first.body.conversationId;
+
+		const res = await request(app)
+			.post("/v1/chat/completions")
+			.set(auth("alice"))
+			.send({ model: "pixie", conversation_id: id, messages: [{ role: "user", content: "Aur?" }] });
+
+		expect(res.body.conversation_id).toBe(id);
+		const conversation = await request(app).get(`/api/conversations/${id}`).set(auth("alice"));
+		expect(conversation.body.conversation.messages).toHaveLength(4);
+	});
+
+	it("rejects a malformed body without using up quota", async () => {
+		const { app } = await createTestApp();
+
+		const res = await request(app)
+			.post("/v1/chat/completions")
+			.set(auth("alice"))
+			.send({ model: "pixie", messages: [] });
+
+		expect(res.status).toBe(400);
+		expect(res.body.error).toMatchObject({ type: "invalid_request_error", param: "messages" });
+		expect(await requestsToday(app)).toBe(0);
+	});
+
+	it("rejects an unknown model without using up quota", async () => {
+		const { app } = await createTestApp();
+
+		const res = await request(app)
+			.post("/v1/chat/completions")
+			.set(auth("alice"))
+			.send({ model: "nobody", messages: [{ role: "user", content: "Goa?" }] });
+
+		expect(res.status).toBe(400);
+		expect(res.body.error).toMatchObject({ type: "invalid_request_error", param: "model" });
+		expect(await requestsToday(app)).toBe(0);
+	});
+});
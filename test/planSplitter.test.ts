@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { splitPlan } from "../src/planSplitter.js";
+
+const jaipur = fs.readFileSync(path.resolve(import.meta.dirname, "..", "knowledge_base", "jaipur_plan.txt"), "utf8");
+// The intro and Day 1's first three attractions
+const SNIPPET = jaipur.slice(0, jaipur.indexOf("🛍️ 4."));
+const DAY_1 = "🌅 Day 1: The City Vibe – Palaces, Culture & Pink Streets";
+
+describe("splitPlan", () => {
+	it("keeps each numbered attraction whole, under its Day heading", () => {
+		const chunks = splitPlan(SNIPPET);
+		expect(chunks.map((c) => c.metadata.attraction)).toEqual([
+			undefined,
+			"Hawa Mahal (Palace of Winds)",
+			"City Palace",
+			"Jantar Mantar",
+		]);
+		expect(chunks[0].content).toMatch(/^Title: 2 Days in Jaipur/);
+
+		const hawaMahal = chunks[1];
+		expect(hawaMahal.metadata).toEqual({
+			day: 1,
+			dayTitle: "The City Vibe – Palaces, Culture & Pink Streets",
+			attraction: "Hawa Mahal (Palace of Winds)",
+			attractionNumber: 1,
+			section: "Hawa Mahal (Palace of Winds)",
+		});
+		// Its timings, fee, location and tips stay together
+		expect(hawaMahal.content).toMatch(new RegExp(`^${DAY_1}\n🏰 1. Hawa Mahal`));
+		for (const line of ["🕰️ Timings: 9:00 AM – 4:30 PM", "💸 Entry Fee: ₹50 (Indians)", "Climb the top"]) {
+			expect(hawaMahal.content).toContain(line);
+		}
+		expect(chunks[2].content).not.toContain("Hawa Mahal");
+	});
+
+	it("splits a long section between paragraphs, repeating its headings", () => {
+		const chunks = splitPlan(SNIPPET, { maxChunkSize: 200 });
+		const hawaMahal = chunks.filter((c) => c.metadata.attraction === "Hawa Mahal (Palace of Winds)");
+		expect(hawaMahal.length).toBeGreaterThan(1);
+		for (const chunk of chunks) expect(chunk.content.length).toBeLessThanOrEqual(200);
+		for (const chunk of hawaMahal) {
+			expect(chunk.content.startsWith(`${DAY_1}\n🏰 1. Hawa Mahal (Palace of Winds)\n\n`)).toBe(true);
+		}
+		// No paragraph is cut in two
+		expect(hawaMahal.some((c) => c.content.endsWith("less crowd."))).toBe(true);
+	});
+
+	it("follows Markdown headings, and leaves the Day at a heading of its level", () => {
+		const chunks = splitPlan(
+			[
+				"## Day 2: Forts",
+				"Start early.",
+				"### 1. Amber Fort",
+				"1. Take the jeep up.",
+				"2. Skip the elephant ride.",
+				"## Itinerary at a Glance",
+				"Two days, three forts.",
+			].join("\n")
+		);
+		expect(chunks.map((c) => c.metadata)).toEqual([
+			{ day: 2, dayTitle: "Forts", section: "Day 2: Forts" },
+			{ day: 2, dayTitle: "Forts", attraction: "Amber Fort", attractionNumber: 1, section: "Amber Fort" },
+			{ section: "Itinerary at a Glance" },
+		]);
+		// Steps ending in "." are list items, not attractions
+		expect(chunks[1].content).toBe("Day 2: Forts\n1. Amber Fort\n\n1. Take the jeep up.\n2. Skip the elephant ride.");
+	});
+
+	it("drops chunks too short to say anything", () => {
+		const chunks = splitPlan("Wow!\n\n🏰 1. Hawa Mahal\n\nPink windows, built in 1799.\n");
+		expect(chunks.map((c) => c.metadata.attraction)).toEqual(["Hawa Mahal"]);
+	});
+});
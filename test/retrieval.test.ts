@@ -0,0 +1,107 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { createRetriever } from "../src/retrieval.js";
+import { buildBm25Index, tokenize } from "../src/bm25.js";
+import { createLocalVectorStore } from "../src/vectorStore.js";
+import { createHashEmbedder } from "../src/fakeProvider.js";
+
+const embedder = createHashEmbedder();
+
+const CHUNKS = [
+	{ source: "jaipur_plan.txt", content: "Hawa Mahal: entry fee ₹50 for Indians, ₹200 for foreigners. Open 9 AM to 4:30 PM." },
+	{ source: "jaipur_plan.txt", content: "Amber Fort: go early and take the jeep up. Entry fee ₹100." },
+	{ source: "varanasi_plan.txt", content: "Sarnath museum entry fee ₹20, closed on Fridays." },
+	{ source: "varanasi_plan.txt", content: "Boat ride fee at Dashashwamedh ghat is about ₹300, entry to the aarti is free." },
+];
+
+/** A local vector store in a temp dir, with the chunks embedded by the hash embedder. */
+async function storeWith(chunks: { source: string; content: string; embedding?: number[] }[]) {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-retrieval-"));
+	const store = createLocalVectorStore(path.join(dir, "vectorStore.json"));
+	const embeddings = await embedder.embedDocuments(chunks.map((c) => c.content));
+	await store.add(
+		chunks.map((c, i) => ({
+			content: c.content,
+			metadata: { source: c.source },
+			embedding: c.embedding || embeddings[i],
+		}))
+	);
+	return store;
+}
+
+const ask = async (retriever: ReturnType<typeof createRetriever>, query: string, cities?: string[]) =>
+	retriever.retrieve(query, await embedder.embedQuery(query), cities);
+
+describe("createRetriever", () => {
+	it("keeps Varanasi chunks out of a Hawa Mahal question", async () => {
+		const retriever = createRetriever(await storeWith(CHUNKS));
+		const results = await ask(retriever, "Hawa Mahal entry fee");
+		expect(results.map((r) => r.content)).toEqual([CHUNKS[0].content]);
+		expect(results[0].city).toBe("jaipur");
+	});
+
+	it("only keeps the asked-about city's chunks when it has some", async () => {
+		const retriever = createRetriever(await storeWith(CHUNKS), { minKeywordRatio: 0 });
+		const all = await ask(retriever, "entry fee kitni hai?");
+		expect(new Set(all.map((r) => r.city))).toEqual(new Set(["jaipur", "varanasi"]));
+
+		const jaipur = await ask(retriever, "entry fee kitni hai?", ["jaipur"]);
+		expect(jaipur.map((r) => r.city)).toEqual(["jaipur", "jaipur"]);
+		// No Goa chunks, so nothing is filtered for Goa
+		expect(await ask(retriever, "entry fee kitni hai?", ["goa"])).toHaveLength(all.length);
+	});
+
+	it("drops a chunk that repeats another one", async () => {
+		const copy = { source: "jaipur_plan.md", content: `  ${CHUNKS[0].content.toUpperCase()}\n` };
+		const retriever = createRetriever(await storeWith([...CHUNKS, copy]));
+		const results = await ask(retriever, "Hawa Mahal entry fee");
+		expect(results).toHaveLength(1);
+	});
+
+	it("skips a chunk too big for the token budget, but still takes a smaller one", async () => {
+		// The big chunk ranks first (closer vector) and costs over 100 tokens
+		const big = { source: "jaipur_plan.txt", content: "Long story. ".repeat(40) + "The end.", embedding: [1, 0] };
+		const small = { source: "jaipur_plan.txt", content: "Short story.", embedding: [0.8, 0.6] };
+		const store = await storeWith([big, small]);
+		const found = async (tokenBudget: number) =>
+			(await createRetriever(store, { tokenBudget }).retrieve("kuch batao", [1, 0])).map((r) => r.content);
+		expect(await found(1000)).toEqual([big.content, small.content]);
+		expect(await found(50)).toEqual([small.content]);
+	});
+
+	it("drops vector-only hits below minSimilarity", async () => {
+		// No words in common with the query, so only the vectors can find these
+		const store = await storeWith([
+			{ source: "goa_plan.txt", content: "Baga beach shacks", embedding: [1, 0, 0] },
+			{ source: "goa_plan.txt", content: "Dudhsagar falls trek", embedding: [0.6, 0.8, 0] },
+			{ source: "goa_plan.txt", content: "Old Goa churches", embedding: [0.3, 0, 0.954] },
+		]);
+		const found = async (minSimilarity: number) =>
+			(await createRetriever(store, { minSimilarity }).retrieve("kahan jaayein?", [1, 0, 0])).map(
+				(r) => r.similarity
+			);
+		expect(await found(0.5)).toEqual([1, 0.6]);
+		expect(await found(0.7)).toEqual([1]);
+		expect(await found(0.2)).toHaveLength(3);
+	});
+});
+
+describe("buildBm25Index", () => {
+	it("drops English and Hinglish stopwords", () => {
+		expect(tokenize("Jaipur mein kya dekhein aur kaise jaayein?")).toEqual(["jaipur", "dekhein", "kaise", "jaayein"]);
+	});
+
+	it("ranks a rare term above a common one", () => {
+		const index = buildBm25Index([
+			{ id: "a", text: "Hawa Mahal entry fee" },
+			{ id: "b", text: "Amber Fort entry fee" },
+			{ id: "c", text: "City Palace entry fee" },
+		]);
+		const scores = index.score("Hawa Mahal fee");
+		expect(scores.get("a")).toBeGreaterThan(2 * scores.get("b")!);
+		expect(scores.get("b")).toBe(scores.get("c"));
+		expect(index.score("Goa").size).toBe(0);
+	});
+});
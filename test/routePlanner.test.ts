@@ -0,0 +1,164 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { auth, createTestApp } from "./helpers.js";
+import {
+	ROAD_FACTOR,
+	bestOrder,
+	haversineKm,
+	parseTripNights,
+	roadDistanceKm,
+	splitNights,
+} from "../src/routePlanner.js";
+import { loadTravelData, searchCity } from "../src/utils.js";
+import { City } from "../src/types/index.js";
+
+const cities = loadTravelData(path.resolve(import.meta.dirname, "..", "travelData.json"));
+const city = (name: string) => searchCity(name, cities)[0];
+
+// Distances between points, as bestOrder takes them
+const distances = (points: { x: number; y: number }[]) =>
+	points.map((a) => points.map((b) => Math.hypot(a.x - b.x, a.y - b.y)));
+
+const pathLength = (order: number[], dist: number[][], loop: boolean) =>
+	order.reduce((sum, n, i) => sum + (i ? dist[order[i - 1]][n] : 0), 0) +
+	(loop ? dist[order[order.length - 1]][order[0]] : 0);
+
+/** Every order that starts at 0, to check the exact search against. */
+const orders = (n: number): number[][] => {
+	const permute = (prefix: number[], left: number[]): number[][] =>
+		left.length
+			? left.flatMap((m) => permute([...prefix, m], left.filter((k) => k !== m)))
+			: [prefix];
+	return permute([0], Array.from({ length: n - 1 }, (_, i) => i + 1));
+};
+
+/** `n` points on a circle, listed in a scrambled order (index 0 stays first). */
+const scrambledCircle = (n: number) => {
+	const slots = Array.from({ length: n }, (_, i) => (i * 7) % n); // 7 is coprime with the sizes used
+	return slots.map((slot) => ({
+		slot,
+		x: Math.cos((2 * Math.PI * slot) / n),
+		y: Math.sin((2 * Math.PI * slot) / n),
+	}));
+};
+
+describe("road distances", () => {
+	it("puts Delhi to Jaipur near the ~280 km NH48 drive", () => {
+		const delhi = city("New Delhi");
+		const jaipur = city("Jaipur");
+		const straight = haversineKm({ lat: delhi.lat!, lng: delhi.lng! }, { lat: jaipur.lat!, lng: jaipur.lng! });
+		expect(straight).toBeCloseTo(235.3, 1);
+		expect(roadDistanceKm(delhi, jaipur)).toBe(Math.round(235.29 * ROAD_FACTOR));
+		expect(roadDistanceKm(delhi, jaipur)).toBeGreaterThan(270);
+		expect(roadDistanceKm(delhi, jaipur)).toBeLessThan(320);
+	});
+
+	it("needs coordinates", () => {
+		expect(() => roadDistanceKm(city("Jaipur"), { city: "Udaipur" } as City)).toThrow(
+			"No coordinates for Udaipur."
+		);
+	});
+});
+
+describe("bestOrder", () => {
+	// Uneven, one-way distances, so there's a single shortest order
+	const skewed = (n: number) =>
+		Array.from({ length: n }, (_, a) =>
+			Array.from({ length: n }, (_, b) => (a === b ? 0 : ((a * 37 + b * 11) % 23) + 1))
+		);
+
+	it.each([false, true])("finds the shortest order of up to 8 stops (loop: %s)", (loop) => {
+		const dist = skewed(8);
+		const shortest = Math.min(...orders(8).map((o) => pathLength(o, dist, loop)));
+		const order = bestOrder(dist, loop);
+		expect(order[0]).toBe(0);
+		expect(order.slice().sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+		expect(pathLength(order, dist, loop)).toBe(shortest);
+	});
+
+	it("goes along a line in order on an open trip", () => {
+		// Positions 0, 5, 1, 4, 2, 3 on a line, by index
+		const points = [0, 5, 1, 4, 2, 3].map((x) => ({ x, y: 0 }));
+		expect(bestOrder(distances(points), false)).toEqual([0, 2, 4, 5, 3, 1]);
+	});
+
+	it.each([6, 12])("goes round a circle of %i stops on a loop", (n) => {
+		const points = scrambledCircle(n);
+		const slots = bestOrder(distances(points), true).map((i) => points[i].slot);
+		const clockwise = Array.from({ length: n }, (_, i) => i);
+		const anticlockwise = [0, ...clockwise.slice(1).reverse()];
+		expect([clockwise, anticlockwise]).toContainEqual(slots);
+	});
+
+	it("uses 2-opt above 8 stops on an open trip too", () => {
+		const points = [0, 9, 3, 11, 1, 7, 5, 10, 2, 8, 4, 6].map((x) => ({ x, y: x % 2 }));
+		const order = bestOrder(distances(points), false);
+		expect(order.map((i) => points[i].x)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+	});
+});
+
+describe("splitNights", () => {
+	// A city with `spots` top spots; more to see gets more nights
+	const stop = (spots: number) => ({ topSpots: Array(spots).fill("x") }) as City;
+
+	it("gives one night each, then the rest by top spots, largest remainder first", () => {
+		// 3 extra nights: shares 1.8, 0.6, 0.6 -> 1 + 1 + 0 by floor, then the two largest remainders
+		expect(splitNights([stop(3), stop(1), stop(1)], 6)).toEqual([3, 2, 1]);
+		expect(splitNights([stop(2), stop(2), stop(2)], 4)).toEqual([2, 1, 1]);
+		expect(splitNights([stop(1), stop(4)], 7)).toEqual([2, 5]);
+	});
+
+	it("gives the nights to the best stops when there are fewer nights than stops", () => {
+		expect(splitNights([stop(1), stop(3), stop(2)], 2)).toEqual([0, 1, 1]);
+		expect(splitNights([stop(1), stop(3)], 0)).toEqual([0, 0]);
+	});
+});
+
+describe("parseTripNights", () => {
+	it.each([
+		["Plan a 7-day loop from Delhi", 6],
+		["3 nights in Goa", 3],
+		["4 din ka trip", 3],
+		["2 raat Jaipur mein", 2],
+		["5 nights / 6 days in Rajasthan", 5],
+		["1 day in Agra", 0],
+		["Jaipur aur Agra", null],
+	])("%s -> %s", (query, nights) => {
+		expect(parseTripNights(query)).toBe(nights);
+	});
+});
+
+describe("POST /api/route", () => {
+	it("plans a loop from the start city", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/route")
+			.set(auth("alice"))
+			.send({ cities: ["Jaipur", "Agra"], start: "Delhi", nights: 4 });
+		expect(res.status).toBe(200);
+		expect(res.body.plan).toMatchObject({ start: "New Delhi", returnToStart: true, nights: 4 });
+		expect(res.body.plan.legs).toHaveLength(3);
+	});
+
+	it.each([
+		[{}, "cities: must be a non-empty array of city names"],
+		[{ cities: Array(13).fill("Goa") }, "cities: at most 12 cities"],
+		[{ cities: ["Goa", "Atlantis"] }, "cities[1]: unknown city 'Atlantis'"],
+		[{ cities: ["Goa"], start: "Atlantis" }, "start: unknown city 'Atlantis'"],
+		[{ cities: ["Goa"], start: "Goa" }, "cities: need at least one city besides the start"],
+		[{ cities: ["Goa"], nights: -1 }, "nights: must be a whole number >= 0"],
+		[{ cities: ["Goa"], days: 0 }, "days: must be a whole number >= 1"],
+		[{ cities: ["Goa"], returnToStart: "yes" }, "returnToStart: must be true or false"],
+		[{ cities: ["Goa"], mode: "boat" }, "mode: must be one of car, train, bus, flight"],
+		[{ cities: ["Goa"], travellers: 0 }, "travellers: must be a whole number >= 1"],
+		[{ cities: ["Goa"], peoplePerRoom: 1.5 }, "peoplePerRoom: must be a whole number >= 1"],
+		[{ cities: ["Goa"], tier: "royal" }, "tier: must be one of budget, mid, luxury"],
+		[{ cities: ["Goa"], season: "monsoon" }, "season: must be one of peak, shoulder, off"],
+	])("answers 400 for %j", async (body, issue) => {
+		const { app } = await createTestApp();
+		const res = await request(app).post("/api/route").set(auth("alice")).send(body);
+		expect(res.status).toBe(400);
+		expect(res.body).toEqual({ error: "Invalid route request.", issues: [issue] });
+	});
+});
@@ -0,0 +1,55 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { CityExistsError, createTravelDataStore } from "../src/travelDataStore.js";
+
+const root = path.resolve(import.meta.dirname, "..");
+
+/** A store on a copy of travelData.json, and one of its cities to clone. */
+function createStore() {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghumakkad-data-"));
+	const filePath = path.join(dir, "travelData.json");
+	fs.copyFileSync(path.join(root, "travelData.json"), filePath);
+	const store = createTravelDataStore(filePath);
+	const template = store.cities[0];
+	const city = (name: string) => ({ ...template, city: name, aliases: [] });
+	return { store, filePath, city };
+}
+
+const savedNames = (filePath: string): string[] =>
+	JSON.parse(fs.readFileSync(filePath, "utf8")).cities.map((c: { city: string }) => c.city);
+
+describe("createTravelDataStore", () => {
+	it("keeps every one of several concurrent writes", async () => {
+		const { store, filePath, city } = createStore();
+		const before = store.cities.length;
+
+		await Promise.all([
+			store.create(city("Shimla")),
+			store.create(city("Manali")),
+			store.update(store.cities[1].city, city("Ooty")),
+		]);
+
+		expect(store.cities).toHaveLength(before + 2);
+		expect(savedNames(filePath)).toEqual(expect.arrayContaining(["Shimla", "Manali", "Ooty"]));
+	});
+
+	it("lets only one of two concurrent creates take a name", async () => {
+		const { store, filePath, city } = createStore();
+
+		const results = await Promise.allSettled([store.create(city("Shimla")), store.create(city("shimla"))]);
+
+		expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+		expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(CityExistsError);
+		expect(savedNames(filePath).filter((n) => n.toLowerCase() === "shimla")).toHaveLength(1);
+	});
+
+	it("won't rename a city onto another", async () => {
+		const { store } = createStore();
+		const [first, second] = store.cities;
+		await expect(store.update(first.city, { ...first, city: second.city })).rejects.toBeInstanceOf(
+			CityExistsError
+		);
+	});
+});
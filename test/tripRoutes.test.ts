@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { auth, createTestApp, requestsToday } from "./helpers.js";
+
+const ITINERARY = JSON.stringify({
+	title: "2 days in Jaipur",
+	city: "Jaipur",
+	days: [{ title: "Forts", activities: [{ title: "Amber Fort", time: "08:00" }] }, { activities: [] }],
+});
+
+describe("/api/trips", () => {
+	it("creates a trip, adds a day and an activity, exports it and deletes it", async () => {
+		const { app } = await createTestApp();
+		let res = await request(app)
+			.post("/api/trips")
+			.set(auth("alice"))
+			.send({ city: "jaipur", startDate: "2026-12-31", travellers: 2 });
+		expect(res.status).toBe(201);
+		const { id } = res.body.trip;
+		expect(res.body.trip).toMatchObject({ title: "Jaipur trip", city: "Jaipur", endDate: "2026-12-31" });
+
+		res = await request(app).post(`/api/trips/${id}/days`).set(auth("alice")).send({ title: "Old City" });
+		expect(res.status).toBe(201);
+		expect(res.body.trip.endDate).toBe("2027-01-01");
+
+		res = await request(app)
+			.post(`/api/trips/${id}/days/2/activities`)
+			.set(auth("alice"))
+			.send({ title: "Hawa Mahal", time: "9:30", cost: 200 });
+		expect(res.status).toBe(201);
+		expect(res.body.trip.days[1].activities).toEqual([
+			{ id: expect.any(String), title: "Hawa Mahal", time: "09:30", cost: 200 },
+		]);
+		expect(res.body.trip.budget.total).toBeGreaterThan(0);
+
+		res = await request(app).get(`/api/trips/${id}/calendar.ics`).set(auth("alice"));
+		expect(res.headers["content-type"]).toBe("text/calendar; charset=utf-8");
+		expect(res.headers["content-disposition"]).toBe('attachment; filename="jaipur-trip.ics"');
+		expect(res.text).toContain("DTSTART:20270101T040000Z");
+
+		res = await request(app).get(`/api/trips/${id}/itinerary.md`).set(auth("alice"));
+		expect(res.text).toContain("- **09:30** Hawa Mahal (₹200 per person)");
+
+		res = await request(app).delete(`/api/trips/${id}`).set(auth("alice"));
+		expect(res.status).toBe(204);
+		res = await request(app).get(`/api/trips/${id}`).set(auth("alice"));
+		expect(res.status).toBe(404);
+	});
+
+	it("moves the end date with the days, and won't drop days that have plans", async () => {
+		const { app } = await createTestApp();
+		let res = await request(app)
+			.post("/api/trips")
+			.set(auth("alice"))
+			.send({ city: "Goa", startDate: "2026-12-01", endDate: "2026-12-03" });
+		const { id } = res.body.trip;
+		expect(res.body.trip.days.map((d: any) => d.day)).toEqual([1, 2, 3]);
+
+		await request(app).post(`/api/trips/${id}/days/3/activities`).set(auth("alice")).send({ title: "Baga" });
+		res = await request(app).patch(`/api/trips/${id}`).set(auth("alice")).send({ endDate: "2026-12-02" });
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual(["endDate: days 3-3 have activities; delete them first"]);
+
+		res = await request(app).delete(`/api/trips/${id}/days/1`).set(auth("alice"));
+		expect(res.body.trip.endDate).toBe("2026-12-02");
+		expect(res.body.trip.days[1]).toMatchObject({ day: 2, activities: [{ title: "Baga" }] });
+
+		res = await request(app).patch(`/api/trips/${id}`).set(auth("alice")).send({ startDate: "2027-01-10" });
+		expect(res.body.trip).toMatchObject({ startDate: "2027-01-10", endDate: "2027-01-11" });
+	});
+
+	it("keeps one user's trips from another", async () => {
+		const { app } = await createTestApp();
+		const res = await request(app)
+			.post("/api/trips")
+			.set(auth("alice"))
+			.send({ city: "Goa", startDate: "2026-12-01" });
+		const { id } = res.body.trip;
+
+		expect((await request(app).get("/api/trips").set(auth("bob"))).body.trips).toEqual([]);
+		expect((await request(app).get(`/api/trips/${id}`).set(auth("bob"))).status).toBe(404);
+		expect((await request(app).delete(`/api/trips/${id}`).set(auth("bob"))).status).toBe(404);
+	});
+});
+
+describe("POST /api/trips/from-chat", () => {
+	const script = [
+		{ match: "Turn the travel answer", reply: ITINERARY },
+		{ reply: "Day 1: Amber Fort at 8. Day 2: rest." },
+	];
+
+	it("turns the latest answer into a trip", async () => {
+		const { app } = await createTestApp({ script });
+		const chat = await request(app)
+			.post("/api/chat")
+			.set(auth("alice"))
+			.send({ query: "2 din Jaipur mein?", stream: false });
+
+		const res = await request(app)
+			.post("/api/trips/from-chat")
+			.set(auth("alice"))
+			.send({ conversationId: chat.body.conversationId, startDate: "2026-12-01" });
+		expect(res.status).toBe(201);
+		expect(res.body.trip).toMatchObject({
+			title: "2 days in Jaipur",
+			city: "Jaipur",
+			endDate: "2026-12-02",
+			conversationId: chat.body.conversationId,
+			days: [{ day: 1, title: "Forts", activities: [{ title: "Amber Fort", time: "08:00" }] }, { day: 2 }],
+		});
+		expect(await requestsToday(app)).toBe(2);
+	});
+
+	it("checks the body and finds the answer before using quota", async () => {
+		const { app } = await createTestApp({ script });
+		let res = await request(app).post("/api/trips/from-chat").set(auth("alice")).send({ startDate: "soon" });
+		expect(res.status).toBe(400);
+		expect(res.body.issues).toEqual([
+			"startDate: must be a date as YYYY-MM-DD",
+			"conversationId: must be a string",
+		]);
+
+		res = await request(app)
+			.post("/api/trips/from-chat")
+			.set(auth("alice"))
+			.send({ conversationId: "no-such-conversation", startDate: "2026-12-01" });
+		expect(res.status).toBe(404);
+		expect(await requestsToday(app)).toBe(0);
+	});
+});
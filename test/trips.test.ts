@@ -0,0 +1,233 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+	endDateFor,
+	parseActivity,
+	parseItinerary,
+	parseTripInput,
+	tripDetails,
+	tripToIcs,
+	tripToMarkdown,
+} from "../src/trips.js";
+import { loadTravelData } from "../src/utils.js";
+import { Trip } from "../src/types/index.js";
+
+const cities = loadTravelData(path.resolve(import.meta.dirname, "..", "travelData.json"));
+
+/** A two-day Jaipur trip over New Year. */
+const trip = (changes: Partial<Trip> = {}): Trip => ({
+	id: "trip-1",
+	userId: "user-1",
+	title: "Jaipur, New Year",
+	city: "Jaipur",
+	startDate: "2026-12-31",
+	endDate: "2027-01-01",
+	travellers: 2,
+	days: [
+		{
+			day: 1,
+			title: "Old City",
+			activities: [
+				{ id: "a1", title: "Hawa Mahal", time: "09:30", durationMinutes: 90, cost: 200 },
+				{ id: "a2", title: "Night bazaar", time: "02:00", location: "Johari Bazaar", cost: 0 },
+			],
+		},
+		{ day: 2, activities: [] },
+	],
+	createdAt: "2026-10-01T00:00:00.000Z",
+	updatedAt: "2026-10-01T00:00:00.000Z",
+	...changes,
+});
+
+describe("parseTripInput", () => {
+	it("fills in a new trip's defaults and the city's canonical name", () => {
+		const { input, issues } = parseTripInput({ city: "pink city", startDate: "2026-12-01" }, cities);
+		expect(issues).toEqual([]);
+		expect(input).toEqual({ city: "Jaipur", startDate: "2026-12-01", travellers: 1 });
+	});
+
+	it("lists every problem", () => {
+		const { issues } = parseTripInput(
+			{ city: "", startDate: "2026-02-30", endDate: "soon", travellers: 0, tier: "royal" },
+			cities
+		);
+		expect(issues).toEqual([
+			"city: must be a non-empty string",
+			"startDate: must be a date as YYYY-MM-DD",
+			"endDate: must be a date as YYYY-MM-DD",
+			"travellers: must be a whole number between 1 and 50",
+			"tier: must be one of budget, mid, luxury",
+		]);
+	});
+
+	it("only reads the fields an update sends", () => {
+		const { input, issues } = parseTripInput({ travellers: 4 }, cities, { partial: true });
+		expect(issues).toEqual([]);
+		expect(input).toStrictEqual({ travellers: 4 });
+	});
+
+	it("clears the tier with null, but not the title", () => {
+		expect(parseTripInput({ tier: null }, cities, { partial: true })).toStrictEqual({
+			input: { tier: null },
+			issues: [],
+		});
+		expect(parseTripInput({ title: null }, cities, { partial: true }).issues).toEqual([
+			"title: must be a non-empty string",
+		]);
+	});
+});
+
+describe("parseActivity", () => {
+	it("pads the time and leaves out empty fields", () => {
+		const { activity, issues } = parseActivity({ title: " Amber Fort ", time: "9:05", notes: "" });
+		expect(issues).toEqual([]);
+		expect(activity).toStrictEqual({ title: "Amber Fort", time: "09:05" });
+	});
+
+	it("on an update, keeps only what was sent and clears fields sent as null", () => {
+		const { activity, issues } = parseActivity({ time: "10:00", notes: null }, "activity", { partial: true });
+		expect(issues).toEqual([]);
+		expect(activity).toStrictEqual({ time: "10:00", notes: undefined });
+	});
+
+	it("rejects bad values", () => {
+		const { issues } = parseActivity({ title: "x", time: "25:00", durationMinutes: 0, cost: -1 });
+		expect(issues).toEqual([
+			'activity.time: must be a time of day as HH:MM, e.g. "09:30"',
+			"activity.durationMinutes: must be a whole number between 1 and 1440",
+			"activity.cost: must be a number >= 0 (INR per person)",
+		]);
+	});
+});
+
+describe("parseItinerary", () => {
+	it("accepts the shape the model is asked for", () => {
+		const { itinerary, issues } = parseItinerary({
+			title: "2 days in Jaipur",
+			city: "Jaipur",
+			days: [{ title: "Forts", activities: [{ title: "Amber Fort", time: "08:00" }] }, { activities: [] }],
+		});
+		expect(issues).toEqual([]);
+		expect(itinerary).toEqual({
+			title: "2 days in Jaipur",
+			city: "Jaipur",
+			days: [{ title: "Forts", activities: [{ title: "Amber Fort", time: "08:00" }] }, { activities: [] }],
+		});
+	});
+
+	it("names each problem by its path", () => {
+		const { itinerary, issues } = parseItinerary({
+			days: [{ activities: [{ title: "Amber Fort", price: 100 }] }, { activities: "none" }],
+			budget: 5000,
+		});
+		expect(itinerary).toBeNull();
+		expect(issues).toEqual([
+			"itinerary.budget: unknown field",
+			"itinerary.days[0].activities[0].price: unknown field",
+			"itinerary.days[1].activities: must be an array",
+		]);
+	});
+
+	it("needs at least one day", () => {
+		expect(parseItinerary({ days: [] }).issues).toEqual(["itinerary.days: must be a non-empty array"]);
+	});
+});
+
+describe("endDateFor", () => {
+	it.each([
+		["2026-12-01", 1, "2026-12-01"],
+		["2026-12-30", 3, "2027-01-01"],
+		["2028-02-28", 3, "2028-03-01"],
+		["2026-12-01", 0, "2026-12-01"],
+	])("%s for %i days ends on %s", (start, days, end) => {
+		expect(endDateFor(start, days)).toBe(end);
+	});
+});
+
+describe("tripToIcs", () => {
+	const now = new Date("2026-10-19T10:00:00Z");
+	const events = (ics: string) =>
+		ics
+			.replace(/\r\n /g, "")
+			.split("BEGIN:VEVENT\r\n")
+			.slice(1)
+			.map((e) => e.split("\r\n"));
+
+	it("turns IST times into UTC, earliest first", () => {
+		const [night, fort] = events(tripToIcs(trip(), now));
+		expect(night).toContain("DTSTART:20261230T203000Z");
+		expect(night).toContain("DTEND:20261230T213000Z");
+		expect(night).toContain("LOCATION:Johari Bazaar\\, Jaipur");
+		expect(fort).toContain("DTSTART:20261231T040000Z");
+		expect(fort).toContain("DTEND:20261231T053000Z");
+		expect(fort).toContain("DTSTAMP:20261019T100000Z");
+		expect(fort).toContain("DESCRIPTION:Day 1: Old City\\nCost: ₹200 per person");
+	});
+
+	it("makes an untimed activity an all-day event", () => {
+		const ics = tripToIcs(
+			trip({ days: [{ day: 1, activities: [] }, { day: 2, activities: [{ id: "a3", title: "Amber Fort" }] }] }),
+			now
+		);
+		expect(events(ics)[0]).toEqual(
+			expect.arrayContaining(["DTSTART;VALUE=DATE:20270101", "DTEND;VALUE=DATE:20270102"])
+		);
+	});
+
+	it("escapes text", () => {
+		const ics = tripToIcs(
+			trip({
+				title: "Forts, food; more",
+				days: [{ day: 1, activities: [{ id: "a1", title: "C:\\Jaipur", notes: "Go early.\nCarry water" }] }],
+			}),
+			now
+		);
+		expect(ics).toContain("X-WR-CALNAME:Forts\\, food\\; more\r\n");
+		expect(events(ics)[0]).toEqual(
+			expect.arrayContaining(["SUMMARY:C:\\\\Jaipur", "DESCRIPTION:Go early.\\nCarry water"])
+		);
+	});
+
+	it("folds long lines at 75 octets without splitting a character", () => {
+		const notes = "हवा महल सुबह जल्दी देखें, फिर जौहरी बाज़ार में घूमें और शाम को नाहरगढ़ से सूर्यास्त देखें।";
+		const ics = tripToIcs(
+			trip({ days: [{ day: 1, activities: [{ id: "a1", title: "हवा महल", notes }] }] }),
+			now
+		);
+		const lines = ics.split("\r\n");
+		expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+		expect(lines.some((l) => l.startsWith(" "))).toBe(true);
+		for (const line of lines) expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+		expect(events(ics)[0]).toContain(`DESCRIPTION:${notes.replace(/,/g, "\\,")}`);
+	});
+});
+
+describe("tripToMarkdown", () => {
+	it("lists the days and the budget", () => {
+		const md = tripToMarkdown(tripDetails(trip(), cities));
+		expect(md.split("\n").slice(0, 12)).toEqual([
+			"# Jaipur, New Year",
+			"",
+			"**Where:** Jaipur, Rajasthan  ",
+			"**When:** Thu 31 Dec 2026 to Fri 1 Jan 2027 (2 days)  ",
+			"**Travellers:** 2",
+			"",
+			"## Day 1: Thu 31 Dec 2026",
+			"",
+			"*Old City*",
+			"",
+			"- **02:00** Night bazaar (Johari Bazaar, free)",
+			"- **09:30** Hawa Mahal (1h 30m, ₹200 per person)",
+		]);
+		expect(md).toContain("## Day 2: Fri 1 Jan 2027\n\nNothing planned yet.\n");
+		expect(md).toContain("## Budget (mid tier, estimate)");
+		expect(md).toMatch(/\| \*\*Total\*\* \| \| \| \*\*₹[\d,]+\*\* \|/);
+		expect(md.endsWith("Getting to Jaipur isn't included.\n")).toBe(true);
+	});
+
+	it("leaves out the budget for a city we no longer have data for", () => {
+		const md = tripToMarkdown(tripDetails(trip({ city: "Atlantis" }), []));
+		expect(md).toContain("**Where:** Atlantis  ");
+		expect(md).not.toContain("## Budget");
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createInMemoryUsageStore, createSupabaseUsageStore } from "../src/usageStore.js";
+
+const tokens = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+describe("createInMemoryUsageStore", () => {
+	it("adds up concurrent records", async () => {
+		const store = createInMemoryUsageStore();
+		await Promise.all([
+			store.record("u1", "2026-01-01", { requests: 1 }),
+			store.record("u1", "2026-01-01", { requests: 1 }),
+			store.record("u1", "2026-01-01", { tokens }),
+		]);
+		expect(await store.get("u1", "2026-01-01")).toEqual({
+			day: "2026-01-01",
+			requests: 2,
+			promptTokens: 10,
+			completionTokens: 5,
+			totalTokens: 15,
+		});
+	});
+});
+
+describe("createSupabaseUsageStore", () => {
+	it("records through one SQL call that adds to the counters", async () => {
+		const calls: unknown[] = [];
+		const row = { day: "2026-01-01", requests: 3, prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+		const client = {
+			from: () => {
+				throw new Error("no table access expected");
+			},
+			rpc: (name: string, args: unknown) => {
+				calls.push([name, args]);
+				return { single: async () => ({ data: row, error: null }) };
+			},
+		} as unknown as SupabaseClient;
+
+		const usage = await createSupabaseUsageStore(client).record("u1", "2026-01-01", { tokens });
+
+		expect(calls).toEqual([
+			[
+				"record_usage",
+				{
+					p_user_id: "u1",
+					p_day: "2026-01-01",
+					p_requests: 0,
+					p_prompt_tokens: 10,
+					p_completion_tokens: 5,
+					p_total_tokens: 15,
+				},
+			],
+		]);
+		expect(usage).toEqual({ day: "2026-01-01", requests: 3, promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+	});
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		include: ["test/**/*.test.ts"],
+		// Only warnings and errors, so a failing test's output isn't buried in request logs
+		env: { LOG_LEVEL: "warn" },
+	},
+});